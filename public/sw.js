@@ -0,0 +1,76 @@
+// The app's service worker: call notifications, and WebTorrent streaming.
+
+// WebTorrent serves torrent files to <video> through the page's worker, and a page only
+// gets one, so its fetch handler is loaded in here. The app passes the bundled script's URL.
+const webTorrentWorker = new URL(self.location.href).searchParams.get('webtorrent');
+if (webTorrentWorker && new URL(webTorrentWorker, self.location.origin).origin === self.location.origin) {
+  importScripts(webTorrentWorker);
+}
+
+// Call notification payloads come from the call-push edge function:
+// { kind: 'incoming_call' | 'missed_call', callId, roomId, title, body }
+
+const roomUrl = (data, answer) =>
+  new URL(`/room/${data.roomId}${answer ? `?answer=${encodeURIComponent(data.callId)}` : ''}`, self.location.origin).href;
+
+const roomClients = async (roomId) => {
+  const windows = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  return windows.filter((client) => new URL(client.url).pathname === `/room/${roomId}`);
+};
+
+self.addEventListener('install', () => self.skipWaiting());
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('push', (event) => {
+  if (!event.data) return;
+  let data;
+  try {
+    data = event.data.json();
+  } catch {
+    return;
+  }
+
+  event.waitUntil((async () => {
+    const incoming = data.kind === 'incoming_call';
+    // The room is on screen, so the in-app call modal is already ringing
+    if (incoming && (await roomClients(data.roomId)).some((client) => client.focused)) return;
+
+    await self.registration.showNotification(data.title, {
+      body: data.body,
+      icon: '/icon-128.png',
+      badge: '/icon-48.png',
+      // The missed-call notice replaces the ring for the same call
+      tag: `call-${data.callId}`,
+      renotify: true,
+      requireInteraction: incoming,
+      data,
+      actions: incoming
+        ? [{ action: 'answer', title: 'Answer' }, { action: 'decline', title: 'Decline' }]
+        : [{ action: 'open', title: 'Open room' }]
+    });
+  })());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  const data = event.notification.data;
+  event.notification.close();
+  if (!data) return;
+
+  event.waitUntil((async () => {
+    const incoming = data.kind === 'incoming_call';
+    const [client] = await roomClients(data.roomId);
+
+    if (event.action === 'decline') {
+      // Only an open room can tell the caller; otherwise the call rings out as missed
+      client?.postMessage({ type: 'decline_call', callId: data.callId });
+      return;
+    }
+
+    if (client) {
+      if (incoming) client.postMessage({ type: 'answer_call', callId: data.callId });
+      await client.focus();
+      return;
+    }
+    await self.clients.openWindow(roomUrl(data, incoming));
+  })());
+});
@@ -0,0 +1,15 @@
+// A WebSocket BitTorrent tracker for trying P2P sharing without the public trackers.
+// Run `npm run tracker`, then start the app with VITE_TORRENT_TRACKERS=ws://localhost:8000
+import Server from 'bittorrent-tracker/server';
+
+const port = Number(process.env.PORT) || 8000;
+
+// Browsers only reach peers over WebRTC, so only the WebSocket tracker is needed
+const server = new Server({ udp: false, http: false, ws: true, stats: false });
+
+server.on('error', (error) => console.error('[Tracker] Error:', error.message));
+server.on('warning', (error) => console.warn('[Tracker] Warning:', error.message));
+server.on('start', (peerId, params) => console.log('[Tracker] Peer joined', params.info_hash));
+server.on('stop', (peerId, params) => console.log('[Tracker] Peer left', params.info_hash));
+
+server.listen(port, () => console.log(`[Tracker] Listening on ws://localhost:${port}`));
@@ -0,0 +1,139 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Camera, Mic, Volume2 } from 'lucide-react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import type { CallController } from '@/hooks/useCallManager';
+import { useAudioLevel } from '@/hooks/useAudioLevel';
+import {
+  audioConstraints,
+  resolveDevice,
+  supportsOutputSelection,
+  videoConstraints,
+  type CallDeviceKind
+} from '@/lib/webrtc/devices';
+import { isInCall } from '@/lib/webrtc/callMachine';
+
+interface CallDeviceSettingsProps {
+  call: CallController;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Radix Select can't use '' as a value
+const SYSTEM_DEFAULT = '__default';
+
+// Chrome lists aliases next to the real devices
+const isAlias = (device: MediaDeviceInfo) => device.deviceId === 'default' || device.deviceId === 'communications';
+
+const DEVICE_LABELS: Record<CallDeviceKind, string> = {
+  videoinput: 'Camera',
+  audioinput: 'Microphone',
+  audiooutput: 'Speakers'
+};
+
+const DEVICE_ICONS: Record<CallDeviceKind, React.ElementType> = {
+  videoinput: Camera,
+  audioinput: Mic,
+  audiooutput: Volume2
+};
+
+export const CallDeviceSettings: React.FC<CallDeviceSettingsProps> = ({ call, open, onOpenChange }) => {
+  const { callState, callType, localStream, devices, devicePreferences, selectDevice, refreshDevices } = call;
+  const previewVideoRef = useRef<HTMLVideoElement>(null);
+  const [previewStream, setPreviewStream] = useState<MediaStream | null>(null);
+
+  // Mid-call the preview is the call's own media; otherwise open the chosen devices just for the dialog
+  const inCall = isInCall(callState);
+  const shownStream = inCall ? localStream : previewStream;
+  const micLevel = useAudioLevel(open ? shownStream : null);
+  const audioInput = resolveDevice(devicePreferences.audioinput, devices, 'audioinput');
+  const videoInput = resolveDevice(devicePreferences.videoinput, devices, 'videoinput');
+
+  useEffect(() => {
+    if (!open || inCall) return;
+
+    let cancelled = false;
+    let opened: MediaStream | null = null;
+    navigator.mediaDevices.getUserMedia({ audio: audioConstraints(audioInput), video: videoConstraints(videoInput) })
+      .then((stream) => {
+        if (cancelled) {
+          stream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        opened = stream;
+        setPreviewStream(stream);
+        refreshDevices();
+      })
+      .catch((error) => console.warn('[Devices] Preview unavailable:', error));
+
+    return () => {
+      cancelled = true;
+      opened?.getTracks().forEach((track) => track.stop());
+      setPreviewStream(null);
+    };
+  }, [open, inCall, audioInput, videoInput, refreshDevices]);
+
+  useEffect(() => {
+    if (previewVideoRef.current) previewVideoRef.current.srcObject = shownStream;
+  }, [shownStream, open]);
+
+  const kinds: CallDeviceKind[] = ['videoinput', 'audioinput'];
+  if (supportsOutputSelection()) kinds.push('audiooutput');
+  const showCamera = !(inCall && callType === 'voice');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="z-[100002] sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Call devices</DialogTitle>
+          <DialogDescription>
+            {inCall ? 'Changes apply to the call right away.' : 'Used for your next call.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {showCamera && (
+          <div className="aspect-video rounded-lg overflow-hidden bg-muted">
+            <video ref={previewVideoRef} autoPlay playsInline muted
+              className="w-full h-full object-cover scale-x-[-1]" />
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {kinds.map((kind) => {
+            const Icon = DEVICE_ICONS[kind];
+            const options = devices.filter((device) => device.kind === kind && !isAlias(device));
+            const selected = resolveDevice(devicePreferences[kind], devices, kind) ?? SYSTEM_DEFAULT;
+            return (
+              <div key={kind} className="space-y-2">
+                <label className="text-sm font-medium flex items-center gap-2">
+                  <Icon className="w-4 h-4" /> {DEVICE_LABELS[kind]}
+                </label>
+                <Select value={selected}
+                  onValueChange={(value) => selectDevice(kind, value === SYSTEM_DEFAULT ? null : value)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="z-[100003]">
+                    <SelectItem value={SYSTEM_DEFAULT}>System default</SelectItem>
+                    {options.map((device, index) => (
+                      <SelectItem key={device.deviceId} value={device.deviceId}>
+                        {device.label || `${DEVICE_LABELS[kind]} ${index + 1}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {kind === 'audioinput' && (
+                  <div className="h-1.5 rounded-full bg-muted overflow-hidden">
+                    <div className={cn('h-full transition-[width] duration-75', micLevel > 0.8 ? 'bg-yellow-500' : 'bg-green-500')}
+                      style={{ width: `${micLevel * 100}%` }} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
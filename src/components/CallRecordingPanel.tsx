@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { Circle, Download, Upload, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { CallController, CallRecording } from '@/hooks/useCallManager';
+import { useSharedFiles } from '@/hooks/useSharedFiles';
+
+interface CallRecordingPanelProps {
+  call: CallController;
+  roomId: string;
+  partnerName?: string;
+}
+
+const formatSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.ceil(bytes / 1024)} KB`;
+
+const downloadRecording = ({ blob, fileName }: CallRecording) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Mounted only while there's a file to save, so the shared-files subscription isn't held for every call
+const RecordingReadyCard: React.FC<{
+  recording: CallRecording;
+  roomId: string;
+  onSaved: () => void;
+  onDiscard: () => void;
+}> = ({ recording, roomId, onSaved, onDiscard }) => {
+  const { uploadFile, uploading, uploadProgress } = useSharedFiles(roomId);
+
+  const saveToRoom = async () => {
+    const file = new File([recording.blob], recording.fileName, { type: recording.blob.type });
+    if (await uploadFile(file)) onSaved();
+  };
+
+  return (
+    <div className="bg-card border rounded-xl shadow-2xl p-4 w-72 space-y-3">
+      <div>
+        <p className="font-medium text-sm">Call recording ready</p>
+        <p className="text-xs text-muted-foreground">{formatSize(recording.blob.size)} WebM</p>
+      </div>
+      <div className="flex gap-2">
+        <Button size="sm" variant="secondary" className="flex-1 gap-1" onClick={() => downloadRecording(recording)}>
+          <Download className="w-3.5 h-3.5" /> Download
+        </Button>
+        <Button size="sm" className="flex-1 gap-1" onClick={saveToRoom} disabled={uploading}>
+          <Upload className="w-3.5 h-3.5" /> {uploading ? `${uploadProgress}%` : 'Save to room'}
+        </Button>
+        <Button size="icon" variant="ghost" className="h-8 w-8" onClick={onDiscard} disabled={uploading} title="Discard">
+          <Trash2 className="w-3.5 h-3.5" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Everything about recording a call: the consent prompt, the indicator both
+ * of us see for as long as it runs, and what to do with the file afterwards.
+ */
+export const CallRecordingPanel: React.FC<CallRecordingPanelProps> = ({ call, roomId, partnerName = 'Partner' }) => {
+  const { recordingState, recording, respondToRecording, stopRecording, discardRecording } = call;
+  const [confirmDiscard, setConfirmDiscard] = useState(false);
+
+  const discard = () => {
+    if (!confirmDiscard) {
+      setConfirmDiscard(true);
+      return;
+    }
+    setConfirmDiscard(false);
+    discardRecording();
+  };
+
+  return (
+    <>
+      <AnimatePresence>
+        {recordingState === 'recording' && (
+          <motion.div key="recording" initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="fixed top-4 left-4 z-[100001] flex items-center gap-2 rounded-full bg-destructive text-destructive-foreground pl-3 pr-1 py-1 shadow-xl">
+            <Circle className="w-3 h-3 fill-current animate-pulse" />
+            <span className="text-sm font-medium">Recording</span>
+            <Button size="sm" variant="secondary" className="h-6 rounded-full text-xs" onClick={stopRecording}>
+              Stop
+            </Button>
+          </motion.div>
+        )}
+
+        {recordingState === 'asking' && (
+          <motion.div key="asking" initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="fixed top-4 left-4 z-[100001] flex items-center gap-2 rounded-full bg-card border pl-3 pr-1 py-1 shadow-xl">
+            <span className="text-sm">Asking {partnerName} to allow recording...</span>
+            <Button size="sm" variant="ghost" className="h-6 rounded-full text-xs" onClick={stopRecording}>
+              Cancel
+            </Button>
+          </motion.div>
+        )}
+
+        {recordingState === 'asked' && (
+          <motion.div key="asked" initial={{ opacity: 0, scale: 0.95 }} animate={{ opacity: 1, scale: 1 }}
+            exit={{ opacity: 0, scale: 0.95 }}
+            className="fixed top-4 left-1/2 -translate-x-1/2 z-[100002] bg-card border rounded-xl shadow-2xl p-4 w-80 space-y-3">
+            <div>
+              <p className="font-medium">{partnerName} wants to record this call</p>
+              <p className="text-sm text-muted-foreground">
+                Your video and voice will be saved on their device. You can stop it at any time.
+              </p>
+            </div>
+            <div className="flex gap-2 justify-end">
+              <Button size="sm" variant="ghost" onClick={() => respondToRecording(false)}>Don't allow</Button>
+              <Button size="sm" onClick={() => respondToRecording(true)}>Allow</Button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {recording && (
+        <div className="fixed bottom-4 left-4 z-[100001]">
+          <RecordingReadyCard recording={recording} roomId={roomId} onSaved={discardRecording} onDiscard={discard} />
+          {confirmDiscard && (
+            <p className="mt-1 text-xs text-destructive bg-card rounded px-2 py-1 shadow">
+              Click the bin again to delete the recording for good
+            </p>
+          )}
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { markersPassed, type TimelineMarker } from '@/lib/media/markers';
+
+interface ChatReplayOverlayProps {
+  /** Messages from an earlier watch, anchored to video time. */
+  messages: TimelineMarker[];
+  currentTime: number;
+  isPlaying: boolean;
+  partnerName?: string;
+}
+
+const BUBBLE_MS = 4000;
+const MAX_BUBBLES = 3;
+
+/** Replays an earlier watch's chat as subtitle-style bubbles at the moments it was sent. */
+export const ChatReplayOverlay: React.FC<ChatReplayOverlayProps> = ({
+  messages,
+  currentTime,
+  isPlaying,
+  partnerName = 'Partner'
+}) => {
+  const [bubbles, setBubbles] = useState<TimelineMarker[]>([]);
+  const lastTimeRef = useRef(currentTime);
+  const timersRef = useRef<number[]>([]);
+
+  useEffect(() => {
+    const passed = isPlaying ? markersPassed(messages, lastTimeRef.current, currentTime) : [];
+    lastTimeRef.current = currentTime;
+    if (passed.length === 0) return;
+
+    setBubbles((prev) => [...prev, ...passed].slice(-MAX_BUBBLES));
+    const ids = new Set(passed.map((message) => message.id));
+    timersRef.current.push(window.setTimeout(() => {
+      setBubbles((prev) => prev.filter((bubble) => !ids.has(bubble.id)));
+    }, BUBBLE_MS));
+  }, [currentTime, isPlaying, messages]);
+
+  useEffect(() => {
+    const timers = timersRef.current;
+    return () => timers.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  return (
+    <div className="pointer-events-none absolute inset-x-0 bottom-28 z-30 flex flex-col items-center gap-1.5 px-6">
+      <AnimatePresence>
+        {bubbles.map((bubble) => (
+          <motion.div
+            key={bubble.id}
+            initial={{ opacity: 0, y: 8 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className="max-w-[80%] rounded-lg bg-black/75 px-3 py-1.5 text-center text-sm text-white shadow-lg"
+          >
+            <span className="font-semibold text-white/70">{bubble.author || partnerName}: </span>
+            {bubble.label}
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+};
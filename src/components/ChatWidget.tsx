@@ -14,25 +14,23 @@ import {
   Laugh,
   AlertCircle,
   X,
-  Minimize2
+  Minimize2,
+  Check,
+  CheckCheck,
+  Clock,
+  RotateCcw
 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
+import { useChatMessages, type ChatMessage, type ChatVideoAnchor } from '@/hooks/useChatMessages';
+import { receiptFor } from '@/lib/chat/messages';
 import { toast } from '@/components/ui/use-toast';
 
-interface ChatMessage {
-  id: string;
-  content: string;
-  sender_id: string;
-  sender_email: string;
-  type: 'message' | 'emoji' | 'reaction';
-  created_at: string;
-}
-
 interface ChatWidgetProps {
   roomId: string;
   isMinimized?: boolean;
   onToggleMinimize?: () => void;
+  /** What's playing, so messages can replay at the same moment on a rewatch. */
+  videoAnchor?: ChatVideoAnchor;
 }
 
 const EMOJI_REACTIONS = [
@@ -47,87 +45,49 @@ const EMOJI_REACTIONS = [
 export const ChatWidget: React.FC<ChatWidgetProps> = ({
   roomId,
   isMinimized = false,
-  onToggleMinimize
+  onToggleMinimize,
+  videoAnchor
 }) => {
   const { user } = useAuth();
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState('');
   const [isOpen, setIsOpen] = useState(false);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
-  const [unreadCount, setUnreadCount] = useState(0);
   const scrollAreaRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
-  useEffect(() => {
-    if (!roomId || !user) return;
+  // Show toast for reactions
+  const handleIncoming = (message: ChatMessage) => {
+    if (message.type === 'emoji' || message.type === 'reaction') {
+      toast({
+        title: "Reaction from partner",
+        description: message.content,
+        duration: 2000
+      });
+    }
+  };
 
-    // Subscribe to new messages
-    const channel = supabase
-      .channel(`chat_${roomId}`)
-      .on('broadcast', { event: 'new_message' }, (payload) => {
-        const message = payload.payload as ChatMessage;
-        setMessages(prev => [...prev, message]);
-        
-        // Increment unread count if chat is closed and message is not from current user
-        if (!isOpen && message.sender_id !== user.id) {
-          setUnreadCount(prev => prev + 1);
-        }
-        
-        // Show toast for reactions
-        if (message.type === 'emoji' || message.type === 'reaction') {
-          if (message.sender_id !== user.id) {
-            toast({
-              title: "Reaction from partner",
-              description: message.content,
-              duration: 2000
-            });
-          }
-        }
-      })
-      .subscribe();
+  const {
+    messages,
+    hasMore,
+    loadingOlder,
+    unreadCount,
+    partnerTyping,
+    loadOlder,
+    sendMessage,
+    retryMessage,
+    setTyping
+  } = useChatMessages(roomId, {
+    isOpen: isOpen && !isMinimized,
+    anchor: videoAnchor,
+    onIncoming: handleIncoming
+  });
 
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [roomId, user, isOpen]);
+  const lastMessageId = messages[messages.length - 1]?.id;
 
   useEffect(() => {
-    // Scroll to bottom when new messages arrive
+    // Scroll to bottom when new messages arrive (not when older pages load)
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [messages]);
-
-  useEffect(() => {
-    // Reset unread count when chat is opened
-    if (isOpen) {
-      setUnreadCount(0);
-    }
-  }, [isOpen]);
-
-  const sendMessage = async (content: string, type: 'message' | 'emoji' | 'reaction' = 'message') => {
-    if (!content.trim() || !user) return;
-
-    const message: ChatMessage = {
-      id: `msg_${Date.now()}`,
-      content: content.trim(),
-      sender_id: user.id,
-      sender_email: user.email || 'Unknown',
-      type,
-      created_at: new Date().toISOString()
-    };
-
-    // Add to local state immediately
-    setMessages(prev => [...prev, message]);
-
-    // Broadcast to other users
-    const channel = supabase.channel(`chat_${roomId}`);
-    await channel.send({
-      type: 'broadcast',
-      event: 'new_message',
-      payload: message
-    });
-
-    setNewMessage('');
-  };
+  }, [lastMessageId, partnerTyping]);
 
   const sendEmoji = (emoji: string) => {
     sendMessage(emoji, 'emoji');
@@ -137,6 +97,30 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     sendMessage(newMessage);
+    setNewMessage('');
+  };
+
+  const renderReceipt = (message: ChatMessage) => {
+    switch (receiptFor(message, message.sendStatus)) {
+      case 'sending':
+        return <Clock className="w-3 h-3" />;
+      case 'failed':
+        return (
+          <button
+            type="button"
+            onClick={() => retryMessage(message.id)}
+            className="inline-flex items-center gap-0.5 underline"
+          >
+            <RotateCcw className="w-3 h-3" /> Retry
+          </button>
+        );
+      case 'sent':
+        return <Check className="w-3 h-3" />;
+      case 'delivered':
+        return <CheckCheck className="w-3 h-3" />;
+      case 'read':
+        return <CheckCheck className="w-3 h-3 text-sky-300" />;
+    }
   };
 
   const formatTime = (timestamp: string) => {
@@ -144,6 +128,12 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
   };
 
+  const formatVideoTime = (seconds: number) => {
+    const mins = Math.floor(seconds / 60);
+    const secs = Math.floor(seconds % 60);
+    return `${mins}:${secs.toString().padStart(2, '0')}`;
+  };
+
   if (isMinimized) {
     return (
       <motion.div
@@ -275,6 +265,19 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({
         <CardContent className="flex-1 p-3 pt-2 flex flex-col overflow-hidden">
           <ScrollArea className="flex-1 pr-2 mb-3" ref={scrollAreaRef}>
             <div className="space-y-2 pb-2">
+              {hasMore && (
+                <div className="flex justify-center">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={loadOlder}
+                    disabled={loadingOlder}
+                    className="h-6 text-xs text-muted-foreground"
+                  >
+                    {loadingOlder ? 'Loading...' : 'Load earlier messages'}
+                  </Button>
+                </div>
+              )}
               {messages.length === 0 ? (
                 <div className="text-center text-muted-foreground text-sm py-8">
                   <MessageCircle className="w-8 h-8 mx-auto mb-2 opacity-50" />
@@ -301,16 +304,25 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({
                     >
                       <div className="break-words">{message.content}</div>
                       <div 
-                        className={`text-xs mt-1 opacity-70 ${
-                          message.sender_id === user?.id ? 'text-right' : 'text-left'
+                        className={`text-xs mt-1 opacity-70 flex items-center gap-1 ${
+                          message.sender_id === user?.id ? 'justify-end' : 'justify-start'
                         }`}
                       >
                         {formatTime(message.created_at)}
+                        {message.video_timestamp !== null && (
+                          <span title="Video time when sent">· {formatVideoTime(message.video_timestamp)}</span>
+                        )}
+                        {message.sender_id === user?.id && renderReceipt(message)}
                       </div>
                     </div>
                   </motion.div>
                 ))
               )}
+              {partnerTyping && (
+                <div className="text-xs text-muted-foreground italic px-1">
+                  Partner is typing...
+                </div>
+              )}
               <div ref={messagesEndRef} />
             </div>
           </ScrollArea>
@@ -318,7 +330,11 @@ export const ChatWidget: React.FC<ChatWidgetProps> = ({
           <form onSubmit={handleSubmit} className="flex gap-2 border-t pt-3">
             <Input
               value={newMessage}
-              onChange={(e) => setNewMessage(e.target.value)}
+              onChange={(e) => {
+                setNewMessage(e.target.value);
+                setTyping(e.target.value.trim().length > 0);
+              }}
+              onBlur={() => setTyping(false)}
               placeholder="Type a message..."
               className="flex-1 bg-background"
               maxLength={200}
@@ -378,6 +378,7 @@ export const FileUploadHandler: React.FC<FileUploadHandlerProps> = ({
             <div className="text-xs text-muted-foreground space-y-1">
               <p>• <strong>YouTube:</strong> youtube.com, youtu.be links (embedded player)</p>
               <p>• <strong>HLS Streams:</strong> .m3u8 live streams and VOD</p>
+              <p>• <strong>DASH Streams:</strong> .mpd manifests</p>
               <p>• <strong>Direct Video:</strong> .mp4, .webm, .mov files</p>
               <p>• <strong>Google Drive:</strong> Public drive.google.com sharing links</p>
               <p>• All URLs sync automatically between partners</p>
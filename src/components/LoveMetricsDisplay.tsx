@@ -4,7 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Badge } from './ui/badge';
 import { Progress } from './ui/progress';
 import { useLoveMetrics } from '@/hooks/useLoveMetrics';
-import { Heart, Clock, Calendar, Trophy, Flame, Star } from 'lucide-react';
+import { Heart, Clock, Calendar, Trophy, Flame, Star, Phone } from 'lucide-react';
 
 interface LoveMetricsDisplayProps {
   roomId: string;
@@ -128,6 +128,28 @@ export const LoveMetricsDisplay: React.FC<LoveMetricsDisplayProps> = ({
             </CardContent>
           </Card>
         </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, scale: 0.9 }}
+          animate={{ opacity: 1, scale: 1 }}
+          transition={{ delay: 0.5 }}
+          className="col-span-2"
+        >
+          <Card>
+            <CardContent className="p-4">
+              <div className="flex items-center gap-2 mb-2">
+                <Phone className="w-4 h-4 text-purple-500" />
+                <span className="text-sm text-muted-foreground">Talk Time</span>
+              </div>
+              <p className="text-2xl font-bold">
+                {Math.floor(metrics.talkTimeMinutes / 60)}h {metrics.talkTimeMinutes % 60}m
+                <span className="text-sm font-normal text-muted-foreground ml-2">
+                  over {metrics.callsCount} {metrics.callsCount === 1 ? 'call' : 'calls'}
+                </span>
+              </p>
+            </CardContent>
+          </Card>
+        </motion.div>
       </div>
 
       {/* Achievements */}
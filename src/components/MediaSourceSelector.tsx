@@ -240,7 +240,7 @@ export const MediaSourceSelector: React.FC<MediaSourceSelectorProps> = ({
               </div>
               
               <div className="text-sm text-muted-foreground space-y-1">
-                <p>• Paste direct video links (.mp4, .webm, .m3u8)</p>
+                <p>• Paste direct video links (.mp4, .webm, .m3u8, .mpd)</p>
                 <p>• Google Drive sharing links (public videos)</p>
                 <p>• YouTube, Vimeo, and other streaming URLs</p>
                 <p>• Live streaming links (HLS/DASH)</p>
@@ -1,15 +1,14 @@
 import React from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { useRoomPresence } from '@/hooks/useRoomPresence';
 import { Users, Wifi } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface PartnerPresenceProps {
-  roomId: string;
+  onlineCount: number;
+  partnerJoined: boolean;
 }
 
-export const PartnerPresence: React.FC<PartnerPresenceProps> = ({ roomId }) => {
-  const { presenceUsers, partnerJoined } = useRoomPresence(roomId);
+export const PartnerPresence: React.FC<PartnerPresenceProps> = ({ onlineCount, partnerJoined }) => {
 
   return (
     <div className="flex items-center gap-3">
@@ -19,7 +18,7 @@ export const PartnerPresence: React.FC<PartnerPresenceProps> = ({ roomId }) => {
           partnerJoined ? "bg-green-500 animate-pulse" : "bg-muted-foreground/40"
         )} />
         <span className="text-xs font-medium text-muted-foreground">
-          {presenceUsers.length} online
+          {onlineCount} online
         </span>
       </div>
       <AnimatePresence>
@@ -3,54 +3,77 @@ import ReactDOM from 'react-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   Phone, PhoneOff, Mic, MicOff, Video, VideoOff,
-  Minimize2, Maximize2, Signal, SignalLow, SignalMedium, SignalHigh,
-  X, GripVertical
+  Minimize2, Maximize2, X, GripVertical, Download,
+  MonitorUp, MonitorOff, Pin, PinOff, Settings, Circle
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
-import { useEnhancedCallSignaling } from '@/hooks/useEnhancedCallSignaling';
-import { useEnhancedVideoCall } from '@/hooks/useEnhancedVideoCall';
+import type { CallController, ConnectionQuality } from '@/hooks/useCallManager';
+import { isInCall } from '@/lib/webrtc/callMachine';
+import { applyOutputDevice } from '@/lib/webrtc/devices';
 import { IncomingCallModal } from './IncomingCallModal';
+import { CallDeviceSettings } from './CallDeviceSettings';
+import { CallRecordingPanel } from './CallRecordingPanel';
+
+const canShareScreen = typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+
+const QUALITY_COLORS = ['bg-muted-foreground', 'bg-destructive', 'bg-yellow-500', 'bg-green-400', 'bg-green-500'];
+
+const QualityBars: React.FC<{ quality: ConnectionQuality }> = ({ quality }) => {
+  const details = [
+    `RTT ${quality.latency}ms`,
+    `jitter ${quality.jitter}ms`,
+    `loss ${quality.packetLoss}%`,
+    quality.availableBitrate > 0 && `uplink ${quality.availableBitrate} kbps`,
+    quality.frameRate > 0 && `${quality.frameRate} fps`,
+    quality.videoQuality && `sending ${quality.videoQuality}`
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className="flex items-end gap-0.5 h-3.5" title={details}>
+      {[1, 2, 3, 4].map((bar) => (
+        <span key={bar}
+          style={{ height: `${bar * 25}%` }}
+          className={cn('w-1 rounded-sm', bar <= quality.level ? QUALITY_COLORS[quality.level] : 'bg-muted-foreground/30')} />
+      ))}
+    </div>
+  );
+};
 
 interface ProductionCallOverlayProps {
+  /** The room's call, shared with every other call UI. */
+  call: CallController;
   roomId: string;
   partnerId?: string | null;
   partnerName?: string;
-  voiceOnly?: boolean;
 }
 
 export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
-  roomId, partnerId, partnerName = 'Partner', voiceOnly = false
+  call, roomId, partnerId, partnerName = 'Partner'
 }) => {
   const localVideoRef = useRef<HTMLVideoElement>(null);
   const remoteVideoRef = useRef<HTMLVideoElement>(null);
+  const remoteAudioRef = useRef<HTMLAudioElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
   const [position, setPosition] = useState({ x: 20, y: 20 });
   const [isDragging, setIsDragging] = useState(false);
   const [isMinimized, setIsMinimized] = useState(false);
   const [isHidden, setIsHidden] = useState(false);
+  const [isScreenPinned, setIsScreenPinned] = useState(false);
+  const [showDevices, setShowDevices] = useState(false);
   const dragStartRef = useRef({ x: 0, y: 0, posX: 0, posY: 0 });
 
   const {
-    callStatus, incomingCall, activeCallId, isInitiator,
-    initiateCall, acceptCall, rejectCall, cancelCall, endCall, markConnected
-  } = useEnhancedCallSignaling({ roomId, partnerId });
-
-  const {
-    callState, localStream, remoteStream, isMuted, isCameraOff,
-    connectionQuality, startCall, cleanup, toggleMute, toggleCamera
-  } = useEnhancedVideoCall({
-    roomId, callId: activeCallId, isInitiator, voiceOnly,
-    onConnected: markConnected
-  });
-
-  // Start WebRTC when call is accepted
-  useEffect(() => {
-    if (callStatus === 'connecting' && activeCallId) {
-      startCall();
-    }
-  }, [callStatus, activeCallId, startCall]);
+    callState, callType, incomingCall, localStream, remoteStream, isMuted, isCameraOff,
+    connectionQuality, isScreenSharing, isSharingTabAudio, remoteScreenStream, audioOutputId, recordingState,
+    startCall, acceptCall, declineCall, hangUp, toggleMute, toggleCamera,
+    startScreenShare, stopScreenShare, requestRecording, stopRecording, exportDiagnostics
+  } = call;
+  const voiceOnly = callType === 'voice';
+  // The partner's screen takes over the main tile while they share
+  const remoteVideoStream = remoteScreenStream ?? (voiceOnly ? null : remoteStream);
+  const screenPinned = isScreenPinned && !!remoteScreenStream;
 
   // Set local video stream
   useEffect(() => {
@@ -62,18 +85,25 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
 
   // Set remote video stream
   useEffect(() => {
-    if (remoteVideoRef.current && remoteStream) {
-      remoteVideoRef.current.srcObject = remoteStream;
+    if (remoteVideoRef.current && remoteVideoStream) {
+      remoteVideoRef.current.srcObject = remoteVideoStream;
       remoteVideoRef.current.play().catch(() => {});
     }
-  }, [remoteStream]);
+  }, [remoteVideoStream, isMinimized]);
 
-  // Cleanup on call end
+  // Voice calls have no video element to carry the partner's audio
   useEffect(() => {
-    if (callStatus === 'ended' || callStatus === 'idle') {
-      cleanup();
+    if (remoteAudioRef.current && remoteStream && voiceOnly) {
+      remoteAudioRef.current.srcObject = remoteStream;
+      remoteAudioRef.current.play().catch(() => {});
     }
-  }, [callStatus, cleanup]);
+  }, [remoteStream, voiceOnly]);
+
+  // Play the partner through the chosen speakers
+  useEffect(() => {
+    applyOutputDevice(remoteVideoRef.current, audioOutputId);
+    applyOutputDevice(remoteAudioRef.current, audioOutputId);
+  }, [audioOutputId, remoteVideoStream, remoteStream, isMinimized]);
 
   // Drag handlers
   const handleDragStart = (e: React.MouseEvent) => {
@@ -96,28 +126,25 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
     return () => { window.removeEventListener('mousemove', handleMouseMove); window.removeEventListener('mouseup', handleMouseUp); };
   }, [isDragging]);
 
-  const SignalIcon = () => {
-    const { level } = connectionQuality;
-    if (level <= 1) return <SignalLow className="w-4 h-4 text-destructive" />;
-    if (level === 2) return <SignalMedium className="w-4 h-4 text-yellow-500" />;
-    if (level === 3) return <SignalHigh className="w-4 h-4 text-green-400" />;
-    return <Signal className="w-4 h-4 text-green-500" />;
-  };
+  const inCall = isInCall(callState);
+  const showCallButton = callState === 'idle';
 
-  const handleEndCall = () => { cleanup(); endCall(); };
-  const isInCall = callStatus === 'connecting' || callStatus === 'connected';
-  const showCallButton = callStatus === 'idle';
+  // Stays up when the call window is hidden, and after the call for the finished file
+  const recordingPanel = <CallRecordingPanel call={call} roomId={roomId} partnerName={partnerName} />;
 
   // Hidden mode
-  if (isHidden && isInCall) {
+  if (isHidden && inCall) {
     return ReactDOM.createPortal(
-      <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}
-        className="fixed bottom-4 right-4 z-[100000]">
-        <Button onClick={() => setIsHidden(false)}
-          className="rounded-full bg-primary/90 backdrop-blur-md shadow-lg gap-2" size="sm">
-          <Phone className="w-4 h-4" /> Show Call
-        </Button>
-      </motion.div>,
+      <>
+        {recordingPanel}
+        <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}
+          className="fixed bottom-4 right-4 z-[100000]">
+          <Button onClick={() => setIsHidden(false)}
+            className="rounded-full bg-primary/90 backdrop-blur-md shadow-lg gap-2" size="sm">
+            <Phone className="w-4 h-4" /> Show Call
+          </Button>
+        </motion.div>
+      </>,
       document.body
     );
   }
@@ -125,12 +152,34 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
   return ReactDOM.createPortal(
     <>
       <IncomingCallModal
-        isOpen={callStatus === 'incoming' && !!incomingCall}
+        isOpen={callState === 'ringing' && !!incomingCall}
         callerName={partnerName}
         callType={incomingCall?.callType || 'video'}
-        onAccept={acceptCall} onReject={rejectCall}
+        onAccept={acceptCall} onReject={declineCall}
       />
 
+      {voiceOnly && remoteStream && <audio ref={remoteAudioRef} autoPlay />}
+
+      <CallDeviceSettings call={call} open={showDevices} onOpenChange={setShowDevices} />
+      {recordingPanel}
+
+      {/* Sharing banner */}
+      <AnimatePresence>
+        {isScreenSharing && (
+          <motion.div initial={{ opacity: 0, y: -20 }} animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -20 }}
+            className="fixed top-4 left-1/2 -translate-x-1/2 z-[100001] flex items-center gap-3 rounded-full bg-destructive text-destructive-foreground px-4 py-2 shadow-xl">
+            <MonitorUp className="w-4 h-4" />
+            <span className="text-sm font-medium">
+              You are sharing your screen{isSharingTabAudio ? ' and tab audio' : ''}
+            </span>
+            <Button size="sm" variant="secondary" className="h-7 rounded-full" onClick={stopScreenShare}>
+              Stop sharing
+            </Button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+
       {/* Call Buttons – ALWAYS clickable */}
       <AnimatePresence>
         {showCallButton && (
@@ -138,7 +187,7 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
             exit={{ opacity: 0, scale: 0.9 }}
             className="fixed bottom-24 right-6 z-[99999] flex flex-col gap-2.5 items-end">
             <Button
-              onClick={() => initiateCall('video')}
+              onClick={() => startCall('video')}
               className={cn(
                 "rounded-full shadow-xl h-12 w-12 p-0",
                 "bg-gradient-to-br from-primary to-pink-500 hover:shadow-primary/40",
@@ -149,7 +198,7 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
               <Video className="w-5 h-5 text-white" />
             </Button>
             <Button
-              onClick={() => initiateCall('voice')}
+              onClick={() => startCall('voice')}
               variant="secondary"
               className={cn(
                 "rounded-full shadow-xl h-12 w-12 p-0",
@@ -165,7 +214,7 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
 
       {/* Calling State */}
       <AnimatePresence>
-        {callStatus === 'calling' && (
+        {callState === 'calling' && (
           <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} exit={{ opacity: 0 }}
             className="fixed inset-0 flex items-center justify-center bg-background/80 backdrop-blur-sm z-[100000]">
             <div className="bg-card rounded-2xl p-8 text-center shadow-2xl border max-w-sm">
@@ -176,7 +225,7 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
               </motion.div>
               <h3 className="text-xl font-semibold mb-2">Calling {partnerName}...</h3>
               <p className="text-muted-foreground mb-6">Waiting for answer</p>
-              <Button onClick={cancelCall} variant="destructive" size="lg" className="rounded-full">
+              <Button onClick={hangUp} variant="destructive" size="lg" className="rounded-full">
                 <PhoneOff className="w-5 h-5 mr-2" /> Cancel
               </Button>
             </div>
@@ -186,7 +235,7 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
 
       {/* Active Call Overlay */}
       <AnimatePresence>
-        {isInCall && (
+        {inCall && (
           <motion.div ref={containerRef}
             initial={{ opacity: 0, scale: 0.9 }} animate={{ opacity: 1, scale: 1 }}
             exit={{ opacity: 0, scale: 0.9 }}
@@ -194,7 +243,7 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
             className={cn(
               "fixed z-[100000] rounded-2xl overflow-hidden shadow-2xl",
               "bg-card border border-border",
-              isMinimized ? "w-48" : "w-80"
+              isMinimized ? "w-48" : screenPinned ? "w-[min(48rem,90vw)]" : "w-80"
             )}>
             {/* Header */}
             <div onMouseDown={handleDragStart}
@@ -202,11 +251,21 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
               <div className="flex items-center gap-2">
                 <GripVertical className="w-4 h-4 text-muted-foreground" />
                 <span className="text-sm font-medium">
-                  {callState === 'connecting' || callState === 'reconnecting' ? 'Connecting...' : 'In Call'}
+                  {callState === 'connected' ? 'In Call' : 'Connecting...'}
                 </span>
-                {callState === 'connected' && <SignalIcon />}
+                {callState === 'connected' && connectionQuality.level > 0 && (
+                  <QualityBars quality={connectionQuality} />
+                )}
               </div>
               <div className="flex items-center gap-1">
+                <Button variant="ghost" size="icon" className="h-6 w-6"
+                  onClick={() => setShowDevices(true)} title="Devices">
+                  <Settings className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-6 w-6"
+                  onClick={exportDiagnostics} title="Download call diagnostics">
+                  <Download className="w-3 h-3" />
+                </Button>
                 <Button variant="ghost" size="icon" className="h-6 w-6"
                   onClick={() => setIsMinimized(!isMinimized)}>
                   {isMinimized ? <Maximize2 className="w-3 h-3" /> : <Minimize2 className="w-3 h-3" />}
@@ -221,9 +280,9 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
             {/* Video Area */}
             {!isMinimized && (
               <div className="relative aspect-video bg-background">
-                {remoteStream && !voiceOnly ? (
+                {remoteVideoStream ? (
                   <video ref={remoteVideoRef} autoPlay playsInline
-                    className="w-full h-full object-cover" />
+                    className={cn("w-full h-full", remoteScreenStream ? "object-contain bg-black" : "object-cover")} />
                 ) : (
                   <div className="w-full h-full flex items-center justify-center">
                     <div className="w-16 h-16 rounded-full bg-primary/20 flex items-center justify-center">
@@ -232,14 +291,23 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
                   </div>
                 )}
 
-                {localStream && !voiceOnly && !isCameraOff && (
+                {remoteScreenStream && (
+                  <Button variant="secondary" size="icon"
+                    className="absolute top-2 right-2 h-7 w-7 rounded-full bg-background/80"
+                    onClick={() => setIsScreenPinned(!isScreenPinned)}
+                    title={screenPinned ? 'Unpin shared screen' : 'Pin shared screen'}>
+                    {screenPinned ? <PinOff className="w-3.5 h-3.5" /> : <Pin className="w-3.5 h-3.5" />}
+                  </Button>
+                )}
+
+                {localStream && !voiceOnly && !isCameraOff && !isScreenSharing && (
                   <div className="absolute bottom-2 right-2 w-20 rounded-lg overflow-hidden border border-border shadow-lg aspect-[4/3]">
                     <video ref={localVideoRef} autoPlay playsInline muted
                       className="w-full h-full object-cover scale-x-[-1]" />
                   </div>
                 )}
 
-                {(callState === 'connecting' || callState === 'reconnecting') && (
+                {callState !== 'connected' && (
                   <div className="absolute inset-0 flex items-center justify-center bg-background/60">
                     <div className="text-center">
                       <motion.div animate={{ rotate: 360 }}
@@ -252,9 +320,10 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
                   </div>
                 )}
 
-                {callState === 'connected' && connectionQuality.latency > 0 && (
+                {callState === 'connected' && connectionQuality.level > 0 && (
                   <div className="absolute top-2 left-2 bg-background/80 rounded px-2 py-0.5 text-xs">
-                    {connectionQuality.latency}ms
+                    {connectionQuality.latency}ms · {connectionQuality.packetLoss}% loss
+                    {connectionQuality.videoQuality && ` · ${connectionQuality.videoQuality}`}
                   </div>
                 )}
               </div>
@@ -272,7 +341,22 @@ export const ProductionCallOverlay: React.FC<ProductionCallOverlayProps> = ({
                   {isCameraOff ? <VideoOff className="w-5 h-5" /> : <Video className="w-5 h-5" />}
                 </Button>
               )}
-              <Button variant="destructive" size="icon" onClick={handleEndCall}
+              {canShareScreen && (callState === 'connected' || isScreenSharing) && (
+                <Button variant="ghost" size="icon" onClick={isScreenSharing ? stopScreenShare : startScreenShare}
+                  title={isScreenSharing ? 'Stop sharing' : 'Share screen or tab'}
+                  className={cn("rounded-full h-10 w-10", isScreenSharing ? "bg-primary text-primary-foreground" : "bg-secondary")}>
+                  {isScreenSharing ? <MonitorOff className="w-5 h-5" /> : <MonitorUp className="w-5 h-5" />}
+                </Button>
+              )}
+              {callState === 'connected' && (
+                <Button variant="ghost" size="icon"
+                  onClick={recordingState === 'idle' ? requestRecording : stopRecording}
+                  title={recordingState === 'idle' ? 'Record call' : 'Stop recording'}
+                  className={cn("rounded-full h-10 w-10", recordingState === 'idle' ? "bg-secondary" : "bg-destructive text-destructive-foreground")}>
+                  <Circle className={cn("w-5 h-5", recordingState === 'recording' && "fill-current")} />
+                </Button>
+              )}
+              <Button variant="destructive" size="icon" onClick={hangUp}
                 className="rounded-full h-10 w-10">
                 <PhoneOff className="w-5 h-5" />
               </Button>
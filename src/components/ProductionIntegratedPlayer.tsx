@@ -1,9 +1,17 @@
-import React, { useState } from 'react';
-import { ProductionVideoPlayer } from './ProductionVideoPlayer';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { AnimatePresence } from 'framer-motion';
+import { ProductionVideoPlayer, type CallAudio, type PeerLeft, type SeekRequest, type SourceRequest } from './ProductionVideoPlayer';
 import { ReactionOverlay } from './ReactionOverlay';
 import { VideoQueue } from './VideoQueue';
+import { UpNextOverlay } from './UpNextOverlay';
 import { TimestampedNotes } from './TimestampedNotes';
+import { ChatReplayOverlay } from './ChatReplayOverlay';
 import { toast } from '@/hooks/use-toast';
+import { useVideoQueue, type QueueItem } from '@/hooks/useVideoQueue';
+import { useTimestampedNotes } from '@/hooks/useTimestampedNotes';
+import { useChatReplay } from '@/hooks/useChatReplay';
+import type { TimelineMarker } from '@/lib/media/markers';
+import { isDashManifest, isHlsPlaylist } from '@/lib/media/adaptiveStream';
 
 interface ProductionIntegratedPlayerProps {
   roomId: string;
@@ -11,45 +19,143 @@ interface ProductionIntegratedPlayerProps {
   isRoomCreator: boolean;
   partnerId?: string | null;
   partnerName?: string;
+  callAudio?: CallAudio;
+  peerLeft?: PeerLeft | null;
   onPlaybackStateChange?: (state: any) => void;
 }
 
 export const ProductionIntegratedPlayer: React.FC<ProductionIntegratedPlayerProps> = ({
   roomId, roomCode, isRoomCreator, partnerId,
-  partnerName = 'Partner', onPlaybackStateChange
+  partnerName = 'Partner', callAudio, peerLeft, onPlaybackStateChange
 }) => {
   const [currentTime, setCurrentTime] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [currentVideoUrl, setCurrentVideoUrl] = useState('');
+  const [mediaId, setMediaId] = useState<string | null>(null);
+  const [seekRequest, setSeekRequest] = useState<SeekRequest | null>(null);
+  const [isHost, setIsHost] = useState(isRoomCreator);
+  const [sourceRequest, setSourceRequest] = useState<SourceRequest | null>(null);
+  const requestedItemRef = useRef<QueueItem | null>(null);
+
+  const {
+    queue, currentItemId, shuffle, repeat, upNext,
+    addToQueue, removeFromQueue, reorderQueue, setCurrentItem,
+    toggleShuffle, cycleRepeat, getNextItem, announceUpNext
+  } = useVideoQueue(roomId);
+
+  const { notes, addNote } = useTimestampedNotes(roomId, mediaId);
+  const noteMarkers = useMemo<TimelineMarker[]>(() => notes.map((note) => ({
+    id: note.id,
+    time: note.timestamp,
+    label: note.content,
+    author: note.user_name || undefined
+  })), [notes]);
+  const chatReplay = useChatReplay(roomId, mediaId);
 
   const handlePlaybackUpdate = (state: any) => {
     setCurrentTime(state.current_time_seconds || 0);
     setIsPlaying(state.is_playing || false);
+    setMediaId(state.media_id ?? null);
     onPlaybackStateChange?.(state);
   };
 
-  const handlePlayVideo = (url: string, type: string) => {
-    setCurrentVideoUrl(url);
+  // Load a queue item for both partners; the player switches the partner over the sync channel
+  const handlePlayVideo = useCallback((item: QueueItem) => {
+    announceUpNext(null);
+    requestedItemRef.current = item;
+    // The queue stores HLS and DASH links as plain URLs
+    const type = item.type !== 'url' ? item.type
+      : isDashManifest(item.url) ? 'dash'
+      : isHlsPlaylist(item.url) ? 'hls'
+      : 'url';
+    setSourceRequest({ url: item.url, type, key: Date.now() });
+  }, [announceUpNext]);
+
+  const handleSourceRequestHandled = useCallback((_request: SourceRequest, accepted: boolean) => {
+    const item = requestedItemRef.current;
+    requestedItemRef.current = null;
+    if (!accepted) {
+      toast({ title: 'The host is driving', description: 'Ask for control to change the video' });
+      return;
+    }
+    if (item) setCurrentItem(item.id);
+  }, [setCurrentItem]);
+
+  const handlePlayNext = () => {
+    const next = getNextItem();
+    if (next) handlePlayVideo(next);
+    else toast({ title: 'End of the queue', description: 'Turn on repeat to keep going' });
   };
 
+  // The video finished on the driving side: count down to the next item for both partners
+  const handleEnded = useCallback(() => {
+    const next = getNextItem();
+    if (next) announceUpNext(next);
+  }, [getNextItem, announceUpNext]);
+
+  useEffect(() => {
+    if (!upNext || !isHost) return;
+    const timer = window.setTimeout(() => handlePlayVideo(upNext.item), Math.max(0, upNext.startsAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [upNext, isHost, handlePlayVideo]);
+
+  // Seeks both partners through the player's sync channel
   const handleSeekToTime = (time: number) => {
-    toast({ title: 'Seeking...', description: `Jumping to ${Math.floor(time)}s` });
+    setSeekRequest({ time, key: Date.now() });
   };
 
   return (
     <div className="relative w-full space-y-4">
       <div className="grid grid-cols-1 xl:grid-cols-3 gap-4">
-        <div className="xl:col-span-2">
+        <div className="xl:col-span-2 relative">
           <ProductionVideoPlayer
             roomId={roomId}
             roomCode={roomCode}
             isRoomCreator={isRoomCreator}
+            partnerName={partnerName}
+            sourceRequest={sourceRequest}
+            onSourceRequestHandled={handleSourceRequestHandled}
+            onEnded={handleEnded}
+            onControlChange={setIsHost}
+            seekRequest={seekRequest}
+            peerLeft={peerLeft}
+            markers={noteMarkers}
+            callAudio={callAudio}
             onPlaybackStateChange={handlePlaybackUpdate}
           />
+          {chatReplay.length > 0 && (
+            <ChatReplayOverlay
+              messages={chatReplay}
+              currentTime={currentTime}
+              isPlaying={isPlaying}
+              partnerName={partnerName}
+            />
+          )}
+          <AnimatePresence>
+            {upNext && (
+              <UpNextOverlay
+                upNext={upNext}
+                canPlayNow={isHost}
+                onPlayNow={() => handlePlayVideo(upNext.item)}
+                onCancel={() => announceUpNext(null)}
+              />
+            )}
+          </AnimatePresence>
         </div>
         <div className="space-y-4">
-          <VideoQueue roomId={roomId} onPlayVideo={handlePlayVideo} currentVideoUrl={currentVideoUrl} />
-          <TimestampedNotes roomId={roomId} currentTime={currentTime} onSeekToTime={handleSeekToTime} />
+          <VideoQueue
+            queue={queue}
+            currentItemId={currentItemId}
+            shuffle={shuffle}
+            repeat={repeat}
+            onAdd={addToQueue}
+            onRemove={removeFromQueue}
+            onReorder={reorderQueue}
+            onPlayItem={handlePlayVideo}
+            onPlayNext={handlePlayNext}
+            onToggleShuffle={toggleShuffle}
+            onCycleRepeat={cycleRepeat}
+          />
+          <TimestampedNotes notes={notes} currentTime={currentTime} onAddNote={addNote} onSeekToTime={handleSeekToTime} />
         </div>
       </div>
 
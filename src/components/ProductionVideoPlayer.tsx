@@ -6,47 +6,149 @@ import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Switch } from '@/components/ui/switch';
 import { toast } from '@/hooks/use-toast';
 import { 
   Play, Pause, Volume2, VolumeX, Maximize, Minimize,
   SkipBack, SkipForward, Upload, Link as LinkIcon,
   Youtube, Radio, Loader2, RefreshCw, Users, Wifi, WifiOff,
-  Crown, Heart
+  Crown, Heart, Hourglass, Hand, MessageSquare, AudioLines, Headphones, Share2, Settings2, Captions
 } from 'lucide-react';
-import Hls from 'hls.js';
 import { RobustYouTubePlayer } from '@/components/RobustYouTubePlayer';
 import { VimeoPlayer } from '@/components/VimeoPlayer';
-import { useHostSync, SyncState } from '@/hooks/useHostSync';
-import { useEnhancedStreaming } from '@/hooks/useEnhancedStreaming';
+import { SyncStatusIndicator } from '@/components/SyncStatusIndicator';
+import { SubtitleOverlay } from '@/components/SubtitleOverlay';
+import { SubtitleSettings } from '@/components/SubtitleSettings';
+import { useSyncEngine } from '@/hooks/useSyncEngine';
+import type { SyncState, SyncStatus, LocalSyncState, SyncSourceType, RenditionLock } from '@/lib/sync/protocol';
+import { applySyncState } from '@/lib/sync/engine';
+import { CONTROL_MODES, CONTROL_MODE_LABELS, type ControlMode } from '@/lib/sync/control';
+import { getMediaId } from '@/lib/media/mediaId';
+import { markersPassed, type TimelineMarker } from '@/lib/media/markers';
+import { formatBytes } from '@/lib/media/torrent';
+import {
+  AUTO_LEVEL, SUBTITLES_OFF, isDashManifest, isHlsPlaylist, openAdaptiveStream, qualityLabel, formatBitrate, findLockedLevel,
+  type AdaptiveStream, type AdaptiveStreamType, type QualityLevel, type StreamTrack, type StreamStats
+} from '@/lib/media/adaptiveStream';
+import { CAPTURE_FAILURE_MESSAGES } from '@/lib/webrtc/filmStream';
+import {
+  createMediaElementAdapter, createHlsAdapter, createDashAdapter, createYouTubeAdapter, createVimeoAdapter,
+  type PlayerAdapter, type YouTubeControls, type VimeoControls
+} from '@/lib/sync/adapters';
+import { useMediaStreaming } from '@/hooks/useMediaStreaming';
+import { useWebTorrent } from '@/hooks/useWebTorrent';
+import { useSubtitleSync } from '@/hooks/useSubtitleSync';
+import { useAudioDucking } from '@/hooks/useAudioDucking';
+import { useEchoDetection } from '@/hooks/useEchoDetection';
+import { loadEchoCheckEnabled, saveEchoCheckEnabled } from '@/lib/audio/echo';
+import {
+  DUCKING_DEPTH_RANGE,
+  DUCKING_RELEASE_RANGE_MS,
+  loadDuckingSettings,
+  saveDuckingSettings,
+  type DuckingSettings
+} from '@/lib/audio/ducking';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { cn } from '@/lib/utils';
 
+/** Ask the player to load and start a source, e.g. from the queue. A new key re-requests. */
+export interface SourceRequest {
+  url: string;
+  type: SyncSourceType;
+  key: number;
+}
+
+/** Seek both partners to a time, e.g. from a note. A new key re-requests. */
+export interface SeekRequest {
+  time: number;
+  key: number;
+}
+
+/** A partner's last presence left the room. A new key re-reports. */
+export interface PeerLeft {
+  userId: string;
+  key: number;
+}
+
+/** How long a note stays up after playback passes it. */
+const NOTE_POPUP_MS = 5000;
+
 interface ProductionVideoPlayerProps {
   roomId: string;
   roomCode?: string;
   isRoomCreator: boolean;
+  partnerName?: string;
+  /** How long to wait for a stalled partner before playing on without them. */
+  maxBufferWaitMs?: number;
+  sourceRequest?: SourceRequest | null;
+  /** Whether the request was carried out; followers can't change the video outside shared mode. */
+  onSourceRequestHandled?: (request: SourceRequest, accepted: boolean) => void;
+  /** Fires on the driving partner's side when the video plays to the end. */
+  onEnded?: () => void;
+  onControlChange?: (isHost: boolean) => void;
+  seekRequest?: SeekRequest | null;
+  /** From the room's presence; a host who left hands control to whoever is still here. */
+  peerLeft?: PeerLeft | null;
+  /** Shown on the seek bar, and popped up as playback passes them. */
+  markers?: TimelineMarker[];
+  /** Call audio to listen to; the movie ducks while someone talks. */
+  callAudio?: CallAudio;
   onPlaybackStateChange?: (state: any) => void;
 }
 
+export interface CallAudio {
+  local: MediaStream | null;
+  remote: MediaStream | null;
+}
+
+// captureStream is not in standard types but is widely supported
+type CapturableVideo = HTMLVideoElement & { captureStream?: () => MediaStream };
+
+const WAIT_FOR_EVERYONE_KEY = 'ustuo_wait_for_everyone';
+const STREAM_STATS_KEY = 'ustuo_stream_stats';
+const STREAM_STATS_INTERVAL_MS = 1000;
+
 export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({ 
   roomId, 
   roomCode,
   isRoomCreator,
+  partnerName = 'Partner',
+  maxBufferWaitMs,
+  sourceRequest,
+  onSourceRequestHandled,
+  onEnded,
+  onControlChange,
+  seekRequest,
+  peerLeft,
+  markers = [],
+  callAudio,
   onPlaybackStateChange 
 }) => {
   const { user } = useAuth();
   const videoRef = useRef<HTMLVideoElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const hlsRef = useRef<Hls | null>(null);
+  const adaptiveStreamRef = useRef<AdaptiveStream | null>(null);
   const playerReadyRef = useRef<boolean>(false);
   const pendingSyncRef = useRef<SyncState | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const ytControlsRef = useRef<any>(null);
-  const vimeoControlsRef = useRef<any>(null);
+  const ytControlsRef = useRef<YouTubeControls | null>(null);
+  const vimeoControlsRef = useRef<VimeoControls | null>(null);
+  const heldByBarrierRef = useRef(false);
+  const playOnReadyRef = useRef(false);
+  const handledRequestKeyRef = useRef<number | null>(null);
+  const handledSeekKeyRef = useRef<number | null>(null);
+  const handledPeerLeftKeyRef = useRef<number | null>(null);
+  const lastMarkerCheckRef = useRef(0);
+  const duckGainRef = useRef(1);
 
   // Player state
   const [isPlaying, setIsPlaying] = useState(false);
+  // Heartbeat getters outlive the render they were made in, so they read this instead of isPlaying
+  const isPlayingRef = useRef(false);
+  isPlayingRef.current = isPlaying;
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [volume, setVolume] = useState(100);
@@ -55,6 +157,7 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
   const [isLoading, setIsLoading] = useState(false);
   const [showControls, setShowControls] = useState(true);
   const [autoplayBlocked, setAutoplayBlocked] = useState(false);
+  const [poppedMarker, setPoppedMarker] = useState<TimelineMarker | null>(null);
 
   // Media source states
   const [videoSrc, setVideoSrc] = useState('');
@@ -62,104 +165,283 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
   const [currentMediaType, setCurrentMediaType] = useState<SyncState['sourceType']>('local');
   const [currentFile, setCurrentFile] = useState<File | null>(null);
   const [urlInput, setUrlInput] = useState('');
+  // HLS or DASH manifest; the effect below loads it once the video element is there
+  const [adaptiveSource, setAdaptiveSource] = useState<{ url: string; type: AdaptiveStreamType } | null>(null);
+  const [qualityLevels, setQualityLevels] = useState<QualityLevel[]>([]);
+  const [qualityLevel, setQualityLevel] = useState(AUTO_LEVEL);
+  const [audioTracks, setAudioTracks] = useState<StreamTrack[]>([]);
+  const [audioTrack, setAudioTrack] = useState(0);
+  const [subtitleTracks, setSubtitleTracks] = useState<StreamTrack[]>([]);
+  const [subtitleTrack, setSubtitleTrack] = useState(SUBTITLES_OFF);
+  // Shared by both partners; each player maps it onto its own ladder
+  const [renditionLock, setRenditionLock] = useState<RenditionLock | null>(null);
+  const renditionLockRef = useRef<RenditionLock | null>(null);
+  renditionLockRef.current = renditionLock;
+  const [showStreamStats, setShowStreamStats] = useState(() => localStorage.getItem(STREAM_STATS_KEY) === 'true');
+  const [streamStats, setStreamStats] = useState<StreamStats | null>(null);
+  const [torrentMagnet, setTorrentMagnet] = useState<string | null>(null);
+  // Set while we seed the room's torrent, so we keep playing our own file instead of streaming it back
+  const seededMagnetRef = useRef<string | null>(null);
+
+  // What a partner needs to load the same video; for a torrent that's the magnet, not our blob URL
+  const currentSourceUrl = currentMediaType === 'youtube' ? youtubeVideoId
+    : currentMediaType === 'torrent' ? torrentMagnet
+    : currentMediaType === 'hls' || currentMediaType === 'dash' ? adaptiveSource?.url ?? null
+    : videoSrc;
+
+  const [waitForEveryone, setWaitForEveryone] = useState(() => localStorage.getItem(WAIT_FOR_EVERYONE_KEY) !== 'false');
 
-  // Host sync - room creator is host
-  const [isHost, setIsHost] = useState(isRoomCreator);
+  useEffect(() => {
+    localStorage.setItem(WAIT_FOR_EVERYONE_KEY, String(waitForEveryone));
+  }, [waitForEveryone]);
 
-  // Apply sync from host
-  const applySyncState = useCallback(async (state: SyncState) => {
-    console.log('[ProductionPlayer] Applying sync:', {
-      time: state.currentTime.toFixed(1),
-      status: state.status,
-      sourceType: state.sourceType
-    });
+  useEffect(() => {
+    localStorage.setItem(STREAM_STATS_KEY, String(showStreamStats));
+  }, [showStreamStats]);
+
+  const [ducking, setDucking] = useState<DuckingSettings>(loadDuckingSettings);
 
-    const DRIFT_THRESHOLD = 1.0;
+  useEffect(() => {
+    saveDuckingSettings(ducking);
+  }, [ducking]);
+
+  const [echoCheck, setEchoCheck] = useState(loadEchoCheckEnabled);
+  const [echoDismissed, setEchoDismissed] = useState(false);
+  const [playbackCapture, setPlaybackCapture] = useState<MediaStream | null>(null);
 
-    // Handle media source change
-    if (state.sourceUrl && state.sourceType !== currentMediaType) {
-      await handleMediaSourceChange(state.sourceUrl, state.sourceType);
+  useEffect(() => {
+    saveEchoCheckEnabled(echoCheck);
+  }, [echoCheck]);
+
+  // Wrap whichever player is active so the sync engine can drive it
+  const getAdapter = useCallback((type: SyncState['sourceType']): PlayerAdapter | null => {
+    if (type === 'youtube') return ytControlsRef.current && createYouTubeAdapter(ytControlsRef.current);
+    if (type === 'vimeo') return vimeoControlsRef.current && createVimeoAdapter(vimeoControlsRef.current);
+    if (type === 'stream' || !videoRef.current) return null;
+    if (type === 'hls') return createHlsAdapter(videoRef.current);
+    if (type === 'dash') return createDashAdapter(videoRef.current);
+    return createMediaElementAdapter(videoRef.current);
+  }, []);
+
+  // Our volume times the ducking gain, on whichever player is active
+  const volumeStateRef = useRef({ volume, isMuted, type: currentMediaType });
+  volumeStateRef.current = { volume, isMuted, type: currentMediaType };
+  const applyVolume = useCallback(() => {
+    const { volume: level, isMuted: muted, type } = volumeStateRef.current;
+    getAdapter(type)?.setVolume?.(muted ? 0 : (level / 100) * duckGainRef.current);
+  }, [getAdapter]);
+
+  useEffect(() => {
+    applyVolume();
+  }, [volume, isMuted, currentMediaType, applyVolume]);
+
+  const localCallAudio = callAudio?.local ?? null;
+  const hasCallAudio = !!(localCallAudio || callAudio?.remote);
+
+  // The movie as our own player outputs it, to compare against the mic.
+  // YouTube and Vimeo play in cross-origin frames, so there's nothing to capture there.
+  const canCapturePlayback = currentMediaType !== 'youtube' && currentMediaType !== 'vimeo' && currentMediaType !== 'stream';
+  useEffect(() => {
+    const video = videoRef.current as CapturableVideo | null;
+    if (!echoCheck || !localCallAudio || !canCapturePlayback || !video?.captureStream) return;
+    let capture: MediaStream;
+    try {
+      capture = video.captureStream();
+    } catch (error) {
+      console.warn('[ProductionPlayer] Playback capture unavailable, echo check off:', error);
+      return;
     }
+    setPlaybackCapture(capture);
+    return () => {
+      capture.getTracks().forEach((track) => track.stop());
+      setPlaybackCapture(null);
+    };
+  }, [echoCheck, localCallAudio, canCapturePlayback]);
 
-    // Apply playback state based on player type
-    if (state.sourceType === 'youtube' && ytControlsRef.current) {
-      const cur = ytControlsRef.current.getCurrentTime?.() ?? 0;
-      if (Math.abs(cur - state.currentTime) > DRIFT_THRESHOLD) {
-        ytControlsRef.current.seekTo(state.currentTime);
-      }
-      if (state.status === 'play') ytControlsRef.current.play();
-      else ytControlsRef.current.pause();
-    } else if (state.sourceType === 'vimeo' && vimeoControlsRef.current) {
-      const cur = await vimeoControlsRef.current.getCurrentTime?.() ?? 0;
-      if (Math.abs(cur - state.currentTime) > DRIFT_THRESHOLD) {
-        vimeoControlsRef.current.seekTo(state.currentTime);
-      }
-      if (state.status === 'play') vimeoControlsRef.current.play();
-      else vimeoControlsRef.current.pause();
-    } else if (videoRef.current) {
-      if (Math.abs(videoRef.current.currentTime - state.currentTime) > DRIFT_THRESHOLD) {
-        videoRef.current.currentTime = state.currentTime;
-      }
-      if (state.status === 'play' && videoRef.current.paused) {
-        try { await videoRef.current.play(); } 
-        catch { setAutoplayBlocked(true); }
-      }
-      if (state.status === 'pause' && !videoRef.current.paused) {
-        videoRef.current.pause();
-      }
+  const echoDetected = useEchoDetection(playbackCapture, localCallAudio, echoCheck);
+  useEffect(() => {
+    if (!echoDetected) setEchoDismissed(false);
+  }, [echoDetected]);
+
+  // On speakers the film leaks into our mic and would read as us talking, ducking itself;
+  // only the partner's voice ducks it until the echo goes away
+  useAudioDucking([echoDetected ? null : localCallAudio, callAudio?.remote], ducking, (gain) => {
+    duckGainRef.current = gain;
+    applyVolume();
+  });
+
+  // Hold the stream to a rendition lock: the nearest level, and the locked audio language if offered
+  const applyRenditionLock = useCallback((stream: AdaptiveStream, lock: RenditionLock) => {
+    const level = findLockedLevel(stream.getLevels(), lock);
+    if (level && stream.getLevel() !== level.index) {
+      stream.setLevel(level.index);
+      setQualityLevel(level.index);
     }
+    const audio = lock.audioLang && stream.getAudioTracks().find((track) => track.lang === lock.audioLang);
+    if (audio && stream.getAudioTrack() !== audio.id) stream.setAudioTrack(audio.id);
+  }, []);
 
-    setIsPlaying(state.status === 'play');
-    setCurrentTime(state.currentTime);
-  }, [currentMediaType]);
+  // Each partner picks their own subtitles; timing follows the synced video
+  const subtitles = useSubtitleSync({ roomId, currentTime });
 
-  // Host sync hook
+  // Sync engine
   const { 
-    broadcastSync, 
-    startPeriodicSync, 
-    stopPeriodicSync,
+    broadcastState, 
+    startHeartbeat, 
+    stopHeartbeat,
+    reportDrift,
     fetchInitialState,
-    shouldSeek 
-  } = useHostSync({
-    roomId,
-    roomCode,
+    currentHostId,
+    syncStatus,
+    lastDrift,
+    connectionStatus,
+    clockEstimates,
+    barrier,
+    reportBuffering,
+    skipBuffering,
+    shareRenditionLock,
     isHost,
-    onSyncReceived: (state) => {
+    controlMode,
+    incomingControlRequest,
+    controlRequestStatus,
+    setControlMode,
+    takeControl,
+    requestControl,
+    respondToControlRequest,
+    handlePeerLeft,
+    lastSync
+  } = useSyncEngine({
+    roomId,
+    isRoomCreator,
+    waitForEveryone,
+    maxBufferWaitMs,
+    onSyncReceived: async (state) => {
+      // Switch source right away; playback state waits for the new player to be ready.
+      // Local files and live streams can't be loaded from the host's URL, so only their type is followed.
+      const urlChanged = state.sourceType !== 'local' && state.sourceType !== 'stream' && state.sourceUrl !== currentSourceUrl;
+      if (state.sourceUrl && (state.sourceType !== currentMediaType || urlChanged)) {
+        await handleMediaSourceChange(state.sourceUrl, state.sourceType);
+      }
       if (playerReadyRef.current) {
-        applySyncState(state);
+        applyRemoteState(state);
       } else {
         pendingSyncRef.current = state;
       }
+    },
+    onRenditionLock: (lock) => {
+      setRenditionLock(lock);
+      const stream = adaptiveStreamRef.current;
+      if (lock) {
+        if (stream) applyRenditionLock(stream, lock);
+        toast({ title: `${partnerName} set the stream to ${qualityLabel(lock)} for both of you` });
+      } else {
+        stream?.setLevel(AUTO_LEVEL);
+        setQualityLevel(AUTO_LEVEL);
+        toast({ title: `${partnerName} turned off same quality`, description: 'Your stream picks its own quality again' });
+      }
     }
   });
 
-  // P2P Live Streaming - using enhanced version with proper toggle
+  // If the host leaves, whoever is still here takes over
+  useEffect(() => {
+    if (!peerLeft || peerLeft.key === handledPeerLeftKeyRef.current) return;
+    handledPeerLeftKeyRef.current = peerLeft.key;
+    handlePeerLeft(peerLeft.userId);
+  }, [peerLeft, handlePeerLeft]);
+
+  useEffect(() => {
+    if (controlRequestStatus === 'declined') {
+      toast({ title: `${partnerName} is keeping control`, description: 'You can ask again any time' });
+    }
+  }, [controlRequestStatus, partnerName]);
+
+  // Apply sync from host
+  const applyRemoteState = useCallback(async (state: SyncState) => {
+    console.log('[ProductionPlayer] Applying sync:', {
+      time: state.currentTime.toFixed(1),
+      status: state.status,
+      sourceType: state.sourceType
+    });
+
+    const adapter = getAdapter(state.sourceType);
+    if (!adapter) return;
+
+    try {
+      reportDrift(await applySyncState(adapter, state));
+    } catch {
+      setAutoplayBlocked(true);
+    }
+
+    setIsPlaying(state.status === 'play');
+    setCurrentTime(state.currentTime);
+  }, [getAdapter, reportDrift]);
+
+  // The new player can take commands: start a requested source, or catch up with the host
+  const handlePlayerReady = useCallback((type: SyncState['sourceType']) => {
+    playerReadyRef.current = true;
+    setIsLoading(false);
+
+    if (playOnReadyRef.current) {
+      playOnReadyRef.current = false;
+      getAdapter(type)?.play().catch(() => setAutoplayBlocked(true));
+    } else if (pendingSyncRef.current) {
+      applyRemoteState(pendingSyncRef.current);
+      pendingSyncRef.current = null;
+    }
+  }, [getAdapter, applyRemoteState]);
+
+  // P2P Live Streaming - the partner watches our captured player and drives it remotely
   const {
     isStreaming,
     isReceiving,
     remoteStream,
+    remotePlayback,
+    captureFailure,
     toggleStreaming,
+    sendControl,
     stopStreaming
-  } = useEnhancedStreaming({ roomId, roomCode, enabled: true });
+  } = useMediaStreaming({ roomId, roomCode, enabled: true });
+  const watchingStream = isReceiving && !!remoteStream;
+
+  // The live stream has no timeline of its own, so show the host's
+  useEffect(() => {
+    if (!watchingStream || !remotePlayback) return;
+    setCurrentTime(remotePlayback.currentTime);
+    setDuration(remotePlayback.duration);
+    setIsPlaying(!remotePlayback.paused);
+  }, [watchingStream, remotePlayback]);
+
+  // P2P file sharing - the partner downloads the file itself, so quality doesn't depend on our upload encoding
+  const torrent = useWebTorrent(roomId, roomCode);
+  const { streamTo: streamTorrent, stop: stopTorrent } = torrent;
 
   // Get current state for sync
-  const getCurrentState = useCallback((): Omit<SyncState, 'hostId' | 'updatedAt'> => {
+  // While the buffering barrier holds the room, the host reports 'buffering' rather than a user pause
+  const playbackStatus = (playing: boolean): SyncStatus =>
+    heldByBarrierRef.current ? 'buffering' : playing ? 'play' : 'pause';
+
+  const getCurrentState = useCallback((): LocalSyncState => {
     let time = currentTime;
+    let playbackRate = 1;
+    let playing = isPlayingRef.current;
     
     if (currentMediaType === 'youtube' && ytControlsRef.current) {
       time = ytControlsRef.current.getCurrentTime?.() ?? currentTime;
-    } else if (videoRef.current) {
+      playbackRate = ytControlsRef.current.getPlaybackRate?.() ?? 1;
+    } else if (currentMediaType !== 'vimeo' && videoRef.current) {
       time = videoRef.current.currentTime;
+      playbackRate = videoRef.current.playbackRate;
+      playing = !videoRef.current.paused;
     }
 
     return {
-      status: isPlaying ? 'play' : 'pause',
+      status: playbackStatus(playing),
       currentTime: time,
-      playbackRate: 1,
+      playbackRate,
       sourceType: currentMediaType,
-      sourceUrl: currentMediaType === 'youtube' ? (youtubeVideoId || '') : videoSrc
+      sourceUrl: currentSourceUrl || ''
     };
-  }, [currentTime, isPlaying, currentMediaType, youtubeVideoId, videoSrc]);
+  }, [currentTime, currentMediaType, currentSourceUrl]);
 
   // Handle media source change
   const handleMediaSourceChange = useCallback(async (url: string, type: SyncState['sourceType']) => {
@@ -176,20 +458,21 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
       setVideoSrc(url);
       setCurrentMediaType('vimeo');
       setYoutubeVideoId(null);
-    } else if (type === 'hls') {
-      if (Hls.isSupported() && videoRef.current) {
-        if (hlsRef.current) hlsRef.current.destroy();
-        hlsRef.current = new Hls();
-        hlsRef.current.loadSource(url);
-        hlsRef.current.attachMedia(videoRef.current);
-      }
-      setCurrentMediaType('hls');
+    } else if (type === 'hls' || type === 'dash') {
+      setAdaptiveSource({ url, type });
+      setCurrentMediaType(type);
       setVideoSrc('');
       setYoutubeVideoId(null);
     } else if (type === 'stream') {
       setCurrentMediaType('stream');
       setVideoSrc('');
       setYoutubeVideoId(null);
+    } else if (type === 'torrent') {
+      // Streaming starts in the effect below, once the video element is there
+      setTorrentMagnet(url);
+      setCurrentMediaType('torrent');
+      if (url !== seededMagnetRef.current) setVideoSrc('');
+      setYoutubeVideoId(null);
     } else {
       setVideoSrc(url);
       setCurrentMediaType(type);
@@ -199,9 +482,9 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
     setIsLoading(false);
   }, []);
 
-  // Sync media source to room (host only)
+  // Sync media source to room (whoever drives)
   const syncMediaSource = useCallback(async (url: string, type: string) => {
-    if (!isHost) return;
+    if (!takeControl()) return;
     
     try {
       await supabase
@@ -211,7 +494,7 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
     } catch (error) {
       console.error('[ProductionPlayer] Failed to sync media:', error);
     }
-  }, [roomId, isHost]);
+  }, [roomId, takeControl]);
 
   // Format time display
   const formatTime = (seconds: number) => {
@@ -256,16 +539,11 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
         return;
       }
 
-      if (urlInput.includes('.m3u8')) {
-        if (Hls.isSupported() && videoRef.current) {
-          if (hlsRef.current) hlsRef.current.destroy();
-          hlsRef.current = new Hls();
-          hlsRef.current.loadSource(urlInput);
-          hlsRef.current.attachMedia(videoRef.current);
-        }
-        setCurrentMediaType('hls');
-        await syncMediaSource(urlInput, 'hls');
-        toast({ title: 'HLS Stream Loaded! 📺' });
+      const adaptiveType = isDashManifest(urlInput) ? 'dash' : isHlsPlaylist(urlInput) ? 'hls' : null;
+      if (adaptiveType) {
+        await handleMediaSourceChange(urlInput, adaptiveType);
+        await syncMediaSource(urlInput, adaptiveType);
+        toast({ title: `${adaptiveType === 'dash' ? 'DASH' : 'HLS'} Stream Loaded! 📺` });
         setUrlInput('');
         return;
       }
@@ -315,18 +593,53 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
       return;
     }
     
+    const wasStreaming = isStreaming;
     const nowStreaming = await toggleStreaming(videoRef.current);
     if (nowStreaming) {
       setCurrentMediaType('stream');
       await syncMediaSource('stream', 'stream');
       toast({ title: "Streaming Started! 📡", description: "Your partner can now see your video" });
-    } else {
+    } else if (wasStreaming) {
       toast({ title: "Streaming Stopped", description: "No longer sharing video" });
     }
   };
 
+  // Seed the local file and point the room at its magnet; we keep playing from the file
+  const handleShareTorrent = async () => {
+    if (!currentFile) {
+      toast({ title: "No video loaded", description: "Load a local video first", variant: "destructive" });
+      return;
+    }
+
+    const magnet = await torrent.seedFile(currentFile);
+    if (!magnet) return;
+    seededMagnetRef.current = magnet;
+    setTorrentMagnet(magnet);
+    setCurrentMediaType('torrent');
+    await syncMediaSource(magnet, 'torrent');
+    toast({ title: "Sharing via P2P! 🔗", description: "Your partner's player streams the file from you" });
+  };
+
+  // Shared mode hands control to whoever acts; otherwise the follower's controls only explain why they don't
+  const claimControl = useCallback(() => {
+    if (takeControl()) return true;
+    toast({ title: 'The host is driving', description: 'Ask for control to play, pause or skip' });
+    return false;
+  }, [takeControl]);
+
   // Playback controls - HOST broadcasts, LISTENER applies locally
   const togglePlayPause = useCallback(() => {
+    // Pressing play while held means "don't wait any longer"
+    if (barrier.held && !isPlaying) {
+      skipBuffering();
+      return;
+    }
+    // Watching the partner's stream, our controls drive their player
+    if (watchingStream) {
+      sendControl({ type: 'control', action: remotePlayback?.paused === false ? 'pause' : 'play' });
+      return;
+    }
+    if (!claimControl()) return;
     if (currentMediaType === 'youtube' && ytControlsRef.current) {
       if (isPlaying) ytControlsRef.current.pause();
       else ytControlsRef.current.play();
@@ -340,10 +653,15 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
     if (!videoRef.current) return;
     if (isPlaying) videoRef.current.pause();
     else void videoRef.current.play().catch(() => setAutoplayBlocked(true));
-  }, [currentMediaType, isPlaying]);
+  }, [currentMediaType, isPlaying, barrier.held, skipBuffering, claimControl, watchingStream, remotePlayback, sendControl]);
 
-  const handleSeek = useCallback((value: number[]) => {
-    const time = (value[0] / 100) * (duration || 0);
+  const seekTo = useCallback((time: number) => {
+    if (watchingStream) {
+      sendControl({ type: 'control', action: 'seek', time });
+      setCurrentTime(time);
+      return;
+    }
+    if (!claimControl()) return;
     
     if (currentMediaType === 'youtube' && ytControlsRef.current) {
       ytControlsRef.current.seekTo(time);
@@ -356,28 +674,48 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
     setCurrentTime(time);
     
     // Host broadcasts seek
-    if (isHost) {
-      broadcastSync({
-        ...getCurrentState(),
-        currentTime: time
-      });
+    broadcastState({
+      ...getCurrentState(),
+      currentTime: time
+    });
+  }, [currentMediaType, claimControl, broadcastState, getCurrentState, watchingStream, sendControl]);
+
+  const handleSeek = useCallback((value: number[]) => {
+    seekTo((value[0] / 100) * (duration || 0));
+  }, [duration, seekTo]);
+
+  // Note clicks: jump both partners, which needs control
+  useEffect(() => {
+    if (!seekRequest || seekRequest.key === handledSeekKeyRef.current) return;
+    handledSeekKeyRef.current = seekRequest.key;
+    if (!takeControl()) {
+      toast({ title: 'The host is driving', description: 'Ask for control to jump there together' });
+      return;
     }
-  }, [duration, currentMediaType, isHost, broadcastSync, getCurrentState]);
+    seekTo(seekRequest.time);
+  }, [seekRequest, takeControl, seekTo]);
+
+  // Pop up notes as playback runs past them
+  useEffect(() => {
+    const passed = isPlaying ? markersPassed(markers, lastMarkerCheckRef.current, currentTime) : [];
+    lastMarkerCheckRef.current = currentTime;
+    if (passed.length > 0) setPoppedMarker(passed[passed.length - 1]);
+  }, [currentTime, isPlaying, markers]);
+
+  useEffect(() => {
+    if (!poppedMarker) return;
+    const timer = window.setTimeout(() => setPoppedMarker(null), NOTE_POPUP_MS);
+    return () => clearTimeout(timer);
+  }, [poppedMarker]);
 
   const handleVolumeChange = (value: number[]) => {
     const newVolume = value[0];
     setVolume(newVolume);
-    if (videoRef.current) {
-      videoRef.current.volume = newVolume / 100;
-      setIsMuted(newVolume === 0);
-    }
+    setIsMuted(newVolume === 0);
   };
 
   const toggleMute = () => {
-    if (videoRef.current) {
-      videoRef.current.volume = isMuted ? volume / 100 : 0;
-      setIsMuted(!isMuted);
-    }
+    setIsMuted(!isMuted);
   };
 
   const toggleFullscreen = async () => {
@@ -394,6 +732,11 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
 
   const skipTime = (seconds: number) => {
     const newTime = Math.max(0, Math.min(duration, currentTime + seconds));
+    if (watchingStream) {
+      seekTo(newTime);
+      return;
+    }
+    if (!claimControl()) return;
     
     if (currentMediaType === 'youtube' && ytControlsRef.current) {
       ytControlsRef.current.seekTo(newTime);
@@ -403,35 +746,94 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
     
     setCurrentTime(newTime);
     
-    if (isHost) {
-      broadcastSync({
-        ...getCurrentState(),
-        currentTime: newTime
-      });
-    }
+    broadcastState({
+      ...getCurrentState(),
+      currentTime: newTime
+    });
   };
 
   // Video event handlers
+  // The engine ignores broadcasts from followers, and sees a fresh takeControl() before we re-render
   const handlePlay = useCallback(() => {
+    isPlayingRef.current = true;
     setIsPlaying(true);
     setAutoplayBlocked(false);
-    
-    if (isHost) {
-      startPeriodicSync(getCurrentState);
-    }
-  }, [isHost, startPeriodicSync, getCurrentState]);
+    startHeartbeat(getCurrentState);
+  }, [startHeartbeat, getCurrentState]);
 
   const handlePause = useCallback(() => {
     setIsPlaying(false);
-    
-    if (isHost) {
-      stopPeriodicSync();
-      broadcastSync({
-        ...getCurrentState(),
-        status: 'pause'
-      });
+    stopHeartbeat();
+    broadcastState({
+      ...getCurrentState(),
+      status: playbackStatus(false)
+    });
+  }, [stopHeartbeat, broadcastState, getCurrentState]);
+
+  // Only the driving side advances the queue, so the room moves on once
+  const handleEnded = useCallback(() => {
+    if (isHost) onEnded?.();
+  }, [isHost, onEnded]);
+
+  useEffect(() => {
+    onControlChange?.(isHost);
+  }, [isHost, onControlChange]);
+
+  // Queue playback: load the source here, and the partner follows it over the sync channel
+  useEffect(() => {
+    if (!sourceRequest || sourceRequest.key === handledRequestKeyRef.current) return;
+    handledRequestKeyRef.current = sourceRequest.key;
+    if (!takeControl()) {
+      onSourceRequestHandled?.(sourceRequest, false);
+      return;
+    }
+
+    const { url, type } = sourceRequest;
+    // The same source again (repeat one, a one-item playlist, re-queued) doesn't reload, so no ready event would start it
+    const sameSource = url === currentSourceUrl && type === currentMediaType && playerReadyRef.current;
+    const adapter = sameSource ? getAdapter(type) : null;
+    if (adapter) {
+      adapter.seekTo(0);
+      adapter.play().catch(() => setAutoplayBlocked(true));
+    } else {
+      playOnReadyRef.current = true;
+      handleMediaSourceChange(url, type);
+      syncMediaSource(url, type);
+    }
+    broadcastState({ status: 'pause', currentTime: 0, playbackRate: 1, sourceType: type, sourceUrl: url });
+    onSourceRequestHandled?.(sourceRequest, true);
+  }, [sourceRequest, currentSourceUrl, currentMediaType, takeControl, getAdapter, handleMediaSourceChange, syncMediaSource, broadcastState, onSourceRequestHandled]);
+
+  // Host enforces the buffering barrier: hold while anyone stalls, resume once everyone can play through
+  useEffect(() => {
+    if (!isHost) return;
+    const adapter = getAdapter(currentMediaType);
+    if (!adapter) return;
+
+    if (barrier.held && isPlaying && !heldByBarrierRef.current) {
+      console.log('[ProductionPlayer] Holding for buffering:', barrier.waitingOn);
+      heldByBarrierRef.current = true;
+      adapter.pause();
+    } else if (!barrier.held && heldByBarrierRef.current) {
+      heldByBarrierRef.current = false;
+      adapter.play().catch(() => setAutoplayBlocked(true));
+    }
+  }, [isHost, barrier, isPlaying, currentMediaType, getAdapter]);
+
+  // Taking over as host: drop any drift nudge and carry on from where we are
+  const wasHostRef = useRef(isHost);
+  useEffect(() => {
+    if (isHost === wasHostRef.current) return;
+    wasHostRef.current = isHost;
+    if (!isHost) {
+      heldByBarrierRef.current = false;
+      return;
     }
-  }, [isHost, stopPeriodicSync, broadcastSync, getCurrentState]);
+
+    getAdapter(currentMediaType)?.setPlaybackRate?.(lastSync?.playbackRate || 1);
+    if (isPlaying) startHeartbeat(getCurrentState);
+    else broadcastState(getCurrentState());
+  }, [isHost, isPlaying, currentMediaType, lastSync, getAdapter, startHeartbeat, broadcastState, getCurrentState]);
 
   // Video element setup
   useEffect(() => {
@@ -441,27 +843,32 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
     const onTimeUpdate = () => setCurrentTime(video.currentTime);
     const onLoadedMetadata = () => {
       setDuration(video.duration);
-      playerReadyRef.current = true;
-      setIsLoading(false);
-      
-      if (pendingSyncRef.current) {
-        applySyncState(pendingSyncRef.current);
-        pendingSyncRef.current = null;
-      }
+      handlePlayerReady(currentMediaType);
     };
 
+    const onStall = () => reportBuffering(true);
+    const onCanPlayThrough = () => reportBuffering(false);
+
     video.addEventListener('timeupdate', onTimeUpdate);
     video.addEventListener('loadedmetadata', onLoadedMetadata);
     video.addEventListener('play', handlePlay);
     video.addEventListener('pause', handlePause);
+    video.addEventListener('waiting', onStall);
+    video.addEventListener('stalled', onStall);
+    video.addEventListener('canplaythrough', onCanPlayThrough);
+    video.addEventListener('ended', handleEnded);
 
     return () => {
       video.removeEventListener('timeupdate', onTimeUpdate);
       video.removeEventListener('loadedmetadata', onLoadedMetadata);
       video.removeEventListener('play', handlePlay);
       video.removeEventListener('pause', handlePause);
+      video.removeEventListener('waiting', onStall);
+      video.removeEventListener('stalled', onStall);
+      video.removeEventListener('canplaythrough', onCanPlayThrough);
+      video.removeEventListener('ended', handleEnded);
     };
-  }, [applySyncState, handlePlay, handlePause]);
+  }, [currentMediaType, handlePlayerReady, handlePlay, handlePause, handleEnded, reportBuffering]);
 
   // Initial state fetch
   useEffect(() => {
@@ -486,25 +893,169 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
     }
   }, [videoSrc, currentMediaType]);
 
+  // Stream the room's torrent unless we're the one seeding it; any other source ends the torrent
+  useEffect(() => {
+    if (currentMediaType !== 'torrent' || !torrentMagnet) {
+      seededMagnetRef.current = null;
+      stopTorrent();
+      return;
+    }
+    if (torrentMagnet === seededMagnetRef.current || !videoRef.current) return;
+
+    setIsLoading(true);
+    streamTorrent(torrentMagnet, videoRef.current).finally(() => setIsLoading(false));
+  }, [currentMediaType, torrentMagnet, streamTorrent, stopTorrent]);
+
+  // Load the HLS/DASH manifest into the video element; switching away tears the player down
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!adaptiveSource || adaptiveSource.type !== currentMediaType || !video) return;
+
+    let cancelled = false;
+    setQualityLevels([]);
+    setQualityLevel(AUTO_LEVEL);
+    setAudioTracks([]);
+    setSubtitleTracks([]);
+    setSubtitleTrack(SUBTITLES_OFF);
+    const opening = openAdaptiveStream(adaptiveSource.type, video, adaptiveSource.url, {
+      onLevels: (levels) => {
+        if (cancelled) return;
+        setQualityLevels(levels);
+        const lock = renditionLockRef.current;
+        if (lock && adaptiveStreamRef.current) applyRenditionLock(adaptiveStreamRef.current, lock);
+      },
+      onTracks: (stream) => {
+        if (cancelled) return;
+        const lock = renditionLockRef.current;
+        if (lock) applyRenditionLock(stream, lock);
+        setAudioTracks(stream.getAudioTracks());
+        setAudioTrack(stream.getAudioTrack());
+        setSubtitleTracks(stream.getSubtitleTracks());
+        setSubtitleTrack(stream.getSubtitleTrack());
+      },
+      onError: (message) => {
+        if (!cancelled) toast({ title: 'Stream playback failed', description: message, variant: 'destructive' });
+      }
+    });
+    opening.then((stream) => {
+      if (cancelled) {
+        stream?.destroy();
+        return;
+      }
+      adaptiveStreamRef.current = stream;
+      // The levels may have arrived before the player was handed back
+      const lock = renditionLockRef.current;
+      if (stream && lock) applyRenditionLock(stream, lock);
+    });
+
+    return () => {
+      cancelled = true;
+      adaptiveStreamRef.current?.destroy();
+      adaptiveStreamRef.current = null;
+    };
+  }, [adaptiveSource, currentMediaType, applyRenditionLock]);
+
+  const isAdaptiveStream = !!adaptiveSource && adaptiveSource.type === currentMediaType;
+
+  useEffect(() => {
+    if (!showStreamStats || !isAdaptiveStream) {
+      setStreamStats(null);
+      return;
+    }
+    const interval = window.setInterval(() => {
+      setStreamStats(adaptiveStreamRef.current?.getStats() ?? null);
+    }, STREAM_STATS_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [showStreamStats, isAdaptiveStream]);
+
+  // The lock for what we play now: the chosen level, or under Auto whatever is streaming
+  const currentRenditionLock = (audioLang: string | null): RenditionLock | null => {
+    const playing = qualityLevels.find((level) => level.index === qualityLevel) ?? adaptiveStreamRef.current?.getStats();
+    if (!playing?.bitrate) return null;
+    return { height: playing.height, bitrate: playing.bitrate, audioLang };
+  };
+
+  const currentAudioLang = () => audioTracks.find((track) => track.id === audioTrack)?.lang ?? null;
+
+  const handleQualityChange = (value: string) => {
+    const level = Number(value);
+    adaptiveStreamRef.current?.setLevel(level);
+    setQualityLevel(level);
+    if (!renditionLock) return;
+
+    // Auto can't be shared as a rendition, so it releases both players
+    if (level === AUTO_LEVEL) {
+      setRenditionLock(null);
+      shareRenditionLock(null);
+      return;
+    }
+    const chosen = qualityLevels.find((candidate) => candidate.index === level);
+    if (!chosen) return;
+    const lock = { height: chosen.height, bitrate: chosen.bitrate, audioLang: renditionLock.audioLang };
+    setRenditionLock(lock);
+    shareRenditionLock(lock);
+  };
+
+  const handleAudioTrackChange = (value: string) => {
+    const id = Number(value);
+    adaptiveStreamRef.current?.setAudioTrack(id);
+    setAudioTrack(id);
+    if (!renditionLock) return;
+
+    const lock = { ...renditionLock, audioLang: audioTracks.find((track) => track.id === id)?.lang ?? null };
+    setRenditionLock(lock);
+    shareRenditionLock(lock);
+  };
+
+  const handleSubtitleTrackChange = (value: string) => {
+    const id = Number(value);
+    adaptiveStreamRef.current?.setSubtitleTrack(id);
+    setSubtitleTrack(id);
+  };
+
+  const handleRenditionLockToggle = (locked: boolean) => {
+    if (!locked) {
+      setRenditionLock(null);
+      shareRenditionLock(null);
+      return;
+    }
+    const lock = currentRenditionLock(currentAudioLang());
+    if (!lock) {
+      toast({ title: 'The stream is still starting', description: 'Try again once it plays' });
+      return;
+    }
+    const stream = adaptiveStreamRef.current;
+    if (stream) applyRenditionLock(stream, lock);
+    setRenditionLock(lock);
+    shareRenditionLock(lock);
+  };
+
   // Cleanup
   useEffect(() => {
     return () => {
-      if (hlsRef.current) hlsRef.current.destroy();
-      stopPeriodicSync();
+      stopHeartbeat();
     };
-  }, [stopPeriodicSync]);
+  }, [stopHeartbeat]);
+
+  const mediaId = getMediaId(currentMediaType, currentSourceUrl, currentFile?.name);
 
   // Report playback state
   useEffect(() => {
     onPlaybackStateChange?.({
       is_playing: isPlaying,
       current_time_seconds: currentTime,
-      duration_seconds: duration
+      duration_seconds: duration,
+      media_id: mediaId
     });
-  }, [isPlaying, currentTime, duration, onPlaybackStateChange]);
+  }, [isPlaying, currentTime, duration, mediaId, onPlaybackStateChange]);
 
   const progressPercent = duration ? (currentTime / duration) * 100 : 0;
 
+  // Followers measure against the host; the host shows whichever partner answered
+  const bufferingNames = barrier.waitingOn.map((id) => (id === user?.id ? 'You' : partnerName));
+
+  const partnerClock = (!isHost && currentHostId && clockEstimates[currentHostId]) || Object.values(clockEstimates)[0] || null;
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -517,6 +1068,56 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
           {isHost ? <Crown className="w-3.5 h-3.5" /> : <Users className="w-3.5 h-3.5" />}
           {isHost ? 'Host' : 'Synced'}
         </Badge>
+        {isHost ? (
+          <Select value={controlMode} onValueChange={(mode) => setControlMode(mode as ControlMode)}>
+            <SelectTrigger className="h-7 w-auto gap-1.5 text-xs" title="Who can control playback">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CONTROL_MODES.map((mode) => (
+                <SelectItem key={mode} value={mode} className="text-xs">{CONTROL_MODE_LABELS[mode]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Badge variant="outline" className="py-1 px-2.5 text-xs">{CONTROL_MODE_LABELS[controlMode]}</Badge>
+        )}
+        {!isHost && controlMode === 'handoff' && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={requestControl}
+            disabled={controlRequestStatus === 'pending'}
+            className="h-7 gap-1.5 text-xs"
+          >
+            <Hand className="w-3.5 h-3.5" />
+            {controlRequestStatus === 'pending' ? 'Asked for control…' : 'Ask for control'}
+          </Button>
+        )}
+        {isHost && incomingControlRequest && (
+          <div className="flex items-center gap-1.5 rounded-full bg-primary/10 pl-3 pr-1 py-0.5 text-xs">
+            <Hand className="w-3.5 h-3.5" />
+            {partnerName} wants control
+            <Button size="sm" className="h-6 px-2 text-xs" onClick={() => respondToControlRequest(true)}>
+              Hand over
+            </Button>
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => respondToControlRequest(false)}>
+              Keep
+            </Button>
+          </div>
+        )}
+        {echoDetected && !echoDismissed && (
+          <div className="flex items-center gap-1.5 rounded-full bg-yellow-500/15 pl-3 pr-1 py-0.5 text-xs">
+            <Headphones className="w-3.5 h-3.5" />
+            Your mic hears the movie, so {partnerName} gets it twice
+            <Button size="sm" className="h-6 px-2 text-xs" onClick={() => setVolume((v) => Math.round(v / 2))}>
+              Turn down
+            </Button>
+            <Button size="sm" variant="ghost" className="h-6 px-2 text-xs" onClick={() => setEchoDismissed(true)}>
+              Dismiss
+            </Button>
+          </div>
+        )}
         {isStreaming && (
           <Badge className="bg-destructive animate-pulse gap-1 py-1 px-2.5">
             <Radio className="w-3 h-3" /> LIVE
@@ -527,8 +1128,182 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
             <Wifi className="w-3 h-3" /> Receiving
           </Badge>
         )}
+        {torrent.stats && (
+          <Badge variant="secondary" className="gap-1 py-1 px-2.5" title="Peer-to-peer transfer">
+            <Share2 className="w-3 h-3" />
+            {torrent.isStreaming && `${Math.round(torrent.stats.progress * 100)}% · `}
+            {torrent.stats.peers} {torrent.stats.peers === 1 ? 'peer' : 'peers'}
+            {` · ↓ ${formatBytes(torrent.stats.downloadSpeed)}/s ↑ ${formatBytes(torrent.stats.uploadSpeed)}/s`}
+          </Badge>
+        )}
+        {isAdaptiveStream && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant={renditionLock ? "secondary" : "ghost"} size="sm" className="h-7 gap-1.5 text-xs"
+                title="Quality, audio and subtitles">
+                <Settings2 className="w-3.5 h-3.5" />
+                {renditionLock ? `${qualityLabel(renditionLock)} for both`
+                  : qualityLevel === AUTO_LEVEL ? 'Auto quality'
+                  : qualityLabel(qualityLevels.find((level) => level.index === qualityLevel) ?? { height: 0, bitrate: 0 })}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 space-y-4">
+              {qualityLevels.length > 1 && (
+                <div className="space-y-2">
+                  <span className="text-xs text-muted-foreground">Quality</span>
+                  <Select value={String(qualityLevel)} onValueChange={handleQualityChange}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={String(AUTO_LEVEL)} className="text-xs">Auto</SelectItem>
+                      {qualityLevels.map((level) => (
+                        <SelectItem key={level.index} value={String(level.index)} className="text-xs">
+                          {qualityLabel(level)} · {formatBitrate(level.bitrate)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {audioTracks.length > 1 && (
+                <div className="space-y-2">
+                  <span className="text-xs text-muted-foreground">Audio</span>
+                  <Select value={String(audioTrack)} onValueChange={handleAudioTrackChange}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {audioTracks.map((track) => (
+                        <SelectItem key={track.id} value={String(track.id)} className="text-xs">{track.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              {subtitleTracks.length > 0 && (
+                <div className="space-y-2">
+                  <span className="text-xs text-muted-foreground">Subtitles, just for you</span>
+                  <Select value={String(subtitleTrack)} onValueChange={handleSubtitleTrackChange}>
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={String(SUBTITLES_OFF)} className="text-xs">Off</SelectItem>
+                      {subtitleTracks.map((track) => (
+                        <SelectItem key={track.id} value={String(track.id)} className="text-xs">{track.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+              <div className="flex items-center justify-between border-t pt-3">
+                <div>
+                  <span className="text-sm font-medium">Same quality for both</span>
+                  <p className="text-xs text-muted-foreground">Hold {partnerName} to this quality and audio too</p>
+                </div>
+                <Switch checked={!!renditionLock} onCheckedChange={handleRenditionLockToggle} />
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Stats overlay</span>
+                <Switch checked={showStreamStats} onCheckedChange={setShowStreamStats} />
+              </div>
+            </PopoverContent>
+          </Popover>
+        )}
+        {isHost && (
+          <Button
+            variant={waitForEveryone ? "secondary" : "ghost"}
+            size="sm"
+            onClick={() => setWaitForEveryone(!waitForEveryone)}
+            className="h-7 gap-1.5 text-xs"
+            title="Pause for everyone when someone's video is buffering"
+          >
+            <Hourglass className="w-3.5 h-3.5" />
+            Wait for everyone: {waitForEveryone ? 'On' : 'Off'}
+          </Button>
+        )}
+        <Popover>
+          <PopoverTrigger asChild>
+            <Button variant={subtitles.hasSubtitles ? "secondary" : "ghost"} size="sm" className="h-7 gap-1.5 text-xs"
+              title="Your subtitles, separate from your partner's">
+              <Captions className="w-3.5 h-3.5" />
+              Subtitles{subtitles.hasSubtitles ? ': On' : ''}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent className="w-72">
+            <SubtitleSettings
+              tracks={subtitles.tracks}
+              selectedTrackId={subtitles.selectedTrackId}
+              onSelectTrack={subtitles.selectTrack}
+              delay={subtitles.delay}
+              onDelayChange={subtitles.setDelay}
+              display={subtitles.display}
+              onDisplayChange={subtitles.setDisplay}
+              uploading={subtitles.uploading}
+              onShareFile={subtitles.shareFile}
+              onOpenLocalFile={subtitles.openLocalFile}
+              partnerName={partnerName}
+            />
+          </PopoverContent>
+        </Popover>
+        {hasCallAudio && (
+          <Popover>
+            <PopoverTrigger asChild>
+              <Button variant={ducking.enabled ? "secondary" : "ghost"} size="sm" className="h-7 gap-1.5 text-xs"
+                title="Lower the movie while either of you talks">
+                <AudioLines className="w-3.5 h-3.5" />
+                Duck for voices: {ducking.enabled ? 'On' : 'Off'}
+              </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-64 space-y-4">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium">Duck for voices</span>
+                <Switch checked={ducking.enabled}
+                  onCheckedChange={(enabled) => setDucking((prev) => ({ ...prev, enabled }))} />
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Depth</span>
+                  <span>{Math.round(ducking.depth * 100)}% quieter</span>
+                </div>
+                <Slider value={[ducking.depth * 100]} disabled={!ducking.enabled}
+                  min={DUCKING_DEPTH_RANGE.min * 100} max={DUCKING_DEPTH_RANGE.max * 100} step={5}
+                  onValueChange={([depth]) => setDucking((prev) => ({ ...prev, depth: depth / 100 }))} />
+              </div>
+              <div className="space-y-2">
+                <div className="flex justify-between text-xs text-muted-foreground">
+                  <span>Release</span>
+                  <span>{(ducking.releaseMs / 1000).toFixed(1)}s</span>
+                </div>
+                <Slider value={[ducking.releaseMs]} disabled={!ducking.enabled}
+                  min={DUCKING_RELEASE_RANGE_MS.min} max={DUCKING_RELEASE_RANGE_MS.max} step={100}
+                  onValueChange={([releaseMs]) => setDucking((prev) => ({ ...prev, releaseMs }))} />
+              </div>
+              <div className="flex items-center justify-between border-t pt-3">
+                <div>
+                  <span className="text-sm font-medium">Echo warning</span>
+                  <p className="text-xs text-muted-foreground">Tell me when my mic picks up the movie</p>
+                </div>
+                <Switch checked={echoCheck} onCheckedChange={setEchoCheck} />
+              </div>
+            </PopoverContent>
+          </Popover>
+        )}
       </div>
 
+      <SyncStatusIndicator
+        connectionStatus={connectionStatus}
+        syncStatus={syncStatus === 'out_of_sync' ? 'drift' : syncStatus}
+        metrics={{
+          latency: partnerClock?.rttMs ?? 0,
+          jitter: partnerClock?.jitterMs ?? 0,
+          bufferingEvents: 0,
+          syncDrift: Math.abs(lastDrift)
+        }}
+        clock={partnerClock}
+      />
+
       {/* Source Selection - Both users can load media */}
       <Card className="p-3">
         <Tabs defaultValue="url" className="w-full">
@@ -571,6 +1346,18 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
               className={cn("w-full h-9", !isStreaming && "bg-gradient-romantic")} size="sm">
               {isStreaming ? <><WifiOff className="w-4 h-4 mr-2" /> Stop</> : <><Radio className="w-4 h-4 mr-2" /> Stream to Partner</>}
             </Button>
+            {captureFailure && !isStreaming && (
+              <p className="text-xs text-destructive mt-2">{CAPTURE_FAILURE_MESSAGES[captureFailure]}</p>
+            )}
+            <Button onClick={handleShareTorrent}
+              disabled={!currentFile || !torrent.supported || torrent.isStarting || torrent.isSeeding}
+              variant="outline" className="w-full h-9 mt-2" size="sm"
+              title="Your partner downloads the file from you and plays it as it arrives">
+              {torrent.isStarting
+                ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                : <Share2 className="w-4 h-4 mr-2" />}
+              {torrent.isSeeding ? 'Sharing via P2P' : 'Share via P2P'}
+            </Button>
           </TabsContent>
         </Tabs>
       </Card>
@@ -627,26 +1414,20 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
               setCurrentTime(time);
               setIsPlaying(playing);
               
-              if (isHost) {
-                broadcastSync({
-                  status: playing ? 'play' : 'pause',
-                  currentTime: time,
-                  playbackRate: 1,
-                  sourceType: 'youtube',
-                  sourceUrl: youtubeVideoId
-                });
-              }
+              // The YT player keeps this callback for its lifetime; the engine drops it unless we host
+              broadcastState({
+                status: playbackStatus(playing),
+                currentTime: time,
+                playbackRate: ytControlsRef.current?.getPlaybackRate?.() ?? 1,
+                sourceType: 'youtube',
+                sourceUrl: youtubeVideoId
+              });
             }}
             onDurationChange={(d) => setDuration(d)}
-            onReady={() => {
-              playerReadyRef.current = true;
-              setIsLoading(false);
-              if (pendingSyncRef.current) {
-                applySyncState(pendingSyncRef.current);
-                pendingSyncRef.current = null;
-              }
-            }}
-            onReadyControls={(api) => { ytControlsRef.current = api; }}
+            onBufferingChange={reportBuffering}
+            onEnded={handleEnded}
+            onReady={() => handlePlayerReady('youtube')}
+            onReadyControls={(api) => { ytControlsRef.current = api; applyVolume(); }}
             onError={(err) => toast({ title: 'YouTube Error', description: err, variant: 'destructive' })}
           />
         )}
@@ -660,8 +1441,8 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
               setIsPlaying(playing);
               
               if (isHost) {
-                broadcastSync({
-                  status: playing ? 'play' : 'pause',
+                broadcastState({
+                  status: playbackStatus(playing),
                   currentTime: time,
                   playbackRate: 1,
                   sourceType: 'vimeo',
@@ -670,10 +1451,12 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
               }
             }}
             onDurationChange={(d) => setDuration(d)}
+            onBufferingChange={reportBuffering}
+            onEnded={handleEnded}
             onReadyControls={(api) => { 
               vimeoControlsRef.current = api;
-              playerReadyRef.current = true;
-              setIsLoading(false);
+              applyVolume();
+              handlePlayerReady('vimeo');
             }}
           />
         )}
@@ -694,6 +1477,15 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
               crossOrigin="anonymous"
               preload="metadata"
             />
+
+            {/* Stream stats */}
+            {streamStats && (
+              <div className="absolute top-4 left-4 z-10 rounded-lg bg-black/70 px-3 py-2 font-mono text-xs text-white space-y-0.5">
+                <div>{streamStats.bitrate ? `${qualityLabel(streamStats)} · ${formatBitrate(streamStats.bitrate)}` : 'Starting…'}</div>
+                <div>Buffer {streamStats.bufferSeconds.toFixed(1)} s</div>
+                {streamStats.bandwidthEstimate > 0 && <div>Bandwidth {formatBitrate(streamStats.bandwidthEstimate)}</div>}
+              </div>
+            )}
             
             {/* Autoplay blocked overlay */}
             {autoplayBlocked && (
@@ -712,7 +1504,7 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
         )}
 
         {/* Empty state when no media loaded and not receiving */}
-        {!videoSrc && !youtubeVideoId && !isReceiving && currentMediaType !== 'stream' && (
+        {!videoSrc && !youtubeVideoId && !isReceiving && currentMediaType !== 'stream' && currentMediaType !== 'torrent' && (
           <div className="w-full aspect-video flex items-center justify-center bg-black/90 rounded-xl">
             <div className="text-center text-muted-foreground space-y-2">
               <Play className="w-12 h-12 mx-auto opacity-30" />
@@ -721,6 +1513,44 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
           </div>
         )}
 
+        {subtitles.hasSubtitles && (
+          <SubtitleOverlay cues={subtitles.activeCues} display={subtitles.display} controlsVisible={showControls} />
+        )}
+
+        {/* Note popped up as playback passed it */}
+        <AnimatePresence>
+          {poppedMarker && (
+            <motion.div
+              key={poppedMarker.id}
+              initial={{ opacity: 0, x: 20 }}
+              animate={{ opacity: 1, x: 0 }}
+              exit={{ opacity: 0, x: 20 }}
+              className="absolute top-4 right-4 z-30 max-w-xs rounded-xl bg-black/80 px-4 py-3 text-sm text-white shadow-lg"
+            >
+              <div className="flex items-center gap-1.5 text-xs text-white/60">
+                <MessageSquare className="w-3.5 h-3.5" />
+                {poppedMarker.author || partnerName} · {formatTime(poppedMarker.time)}
+              </div>
+              <p className="mt-1">{poppedMarker.label}</p>
+            </motion.div>
+          )}
+        </AnimatePresence>
+
+        {/* Buffering barrier */}
+        {barrier.held && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 z-30 flex items-center gap-3 rounded-full bg-black/80 px-4 py-2 text-sm text-white">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            <span>
+              {bufferingNames.length === 1 && bufferingNames[0] === 'You'
+                ? 'Buffering… everyone is waiting for you'
+                : `Waiting for ${bufferingNames.join(' & ')} to buffer…`}
+            </span>
+            <Button size="sm" variant="ghost" onClick={skipBuffering} className="h-7 text-white hover:bg-white/20">
+              Don't wait
+            </Button>
+          </div>
+        )}
+
         {/* Loading Overlay */}
         {isLoading && (
           <div className="absolute inset-0 bg-black/60 flex items-center justify-center z-30">
@@ -743,6 +1573,20 @@ export const ProductionVideoPlayer: React.FC<ProductionVideoPlayerProps> = ({
             >
               {/* Progress Bar */}
               <div className="mb-3">
+                {duration > 0 && markers.length > 0 && (
+                  <div className="relative h-2 mb-1">
+                    {markers.filter((marker) => marker.time <= duration).map((marker) => (
+                      <button
+                        key={marker.id}
+                        type="button"
+                        onClick={() => seekTo(marker.time)}
+                        title={`${formatTime(marker.time)} · ${marker.label}`}
+                        className="absolute top-0 h-2 w-2 -translate-x-1/2 rounded-full bg-amber-400 hover:scale-150 transition-transform"
+                        style={{ left: `${(marker.time / duration) * 100}%` }}
+                      />
+                    ))}
+                  </div>
+                )}
                 <Slider
                   value={[progressPercent]}
                   onValueChange={handleSeek}
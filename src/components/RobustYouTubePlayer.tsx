@@ -7,6 +7,8 @@ interface RobustYouTubePlayerProps {
   videoId: string;
   onPlaybackUpdate?: (currentTime: number, isPlaying: boolean) => void;
   onDurationChange?: (duration: number) => void;
+  onBufferingChange?: (buffering: boolean) => void;
+  onEnded?: () => void;
   onReady?: () => void;
   onReadyControls?: (controls: {
     play: () => void;
@@ -14,6 +16,11 @@ interface RobustYouTubePlayerProps {
     seekTo: (s: number) => void;
     getCurrentTime: () => number;
     getPlayerState: () => number;
+    setPlaybackRate: (rate: number) => void;
+    /** 1 in the fallback embed, which can't report it. */
+    getPlaybackRate: () => number;
+    /** 0 to 1; YouTube itself counts 0 to 100. */
+    setVolume: (volume: number) => void;
   }) => void;
   onError?: (error: string) => void;
 }
@@ -29,6 +36,8 @@ export const RobustYouTubePlayer: React.FC<RobustYouTubePlayerProps> = ({
   videoId,
   onPlaybackUpdate,
   onDurationChange,
+  onBufferingChange,
+  onEnded,
   onReady,
   onReadyControls,
   onError
@@ -39,6 +48,9 @@ export const RobustYouTubePlayer: React.FC<RobustYouTubePlayerProps> = ({
   const playIntervalRef = useRef<number | null>(null);
   const timeoutRef = useRef<NodeJS.Timeout | null>(null);
   const apiCheckRef = useRef<NodeJS.Timeout | null>(null);
+  // The player is created once per video, so read the latest callback at event time
+  const onEndedRef = useRef(onEnded);
+  onEndedRef.current = onEnded;
   
   const [status, setStatus] = useState<'loading' | 'ready' | 'fallback' | 'error'>('loading');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -128,6 +140,42 @@ export const RobustYouTubePlayer: React.FC<RobustYouTubePlayerProps> = ({
         } catch {
           return -1;
         }
+      },
+      setPlaybackRate: (rate: number) => {
+        try {
+          if (isFallback && iframeRef.current) {
+            iframeRef.current.contentWindow?.postMessage(
+              `{"event":"command","func":"setPlaybackRate","args":[${rate}]}`,
+              '*'
+            );
+          } else {
+            player?.setPlaybackRate?.(rate);
+          }
+        } catch (e) {
+          console.error('[YT] Set playback rate failed:', e);
+        }
+      },
+      getPlaybackRate: () => {
+        try {
+          return player?.getPlaybackRate?.() || 1;
+        } catch {
+          return 1;
+        }
+      },
+      setVolume: (volume: number) => {
+        const level = Math.round(volume * 100);
+        try {
+          if (isFallback && iframeRef.current) {
+            iframeRef.current.contentWindow?.postMessage(
+              `{"event":"command","func":"setVolume","args":[${level}]}`,
+              '*'
+            );
+          } else {
+            player?.setVolume?.(level);
+          }
+        } catch (e) {
+          console.error('[YT] Set volume failed:', e);
+        }
       }
     };
     return controls;
@@ -237,6 +285,8 @@ export const RobustYouTubePlayer: React.FC<RobustYouTubePlayerProps> = ({
                               const currentTime = player.getCurrentTime?.() ?? 0;
                               console.log('[YT] State changed:', state, 'time:', currentTime.toFixed(1));
 
+                              onBufferingChange?.(state === window.YT.PlayerState.BUFFERING);
+
                               if (state === window.YT.PlayerState.PLAYING) {
                                 // Send update immediately
                                 onPlaybackUpdate?.(currentTime, true);
@@ -255,11 +305,18 @@ export const RobustYouTubePlayer: React.FC<RobustYouTubePlayerProps> = ({
                                 onPlaybackUpdate?.(currentTime, false);
                               } else if (state === window.YT.PlayerState.ENDED) {
                                 onPlaybackUpdate?.(currentTime, false);
+                                onEndedRef.current?.();
                               } else if (state === window.YT.PlayerState.BUFFERING) {
                                 // Don't send false during buffering - it causes glitches
                                 // Partner will catch up when playback resumes
                               }
             },
+            // A speed change is playback state too, so report it without waiting for the next tick
+            onPlaybackRateChange: (event: { target: { getCurrentTime?: () => number; getPlayerState?: () => number } }) => {
+              if (!mounted) return;
+              const player = event.target;
+              onPlaybackUpdate?.(player.getCurrentTime?.() ?? 0, player.getPlayerState?.() === window.YT.PlayerState.PLAYING);
+            },
             onError: (event: any) => {
               if (!mounted) return;
               const errorCode = event.data;
@@ -17,13 +17,14 @@ import {
   Home,
   ChevronLeft,
   ChevronRight,
-  Gamepad2
+  Gamepad2,
+  Phone
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useNavigate } from 'react-router-dom';
 import { toast } from '@/hooks/use-toast';
 
-type TabType = 'video' | 'games' | 'notes' | 'calendar' | 'watchlist' | 'ai-movies' | 'love-meter' | 'themes' | 'settings';
+type TabType = 'video' | 'calls' | 'games' | 'notes' | 'calendar' | 'watchlist' | 'ai-movies' | 'love-meter' | 'themes' | 'settings';
 
 interface RoomSidebarProps {
   activeTab: TabType;
@@ -36,6 +37,7 @@ interface RoomSidebarProps {
 
 const tabs = [
   { id: 'video' as TabType, label: 'Watch', icon: Video, description: 'Video player & calls' },
+  { id: 'calls' as TabType, label: 'Calls', icon: Phone, description: 'Call history' },
   { id: 'games' as TabType, label: 'Games', icon: Gamepad2, description: 'Couple games' },
   { id: 'notes' as TabType, label: 'Notes', icon: FileText, description: 'Shared notes' },
   { id: 'calendar' as TabType, label: 'Calendar', icon: Calendar, description: 'Plan movie nights' },
@@ -0,0 +1,141 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  DEFAULT_CUE_FONT_SIZE,
+  type CueAlignment,
+  type CueSpan,
+  type SubtitleCue,
+  type SubtitleDisplaySettings
+} from '@/lib/media/subtitles';
+
+interface SubtitleOverlayProps {
+  cues: SubtitleCue[];
+  display: SubtitleDisplaySettings;
+  /** Lift bottom cues clear of the playback controls. */
+  controlsVisible?: boolean;
+}
+
+const CONTROLS_CLEARANCE_PX = 72;
+
+const column = (alignment: CueAlignment) => (alignment - 1) % 3;
+/** 0 bottom, 1 middle, 2 top, as on a numpad. */
+const row = (alignment: CueAlignment) => Math.floor((alignment - 1) / 3);
+
+const TEXT_ALIGN = ['left', 'center', 'right'] as const;
+
+const outline = (color: string) =>
+  `-1px -1px 0 ${color}, 1px -1px 0 ${color}, -1px 1px 0 ${color}, 1px 1px 0 ${color}, 0 0 4px ${color}`;
+
+const spanStyle = (span: CueSpan): React.CSSProperties => ({
+  fontWeight: span.bold ? 700 : undefined,
+  fontStyle: span.italic ? 'italic' : undefined,
+  textDecoration: [span.underline && 'underline', span.strike && 'line-through'].filter(Boolean).join(' ') || undefined,
+  color: span.color
+});
+
+const Cue: React.FC<{ cue: SubtitleCue; frameHeight: number; display: SubtitleDisplaySettings }> = ({ cue, frameHeight, display }) => {
+  const { style, layout } = cue;
+  const fontSize = (style.fontSize ?? DEFAULT_CUE_FONT_SIZE) * frameHeight * display.fontScale;
+  const boxColor = display.background === 'box'
+    ? `rgba(0, 0, 0, ${display.backgroundOpacity})`
+    : style.boxColor;
+
+  return (
+    <div
+      className="whitespace-pre-wrap leading-tight"
+      style={{
+        fontSize,
+        fontFamily: style.fontFamily ? `"${style.fontFamily}", sans-serif` : undefined,
+        color: style.color ?? 'white',
+        textAlign: TEXT_ALIGN[column(layout.alignment)],
+        textShadow: boxColor ? undefined : outline(style.outlineColor ?? 'rgba(0, 0, 0, 0.9)')
+      }}
+    >
+      {cue.lines.map((line, lineIndex) => (
+        <div key={lineIndex}>
+          <span
+            className="box-decoration-clone"
+            style={boxColor ? { backgroundColor: boxColor, padding: '0.05em 0.3em' } : undefined}
+          >
+            {line.map((span, spanIndex) => (
+              <span key={spanIndex} style={spanStyle(span)}>{span.text}</span>
+            ))}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+/**
+ * Draws subtitle cues over the video frame: placed cues at their position,
+ * the rest stacked in whichever of the nine anchor areas they name.
+ */
+export const SubtitleOverlay: React.FC<SubtitleOverlayProps> = ({ cues, display, controlsVisible = false }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [frameHeight, setFrameHeight] = useState(0);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+    const observer = new ResizeObserver(([entry]) => setFrameHeight(entry.contentRect.height));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const placed = cues.filter((cue) => cue.layout.position);
+  const anchored = new Map<CueAlignment, SubtitleCue[]>();
+  for (const cue of cues) {
+    if (cue.layout.position) continue;
+    anchored.set(cue.layout.alignment, [...(anchored.get(cue.layout.alignment) ?? []), cue]);
+  }
+
+  return (
+    <div ref={ref} className="pointer-events-none absolute inset-0 z-10 overflow-hidden">
+      {frameHeight > 0 && placed.map((cue, index) => {
+        const { alignment, position, width } = cue.layout;
+        if (!position) return null;
+        return (
+          <div
+            key={`placed-${cue.start}-${index}`}
+            className="absolute"
+            style={{
+              left: `${position.x * 100}%`,
+              top: `${position.y * 100}%`,
+              maxWidth: `${width * 100}%`,
+              zIndex: cue.layer,
+              transform: `translate(${-50 * column(alignment)}%, ${-50 * (2 - row(alignment))}%)`
+            }}
+          >
+            <Cue cue={cue} frameHeight={frameHeight} display={display} />
+          </div>
+        );
+      })}
+      {frameHeight > 0 && [...anchored].map(([alignment, group]) => {
+        const { marginX, marginY, width } = group[0].layout;
+        const horizontal = column(alignment);
+        const vertical = row(alignment);
+        const clearance = vertical === 0 && controlsVisible ? CONTROLS_CLEARANCE_PX : 0;
+        return (
+          <div
+            key={alignment}
+            className="absolute flex flex-col gap-1"
+            style={{
+              left: horizontal === 2 ? undefined : horizontal === 0 ? `${marginX * 100}%` : '50%',
+              right: horizontal === 2 ? `${marginX * 100}%` : undefined,
+              top: vertical === 2 ? `${marginY * 100}%` : vertical === 1 ? '50%' : undefined,
+              bottom: vertical === 0 ? `calc(${marginY * 100}% + ${clearance}px)` : undefined,
+              width: `${width * 100}%`,
+              alignItems: ['flex-start', 'center', 'flex-end'][horizontal],
+              transform: `translate(${horizontal === 1 ? '-50%' : '0'}, ${vertical === 1 ? '-50%' : '0'})`,
+              transition: 'bottom 0.2s'
+            }}
+          >
+            {group.map((cue, index) => (
+              <Cue key={`${cue.start}-${index}`} cue={cue} frameHeight={frameHeight} display={display} />
+            ))}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useRef } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from './ui/button';
+import { Slider } from './ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { Upload, FileText, Loader2, RotateCcw } from 'lucide-react';
+import type { SubtitleTrack } from '@/hooks/useSubtitleSync';
+import {
+  SUBTITLE_DELAY_RANGE,
+  SUBTITLE_FILE_ACCEPT,
+  SUBTITLE_FONT_SCALE_RANGE,
+  type SubtitleDisplaySettings
+} from '@/lib/media/subtitles';
+
+interface SubtitleSettingsProps {
+  tracks: SubtitleTrack[];
+  selectedTrackId: string | null;
+  onSelectTrack: (track: SubtitleTrack | null) => void;
+  delay: number;
+  onDelayChange: (delay: number) => void;
+  display: SubtitleDisplaySettings;
+  onDisplayChange: (display: SubtitleDisplaySettings) => void;
+  uploading: boolean;
+  onShareFile: (file: File) => void;
+  onOpenLocalFile: (file: File) => void;
+  partnerName?: string;
+}
+
+const OFF = 'off';
+
+/** Which subtitles to show and how; every choice here is just for this viewer. */
+export const SubtitleSettings: React.FC<SubtitleSettingsProps> = ({
+  tracks,
+  selectedTrackId,
+  onSelectTrack,
+  delay,
+  onDelayChange,
+  display,
+  onDisplayChange,
+  uploading,
+  onShareFile,
+  onOpenLocalFile,
+  partnerName = 'Partner'
+}) => {
+  const { user } = useAuth();
+  const shareInputRef = useRef<HTMLInputElement>(null);
+  const localInputRef = useRef<HTMLInputElement>(null);
+
+  const trackLabel = (track: SubtitleTrack) => {
+    const owner = !track.url ? 'just for you' : track.uploaderId === user?.id ? 'shared by you' : `from ${partnerName}`;
+    return `${track.name}${track.lang ? ` (${track.lang})` : ''} · ${owner}`;
+  };
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>, onFile: (file: File) => void) => {
+    const file = event.target.files?.[0];
+    if (file) onFile(file);
+    event.target.value = '';
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <span className="text-xs text-muted-foreground">Subtitles</span>
+        <Select
+          value={selectedTrackId ?? OFF}
+          onValueChange={(id) => onSelectTrack(tracks.find((track) => track.id === id) ?? null)}
+        >
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={OFF} className="text-xs">Off</SelectItem>
+            {tracks.map((track) => (
+              <SelectItem key={track.id} value={track.id} className="text-xs">{trackLabel(track)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="grid grid-cols-2 gap-2">
+          <input ref={shareInputRef} type="file" accept={SUBTITLE_FILE_ACCEPT} className="hidden"
+            onChange={(event) => handleFile(event, onShareFile)} />
+          <input ref={localInputRef} type="file" accept={SUBTITLE_FILE_ACCEPT} className="hidden"
+            onChange={(event) => handleFile(event, onOpenLocalFile)} />
+          <Button variant="outline" size="sm" className="h-8 text-xs" disabled={uploading}
+            onClick={() => shareInputRef.current?.click()}
+            title={`Upload a file ${partnerName} can choose too`}>
+            {uploading ? <Loader2 className="w-3.5 h-3.5 mr-1.5 animate-spin" /> : <Upload className="w-3.5 h-3.5 mr-1.5" />}
+            Share file
+          </Button>
+          <Button variant="outline" size="sm" className="h-8 text-xs"
+            onClick={() => localInputRef.current?.click()}
+            title="Open a file without uploading it">
+            <FileText className="w-3.5 h-3.5 mr-1.5" />
+            Just for me
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground">.srt, .vtt, .ass or .ssa</p>
+      </div>
+
+      <div className="space-y-2 border-t pt-3">
+        <div className="flex items-center justify-between text-xs text-muted-foreground">
+          <span>Delay</span>
+          <div className="flex items-center gap-1">
+            <span>{delay > 0 ? '+' : ''}{delay.toFixed(1)}s</span>
+            {delay !== 0 && (
+              <Button variant="ghost" size="icon" className="h-5 w-5" onClick={() => onDelayChange(0)} title="Reset delay">
+                <RotateCcw className="w-3 h-3" />
+              </Button>
+            )}
+          </div>
+        </div>
+        <Slider value={[delay]} min={SUBTITLE_DELAY_RANGE.min} max={SUBTITLE_DELAY_RANGE.max} step={0.1}
+          onValueChange={([value]) => onDelayChange(Math.round(value * 10) / 10)} />
+        <p className="text-xs text-muted-foreground">Positive shows subtitles later</p>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>Size</span>
+          <span>{Math.round(display.fontScale * 100)}%</span>
+        </div>
+        <Slider value={[display.fontScale * 100]}
+          min={SUBTITLE_FONT_SCALE_RANGE.min * 100} max={SUBTITLE_FONT_SCALE_RANGE.max * 100} step={10}
+          onValueChange={([scale]) => onDisplayChange({ ...display, fontScale: scale / 100 })} />
+      </div>
+
+      <div className="space-y-2">
+        <span className="text-xs text-muted-foreground">Background</span>
+        <Select value={display.background}
+          onValueChange={(background) => onDisplayChange({ ...display, background: background as SubtitleDisplaySettings['background'] })}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none" className="text-xs">Outline only</SelectItem>
+            <SelectItem value="box" className="text-xs">Box</SelectItem>
+          </SelectContent>
+        </Select>
+        {display.background === 'box' && (
+          <>
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>Box opacity</span>
+              <span>{Math.round(display.backgroundOpacity * 100)}%</span>
+            </div>
+            <Slider value={[display.backgroundOpacity * 100]} min={20} max={100} step={5}
+              onValueChange={([opacity]) => onDisplayChange({ ...display, backgroundOpacity: opacity / 100 })} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
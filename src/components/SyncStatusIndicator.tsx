@@ -11,6 +11,7 @@ import {
   AlertTriangle,
   CheckCircle
 } from 'lucide-react';
+import type { ClockEstimate } from '@/lib/sync/clock';
 
 interface SyncMetrics {
   latency: number;
@@ -29,10 +30,11 @@ interface PresenceUser {
 interface SyncStatusIndicatorProps {
   connectionStatus: 'connected' | 'connecting' | 'disconnected';
   syncStatus: 'synced' | 'syncing' | 'drift';
-  presenceUsers: PresenceUser[];
+  presenceUsers?: PresenceUser[];
   currentPartner?: PresenceUser;
   metrics: SyncMetrics;
-  isAutoSyncing: boolean;
+  isAutoSyncing?: boolean;
+  clock?: ClockEstimate | null;
 }
 
 export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
@@ -41,7 +43,8 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
   presenceUsers,
   currentPartner,
   metrics,
-  isAutoSyncing
+  isAutoSyncing = false,
+  clock
 }) => {
   const getConnectionIcon = () => {
     switch (connectionStatus) {
@@ -99,10 +102,12 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
       </div>
 
       {/* User Count */}
-      <div className="flex items-center gap-2">
-        <Users className="w-4 h-4" />
-        <span className="text-sm">{presenceUsers.length}</span>
-      </div>
+      {presenceUsers && (
+        <div className="flex items-center gap-2">
+          <Users className="w-4 h-4" />
+          <span className="text-sm">{presenceUsers.length}</span>
+        </div>
+      )}
 
       {/* Sync Status */}
       <div className="flex items-center gap-2">
@@ -119,6 +124,18 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
         </Badge>
       )}
 
+      {/* Clock Sync */}
+      {clock && (
+        <div
+          className="flex items-center gap-2 text-xs text-muted-foreground"
+          title="Estimated clock difference and round-trip time to your partner"
+        >
+          <Clock className="w-4 h-4" />
+          <span className="tabular-nums">Offset {clock.offsetMs >= 0 ? '+' : ''}{Math.round(clock.offsetMs)}ms</span>
+          <span className="tabular-nums">RTT {Math.round(clock.rttMs)}ms</span>
+        </div>
+      )}
+
       {/* Connection Quality */}
       {metrics.latency > 0 && (
         <div className="flex items-center gap-2">
@@ -135,7 +152,7 @@ export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({
       {/* Detailed Metrics (when expanded) */}
       {metrics.latency > 0 && (
         <div className="hidden lg:flex items-center gap-4 text-xs text-muted-foreground border-l pl-4">
-          <div>Ping: {metrics.latency}ms</div>
+          <div>Ping: {Math.round(metrics.latency)}ms</div>
           <div>Jitter: {metrics.jitter.toFixed(1)}ms</div>
           {metrics.syncDrift > 1 && (
             <div className="text-orange-600">Drift: {metrics.syncDrift.toFixed(2)}s</div>
@@ -1,87 +1,30 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
 import { Button } from './ui/button';
 import { Textarea } from './ui/textarea';
 import { ScrollArea } from './ui/scroll-area';
-import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/hooks/useAuth';
 import { toast } from '@/hooks/use-toast';
 import { MessageSquare, Clock } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-
-interface TimestampNote {
-  id: string;
-  user_id: string;
-  room_id: string;
-  timestamp: number;
-  content: string;
-  created_at: string;
-  user_name?: string;
-}
+import type { TimestampNote } from '@/hooks/useTimestampedNotes';
 
 interface TimestampedNotesProps {
-  roomId: string;
+  notes: TimestampNote[];
   currentTime: number;
+  onAddNote: (content: string, timestamp: number) => Promise<boolean>;
   onSeekToTime: (time: number) => void;
 }
 
 export const TimestampedNotes: React.FC<TimestampedNotesProps> = ({ 
-  roomId, 
+  notes,
   currentTime,
+  onAddNote,
   onSeekToTime 
 }) => {
-  const { user } = useAuth();
-  const [notes, setNotes] = useState<TimestampNote[]>([]);
   const [newNote, setNewNote] = useState('');
 
-  useEffect(() => {
-    fetchNotes();
-    
-    const channel = supabase
-      .channel(`notes:${roomId}`)
-      .on('postgres_changes', {
-        event: '*',
-        schema: 'public',
-        table: 'timestamped_notes',
-        filter: `room_id=eq.${roomId}`
-      }, () => {
-        fetchNotes();
-      })
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [roomId]);
-
-  const fetchNotes = async () => {
-    const { data, error } = await supabase
-      .from('timestamped_notes')
-      .select('*')
-      .eq('room_id', roomId)
-      .order('timestamp', { ascending: true });
-
-    if (!error && data) {
-      setNotes(data);
-    }
-  };
-
   const addNote = async () => {
-    if (!newNote.trim() || !user) return;
-
-    const { error } = await supabase
-      .from('timestamped_notes')
-      .insert({
-        room_id: roomId,
-        user_id: user.id,
-        timestamp: Math.floor(currentTime),
-        content: newNote,
-        user_name: user.email?.split('@')[0] || 'Anonymous'
-      });
-
-    if (error) {
-      toast({ title: 'Error adding note', description: error.message, variant: 'destructive' });
-    } else {
+    if (await onAddNote(newNote, currentTime)) {
       setNewNote('');
       toast({ title: 'Note added', description: `Added at ${formatTime(currentTime)}` });
     }
@@ -127,7 +70,7 @@ export const TimestampedNotes: React.FC<TimestampedNotesProps> = ({
           <AnimatePresence>
             {notes.length === 0 ? (
               <div className="text-center text-muted-foreground py-8">
-                No notes yet. Add one during playback!
+                No notes on this video yet. Add one during playback!
               </div>
             ) : (
               notes.map((note) => (
@@ -0,0 +1,51 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Play, X } from 'lucide-react';
+import { AUTO_ADVANCE_COUNTDOWN_MS } from '@/lib/queue/playlist';
+import type { UpNext } from '@/hooks/useVideoQueue';
+
+interface UpNextOverlayProps {
+  upNext: UpNext;
+  /** Only whoever drives playback can skip the countdown. */
+  canPlayNow: boolean;
+  onPlayNow: () => void;
+  onCancel: () => void;
+}
+
+export const UpNextOverlay: React.FC<UpNextOverlayProps> = ({ upNext, canPlayNow, onPlayNow, onCancel }) => {
+  const [remainingMs, setRemainingMs] = useState(() => Math.max(0, upNext.startsAt - Date.now()));
+
+  useEffect(() => {
+    const tick = () => setRemainingMs(Math.max(0, upNext.startsAt - Date.now()));
+    tick();
+    const timer = window.setInterval(tick, 250);
+    return () => clearInterval(timer);
+  }, [upNext.startsAt]);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      exit={{ opacity: 0, y: 20 }}
+      className="absolute bottom-24 right-4 z-40 w-72 rounded-xl bg-black/85 p-4 text-white shadow-2xl"
+    >
+      <p className="text-xs uppercase tracking-wide text-white/60">
+        Up next in {Math.ceil(remainingMs / 1000)}s
+      </p>
+      <p className="mt-1 truncate font-medium">{upNext.item.title}</p>
+      <Progress value={100 - (remainingMs / AUTO_ADVANCE_COUNTDOWN_MS) * 100} className="mt-3 h-1" />
+      <div className="mt-3 flex gap-2">
+        {canPlayNow && (
+          <Button size="sm" className="flex-1 gap-1.5 bg-gradient-romantic" onClick={onPlayNow}>
+            <Play className="w-3.5 h-3.5" /> Play now
+          </Button>
+        )}
+        <Button size="sm" variant="secondary" className="flex-1 gap-1.5" onClick={onCancel}>
+          <X className="w-3.5 h-3.5" /> Cancel
+        </Button>
+      </div>
+    </motion.div>
+  );
+};
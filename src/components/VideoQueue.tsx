@@ -1,139 +1,54 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card, CardHeader, CardTitle, CardContent } from './ui/card';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
 import { ScrollArea } from './ui/scroll-area';
-import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/hooks/useAuth';
-import { toast } from '@/hooks/use-toast';
-import { Plus, Play, Trash2, MoveUp, MoveDown } from 'lucide-react';
+import { Plus, Play, Trash2, MoveUp, MoveDown, GripVertical, Shuffle, Repeat, Repeat1 } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
-
-interface QueueItem {
-  id: string;
-  url: string;
-  title: string;
-  type: 'youtube' | 'vimeo' | 'url';
-  position: number;
-  added_by: string;
-}
+import { cn } from '@/lib/utils';
+import type { QueueItem } from '@/hooks/useVideoQueue';
+import type { RepeatMode } from '@/lib/queue/playlist';
 
 interface VideoQueueProps {
-  roomId: string;
-  onPlayVideo: (url: string, type: string) => void;
-  currentVideoUrl?: string;
+  queue: QueueItem[];
+  currentItemId: string | null;
+  shuffle: boolean;
+  repeat: RepeatMode;
+  onAdd: (url: string, title?: string) => Promise<boolean>;
+  onRemove: (id: string) => void;
+  onReorder: (fromIndex: number, toIndex: number) => void;
+  onPlayItem: (item: QueueItem) => void;
+  onPlayNext: () => void;
+  onToggleShuffle: () => void;
+  onCycleRepeat: () => void;
 }
 
-export const VideoQueue: React.FC<VideoQueueProps> = ({ roomId, onPlayVideo, currentVideoUrl }) => {
-  const { user } = useAuth();
-  const [queue, setQueue] = useState<QueueItem[]>([]);
+const REPEAT_TITLES: Record<RepeatMode, string> = {
+  off: 'Repeat: off',
+  all: 'Repeat: whole queue',
+  one: 'Repeat: this video'
+};
+
+export const VideoQueue: React.FC<VideoQueueProps> = ({
+  queue, currentItemId, shuffle, repeat,
+  onAdd, onRemove, onReorder, onPlayItem, onPlayNext, onToggleShuffle, onCycleRepeat
+}) => {
   const [newUrl, setNewUrl] = useState('');
   const [newTitle, setNewTitle] = useState('');
-
-  useEffect(() => {
-    fetchQueue();
-    
-    const channel = supabase
-      .channel(`queue:${roomId}`)
-      .on('postgres_changes', {
-        event: '*',
-        schema: 'public',
-        table: 'video_queue',
-        filter: `room_id=eq.${roomId}`
-      }, () => {
-        fetchQueue();
-      })
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [roomId]);
-
-  const fetchQueue = async () => {
-    const { data, error } = await supabase
-      .from('video_queue')
-      .select('*')
-      .eq('room_id', roomId)
-      .order('position', { ascending: true });
-
-    if (!error && data) {
-      setQueue(data as QueueItem[]);
-    }
-  };
-
-  const detectVideoType = (url: string): { type: 'youtube' | 'vimeo' | 'url', id: string } => {
-    if (url.includes('youtube.com') || url.includes('youtu.be')) {
-      const match = url.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&?/]+)/);
-      return { type: 'youtube', id: match?.[1] || url };
-    }
-    if (url.includes('vimeo.com')) {
-      const match = url.match(/vimeo\.com\/(?:video\/)?(\d+)/);
-      return { type: 'vimeo', id: match?.[1] || url };
-    }
-    return { type: 'url', id: url };
-  };
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
 
   const addToQueue = async () => {
-    if (!newUrl.trim() || !user) return;
-
-    const { type, id } = detectVideoType(newUrl);
-    const maxPosition = queue.length > 0 ? Math.max(...queue.map(q => q.position)) : 0;
-
-    const { error } = await supabase
-      .from('video_queue')
-      .insert({
-        room_id: roomId,
-        url: id,
-        title: newTitle || `Video ${queue.length + 1}`,
-        type,
-        position: maxPosition + 1,
-        added_by: user.id
-      });
-
-    if (error) {
-      toast({ title: 'Error adding to queue', description: error.message, variant: 'destructive' });
-    } else {
+    if (await onAdd(newUrl, newTitle)) {
       setNewUrl('');
       setNewTitle('');
-      toast({ title: 'Added to queue', description: 'Video added successfully' });
     }
   };
 
-  const removeFromQueue = async (id: string) => {
-    const { error } = await supabase
-      .from('video_queue')
-      .delete()
-      .eq('id', id);
-
-    if (error) {
-      toast({ title: 'Error removing video', description: error.message, variant: 'destructive' });
-    }
-  };
-
-  const moveVideo = async (id: string, direction: 'up' | 'down') => {
-    const index = queue.findIndex(q => q.id === id);
-    if (index === -1) return;
-    if (direction === 'up' && index === 0) return;
-    if (direction === 'down' && index === queue.length - 1) return;
-
-    const newIndex = direction === 'up' ? index - 1 : index + 1;
-    const newQueue = [...queue];
-    [newQueue[index], newQueue[newIndex]] = [newQueue[newIndex], newQueue[index]];
-
-    for (let i = 0; i < newQueue.length; i++) {
-      await supabase
-        .from('video_queue')
-        .update({ position: i })
-        .eq('id', newQueue[i].id);
-    }
-  };
-
-  const playNext = async () => {
-    if (queue.length === 0) return;
-    const next = queue[0];
-    onPlayVideo(next.url, next.type);
-    await removeFromQueue(next.id);
+  const handleDrop = () => {
+    if (dragIndex !== null && dropIndex !== null) onReorder(dragIndex, dropIndex);
+    setDragIndex(null);
+    setDropIndex(null);
   };
 
   return (
@@ -141,6 +56,18 @@ export const VideoQueue: React.FC<VideoQueueProps> = ({ roomId, onPlayVideo, cur
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           📋 Video Queue ({queue.length})
+          <div className="ml-auto flex items-center gap-1">
+            <Button size="sm" variant={shuffle ? 'secondary' : 'ghost'} onClick={onToggleShuffle}
+              title={shuffle ? 'Shuffle: on' : 'Shuffle: off'}>
+              <Shuffle className={cn('w-4 h-4', !shuffle && 'opacity-50')} />
+            </Button>
+            <Button size="sm" variant={repeat !== 'off' ? 'secondary' : 'ghost'} onClick={onCycleRepeat}
+              title={REPEAT_TITLES[repeat]}>
+              {repeat === 'one'
+                ? <Repeat1 className="w-4 h-4" />
+                : <Repeat className={cn('w-4 h-4', repeat === 'off' && 'opacity-50')} />}
+            </Button>
+          </div>
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -162,9 +89,9 @@ export const VideoQueue: React.FC<VideoQueueProps> = ({ roomId, onPlayVideo, cur
         </div>
 
         {queue.length > 0 && (
-          <Button onClick={playNext} className="w-full" variant="secondary">
+          <Button onClick={onPlayNext} className="w-full" variant="secondary">
             <Play className="w-4 h-4 mr-2" />
-            Play Next ({queue[0]?.title})
+            {currentItemId ? 'Play Next' : 'Play Queue'}
           </Button>
         )}
 
@@ -173,49 +100,70 @@ export const VideoQueue: React.FC<VideoQueueProps> = ({ roomId, onPlayVideo, cur
             {queue.map((item, index) => (
               <motion.div
                 key={item.id}
+                layout
                 initial={{ opacity: 0, x: -20 }}
                 animate={{ opacity: 1, x: 0 }}
                 exit={{ opacity: 0, x: 20 }}
-                className={`p-3 mb-2 rounded-lg border ${
-                  currentVideoUrl === item.url ? 'bg-primary/10 border-primary' : 'bg-muted'
-                }`}
               >
-                <div className="flex items-center justify-between">
-                  <div className="flex-1">
-                    <p className="font-medium">{item.title}</p>
-                    <p className="text-xs text-muted-foreground">{item.type.toUpperCase()}</p>
-                  </div>
-                  <div className="flex items-center gap-1">
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => moveVideo(item.id, 'up')}
-                      disabled={index === 0}
-                    >
-                      <MoveUp className="w-3 h-3" />
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => moveVideo(item.id, 'down')}
-                      disabled={index === queue.length - 1}
-                    >
-                      <MoveDown className="w-3 h-3" />
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => onPlayVideo(item.url, item.type)}
-                    >
-                      <Play className="w-3 h-3" />
-                    </Button>
-                    <Button
-                      size="sm"
-                      variant="ghost"
-                      onClick={() => removeFromQueue(item.id)}
-                    >
-                      <Trash2 className="w-3 h-3" />
-                    </Button>
+                <div
+                  draggable
+                  onDragStart={() => setDragIndex(index)}
+                  onDragOver={(e) => {
+                    e.preventDefault();
+                    setDropIndex(index);
+                  }}
+                  onDrop={handleDrop}
+                  onDragEnd={() => {
+                    setDragIndex(null);
+                    setDropIndex(null);
+                  }}
+                  className={cn(
+                    'p-3 mb-2 rounded-lg border',
+                    currentItemId === item.id ? 'bg-primary/10 border-primary' : 'bg-muted',
+                    dragIndex === index && 'opacity-50',
+                    dropIndex === index && dragIndex !== index && 'ring-2 ring-primary/50'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <GripVertical className="w-4 h-4 shrink-0 cursor-grab text-muted-foreground" />
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium truncate">{item.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {currentItemId === item.id ? 'Now playing' : item.type.toUpperCase()}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onReorder(index, index - 1)}
+                        disabled={index === 0}
+                      >
+                        <MoveUp className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onReorder(index, index + 1)}
+                        disabled={index === queue.length - 1}
+                      >
+                        <MoveDown className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onPlayItem(item)}
+                      >
+                        <Play className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onRemove(item.id)}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </Button>
+                    </div>
                   </div>
                 </div>
               </motion.div>
@@ -7,7 +7,9 @@ interface VimeoPlayerProps {
   videoId: string;
   onPlaybackUpdate?: (currentTime: number, isPlaying: boolean) => void;
   onDurationChange?: (duration: number) => void;
-  onReadyControls?: (controls: { play: () => void; pause: () => void; seekTo: (s: number) => void; getCurrentTime: () => Promise<number>; getPaused: () => Promise<boolean> }) => void;
+  onBufferingChange?: (buffering: boolean) => void;
+  onEnded?: () => void;
+  onReadyControls?: (controls: { play: () => void; pause: () => void; seekTo: (s: number) => void; getCurrentTime: () => Promise<number>; getPaused: () => Promise<boolean>; setPlaybackRate?: (rate: number) => void; setVolume?: (volume: number) => void }) => void;
 }
 
 declare global {
@@ -20,6 +22,8 @@ export const VimeoPlayer: React.FC<VimeoPlayerProps> = ({
   videoId,
   onPlaybackUpdate,
   onDurationChange,
+  onBufferingChange,
+  onEnded,
   onReadyControls
 }) => {
   const playerRef = useRef<any>(null);
@@ -69,13 +73,20 @@ export const VimeoPlayer: React.FC<VimeoPlayerProps> = ({
         const dur = await playerRef.current.getDuration();
         if (dur) onDurationChange?.(dur);
         
+        // Only Vimeo Plus/PRO embeds allow speed changes; others reject
+        const rateSupported = await playerRef.current.setPlaybackRate(1).then(() => true, () => false);
+        
         // Expose controls to parent
         onReadyControls?.({
           play: () => playerRef.current.play(),
           pause: () => playerRef.current.pause(),
           seekTo: (s: number) => playerRef.current.setCurrentTime(s),
           getCurrentTime: () => playerRef.current.getCurrentTime(),
-          getPaused: () => playerRef.current.getPaused()
+          getPaused: () => playerRef.current.getPaused(),
+          setPlaybackRate: rateSupported
+            ? (rate: number) => { playerRef.current.setPlaybackRate(rate).catch(() => {}); }
+            : undefined,
+          setVolume: (volume: number) => { playerRef.current.setVolume(volume).catch(() => {}); }
         });
       });
 
@@ -96,8 +107,12 @@ export const VimeoPlayer: React.FC<VimeoPlayerProps> = ({
         const time = await playerRef.current.getCurrentTime();
         console.log('Vimeo ended');
         onPlaybackUpdate?.(time, false);
+        onEnded?.();
       });
 
+      playerRef.current.on('bufferstart', () => onBufferingChange?.(true));
+      playerRef.current.on('bufferend', () => onBufferingChange?.(false));
+
       playerRef.current.on('error', (error: any) => {
         console.error('Vimeo player error:', error);
         toast({
@@ -124,7 +139,7 @@ export const VimeoPlayer: React.FC<VimeoPlayerProps> = ({
     } catch (error) {
       console.error('Failed to create Vimeo player:', error);
     }
-  }, [apiLoaded, videoId, onPlaybackUpdate, onDurationChange, onReadyControls]);
+  }, [apiLoaded, videoId, onPlaybackUpdate, onDurationChange, onBufferingChange, onEnded, onReadyControls]);
 
   // Expose methods for parent component
   useEffect(() => {
@@ -5,7 +5,7 @@ interface YouTubePlayerProps {
   videoId: string;
   onPlaybackUpdate?: (currentTime: number, isPlaying: boolean) => void;
   onDurationChange?: (duration: number) => void;
-  onReadyControls?: (controls: { play: () => void; pause: () => void; seekTo: (s: number) => void; getCurrentTime: () => number; getPlayerState: () => any }) => void;
+  onReadyControls?: (controls: { play: () => void; pause: () => void; seekTo: (s: number) => void; getCurrentTime: () => number; getPlayerState: () => any; setPlaybackRate: (rate: number) => void }) => void;
 }
 
 declare global {
@@ -154,7 +154,8 @@ export const YouTubePlayer: React.FC<YouTubePlayerProps> = ({
               pause: () => event.target.pauseVideo(),
               seekTo: (s: number) => event.target.seekTo(s, true),
               getCurrentTime: () => event.target.getCurrentTime(),
-              getPlayerState: () => event.target.getPlayerState()
+              getPlayerState: () => event.target.getPlayerState(),
+              setPlaybackRate: (rate: number) => event.target.setPlaybackRate(rate)
             });
           },
           onStateChange: (event: any) => {
@@ -285,7 +286,8 @@ export const YouTubePlayer: React.FC<YouTubePlayerProps> = ({
       pause: () => iframe.contentWindow?.postMessage('{"event":"command","func":"pauseVideo","args":""}', '*'),
       seekTo: (s: number) => iframe.contentWindow?.postMessage(`{"event":"command","func":"seekTo","args":[${s}, true]}`, '*'),
       getCurrentTime: () => 0,
-      getPlayerState: () => -1
+      getPlayerState: () => -1,
+      setPlaybackRate: (rate: number) => iframe.contentWindow?.postMessage(`{"event":"command","func":"setPlaybackRate","args":[${rate}]}`, '*')
     });
 
     return () => {
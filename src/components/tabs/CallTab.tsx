@@ -1,22 +1,127 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { motion } from 'framer-motion';
-import { StableVideoCallOverlay } from '@/components/StableVideoCallOverlay';
+import { format, isToday } from 'date-fns';
+import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Video, Phone, Shield, Wifi } from 'lucide-react';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Video, Phone, PhoneOff, Shield, Wifi, Settings, History, PhoneIncoming, PhoneOutgoing, PhoneMissed, Film
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/hooks/useAuth';
+import type { CallController } from '@/hooks/useCallManager';
+import { useCallHistory } from '@/hooks/useCallHistory';
+import type { CallState } from '@/lib/webrtc/callMachine';
+import { callOutcome, callTypeOf, formatCallDuration, type CallRow, type WeeklyTalkTime } from '@/lib/webrtc/callLog';
+import { CallDeviceSettings } from '@/components/CallDeviceSettings';
 
 interface CallTabProps {
+  /** The room's call; the floating call window drives the same one. */
+  call: CallController;
   roomId: string;
-  roomCode?: string;
-  partnerId?: string | null;
   partnerName?: string;
 }
 
+const CALL_STATE_LABELS: Record<CallState, string> = {
+  idle: 'Not in a call',
+  calling: 'Calling...',
+  ringing: 'Incoming call',
+  requesting: 'Starting camera and microphone...',
+  connecting: 'Connecting...',
+  connected: 'In call',
+  reconnecting: 'Reconnecting...',
+  ended: 'Call ended',
+  failed: 'Call failed'
+};
+
+const watchedLabel = (row: CallRow) => {
+  if (row.media_title) return row.media_title;
+  if (!row.media_url) return null;
+  try {
+    return new URL(row.media_url).hostname;
+  } catch {
+    return row.media_url;
+  }
+};
+
+const CallHistoryItem: React.FC<{
+  row: CallRow;
+  outgoing: boolean;
+  canRedial: boolean;
+  onRedial: () => void;
+}> = ({ row, outgoing, canRedial, onRedial }) => {
+  const outcome = callOutcome(row);
+  const type = callTypeOf(row);
+  const watched = watchedLabel(row);
+  const createdAt = new Date(row.created_at);
+  // A call the partner cancelled still rang here unanswered
+  const missed = outcome === 'missed' || outcome === 'declined' || (outcome === 'cancelled' && !outgoing);
+  const Icon = missed ? PhoneMissed : outgoing ? PhoneOutgoing : PhoneIncoming;
+
+  let detail: string;
+  if (outcome === 'completed') detail = formatCallDuration(row.duration_seconds ?? 0);
+  else if (outcome === 'ongoing') detail = 'In progress';
+  else if (outcome === 'declined') detail = 'Declined';
+  else if (outcome === 'cancelled') detail = outgoing ? 'Cancelled' : 'Missed';
+  else detail = outgoing ? 'No answer' : 'Missed';
+
+  return (
+    <div className="flex items-center gap-3 py-2">
+      <Icon className={cn('w-4 h-4 shrink-0', missed ? 'text-destructive' : 'text-muted-foreground')} />
+      <div className="flex-1 min-w-0">
+        <p className="text-sm">
+          <span className="font-medium">{type === 'voice' ? 'Voice' : 'Video'} call</span>
+          <span className="text-muted-foreground"> · {detail}</span>
+        </p>
+        <p className="text-xs text-muted-foreground truncate">
+          {format(createdAt, isToday(createdAt) ? "'Today' HH:mm" : 'MMM d, HH:mm')}
+          {watched && <> · <Film className="inline w-3 h-3 -mt-0.5" /> {watched}</>}
+        </p>
+      </div>
+      <Button size="icon" variant="ghost" className="h-8 w-8 shrink-0" onClick={onRedial} disabled={!canRedial}
+        title={`Call back with ${type}`}>
+        {type === 'voice' ? <Phone className="w-4 h-4" /> : <Video className="w-4 h-4" />}
+      </Button>
+    </div>
+  );
+};
+
+const WeeklyTalkChart: React.FC<{ weeks: WeeklyTalkTime[] }> = ({ weeks }) => {
+  const longest = Math.max(1, ...weeks.map((week) => week.seconds));
+  const thisWeek = weeks[weeks.length - 1];
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-2xl font-bold">{formatCallDuration(thisWeek?.seconds ?? 0)}</p>
+        <p className="text-xs text-muted-foreground">
+          talked this week over {thisWeek?.calls ?? 0} {thisWeek?.calls === 1 ? 'call' : 'calls'}
+        </p>
+      </div>
+      <div className="flex items-end gap-2 h-20">
+        {weeks.map((week, index) => (
+          <div key={week.weekStart.getTime()} className="flex-1 flex flex-col items-center gap-1 h-full justify-end"
+            title={`${formatCallDuration(week.seconds)} in ${week.calls} ${week.calls === 1 ? 'call' : 'calls'}`}>
+            <div className={cn('w-full rounded-t', index === weeks.length - 1 ? 'bg-primary' : 'bg-primary/40')}
+              style={{ height: `${Math.max(4, (week.seconds / longest) * 100)}%` }} />
+            <span className="text-[10px] text-muted-foreground">{format(week.weekStart, 'MMM d')}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
 export const CallTab: React.FC<CallTabProps> = ({ 
-  roomId, 
-  roomCode, 
-  partnerId,
+  call,
+  roomId,
   partnerName = 'Partner'
 }) => {
+  const { user } = useAuth();
+  const { callState, startCall, acceptCall, hangUp } = call;
+  const [showDevices, setShowDevices] = useState(false);
+  const { calls, weeks, loading: historyLoading } = useCallHistory(roomId);
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -32,6 +137,80 @@ export const CallTab: React.FC<CallTabProps> = ({
         </p>
       </div>
 
+      <Card>
+        <CardContent className="flex items-center justify-between gap-4 p-4">
+          <div>
+            <p className="font-medium">{CALL_STATE_LABELS[callState]}</p>
+            <p className="text-sm text-muted-foreground">with {partnerName}</p>
+          </div>
+          <div className="flex gap-2">
+            <Button onClick={() => setShowDevices(true)} variant="outline" size="icon" title="Devices">
+              <Settings className="w-4 h-4" />
+            </Button>
+            {callState === 'idle' && (
+              <>
+                <Button onClick={() => startCall('video')} className="gap-2">
+                  <Video className="w-4 h-4" /> Video Call
+                </Button>
+                <Button onClick={() => startCall('voice')} variant="secondary" className="gap-2">
+                  <Phone className="w-4 h-4" /> Voice Call
+                </Button>
+              </>
+            )}
+            {callState === 'ringing' && (
+              <Button onClick={acceptCall} className="gap-2">
+                <Phone className="w-4 h-4" /> Answer
+              </Button>
+            )}
+            {callState !== 'idle' && callState !== 'ended' && callState !== 'failed' && (
+              <Button onClick={hangUp} variant="destructive" className="gap-2">
+                <PhoneOff className="w-4 h-4" /> {callState === 'ringing' ? 'Decline' : 'Hang Up'}
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <CallDeviceSettings call={call} open={showDevices} onOpenChange={setShowDevices} />
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className="md:col-span-2">
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg flex items-center gap-2">
+              <History className="w-5 h-5 text-primary" />
+              Recent Calls
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {historyLoading ? (
+              <div className="flex justify-center py-6">
+                <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+              </div>
+            ) : calls.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-6 text-center">No calls yet</p>
+            ) : (
+              <ScrollArea className="h-72 pr-3">
+                <div className="divide-y">
+                  {calls.map((row) => (
+                    <CallHistoryItem key={row.id} row={row} outgoing={row.caller_id === user?.id}
+                      canRedial={callState === 'idle'} onRedial={() => startCall(callTypeOf(row))} />
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-lg">Talk Time</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <WeeklyTalkChart weeks={weeks} />
+          </CardContent>
+        </Card>
+      </div>
+
       {/* Features Grid */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card className="bg-gradient-to-br from-primary/5 to-primary/10 border-primary/20">
@@ -98,13 +277,6 @@ export const CallTab: React.FC<CallTabProps> = ({
           </div>
         </CardContent>
       </Card>
-
-      {/* The call overlay is rendered globally via portal */}
-      <StableVideoCallOverlay
-        roomId={roomId}
-        partnerId={partnerId}
-        partnerName={partnerName}
-      />
     </motion.div>
   );
 };
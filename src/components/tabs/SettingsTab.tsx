@@ -2,7 +2,9 @@ import React from 'react';
 import { motion } from 'framer-motion';
 import { ExtensionBridge } from '@/components/ExtensionBridge';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Chrome } from 'lucide-react';
+import { Switch } from '@/components/ui/switch';
+import { Bell, Chrome } from 'lucide-react';
+import { usePushNotifications } from '@/hooks/usePushNotifications';
 
 interface SettingsTabProps {
   roomId: string;
@@ -10,6 +12,13 @@ interface SettingsTabProps {
 }
 
 export const SettingsTab: React.FC<SettingsTabProps> = ({ roomId, roomCode }) => {
+  const push = usePushNotifications();
+
+  let pushHint = 'Ring this device when your partner calls, even with the tab closed';
+  if (!push.configured) pushHint = 'Push notifications are not set up for this app yet';
+  else if (!push.supported) pushHint = 'This browser does not support push notifications';
+  else if (push.permission === 'denied') pushHint = 'Notifications are blocked for this site in your browser settings';
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -25,6 +34,24 @@ export const SettingsTab: React.FC<SettingsTabProps> = ({ roomId, roomCode }) =>
         </p>
       </div>
 
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Bell className="w-5 h-5" />
+            Call Notifications
+          </CardTitle>
+          <CardDescription>Incoming and missed calls on this device</CardDescription>
+        </CardHeader>
+        <CardContent className="flex items-center justify-between gap-4">
+          <p className="text-sm text-muted-foreground">{pushHint}</p>
+          <Switch
+            checked={push.enabled}
+            disabled={!push.supported || push.busy || push.permission === 'denied'}
+            onCheckedChange={push.setPushEnabled}
+          />
+        </CardContent>
+      </Card>
+
       {/* Chrome Extension Section */}
       <Card>
         <CardHeader>
@@ -1,6 +1,7 @@
 import React from 'react';
 import { motion } from 'framer-motion';
 import { ProductionIntegratedPlayer } from '@/components/ProductionIntegratedPlayer';
+import type { CallAudio, PeerLeft } from '@/components/ProductionVideoPlayer';
 
 interface VideoTabProps {
   roomId: string;
@@ -8,12 +9,16 @@ interface VideoTabProps {
   isRoomCreator?: boolean;
   partnerId?: string | null;
   partnerName?: string;
+  /** Our and the partner's call audio; the movie ducks while either talks. */
+  callAudio?: CallAudio;
+  /** The partner's last tab left the room; passed on so control can move. */
+  peerLeft?: PeerLeft | null;
   onPlaybackStateChange?: (state: any) => void;
 }
 
 export const VideoTab: React.FC<VideoTabProps> = ({ 
   roomId, roomCode, isRoomCreator = false,
-  partnerId, partnerName, onPlaybackStateChange 
+  partnerId, partnerName, callAudio, peerLeft, onPlaybackStateChange 
 }) => {
   return (
     <motion.div
@@ -29,6 +34,8 @@ export const VideoTab: React.FC<VideoTabProps> = ({
         isRoomCreator={isRoomCreator}
         partnerId={partnerId}
         partnerName={partnerName}
+        callAudio={callAudio}
+        peerLeft={peerLeft}
         onPlaybackStateChange={onPlaybackStateChange}
       />
     </motion.div>
@@ -0,0 +1,68 @@
+import { useEffect, useRef } from 'react';
+import { VOICE_RMS_THRESHOLD, nextDuckGain, rmsLevel, type DuckingSettings } from '@/lib/audio/ducking';
+
+const TICK_MS = 50;
+
+/**
+ * Watches call audio for speech and reports how loud the movie should be,
+ * 0 to 1. `applyGain` is called imperatively on every change so the player
+ * doesn't re-render at the tick rate; it gets 1 back when ducking stops.
+ */
+export const useAudioDucking = (
+  streams: (MediaStream | null | undefined)[],
+  settings: DuckingSettings,
+  applyGain: (gain: number) => void
+) => {
+  const settingsRef = useRef(settings);
+  const applyGainRef = useRef(applyGain);
+  settingsRef.current = settings;
+  applyGainRef.current = applyGain;
+
+  // Re-wire only when the actual audio tracks change
+  const trackIds = streams.map((stream) => stream?.getAudioTracks()[0]?.id ?? '').join(',');
+  const streamsRef = useRef(streams);
+  streamsRef.current = streams;
+
+  useEffect(() => {
+    const tracks = streamsRef.current
+      .map((stream) => stream?.getAudioTracks()[0])
+      .filter((track): track is MediaStreamTrack => !!track);
+    if (!tracks.length || !settingsRef.current.enabled) return;
+
+    const audioCtx = new AudioContext();
+    const analysers = tracks.map((track) => {
+      const analyser = audioCtx.createAnalyser();
+      analyser.fftSize = 1024;
+      audioCtx.createMediaStreamSource(new MediaStream([track])).connect(analyser);
+      return analyser;
+    });
+    const samples = new Float32Array(1024);
+
+    let gain = 1;
+    let lastSpeechAt = 0;
+    let lastTick = performance.now();
+    // A timer rather than requestAnimationFrame, which stops in background tabs
+    const interval = window.setInterval(() => {
+      const now = performance.now();
+      const speaking = analysers.some((analyser) => {
+        analyser.getFloatTimeDomainData(samples);
+        return rmsLevel(samples) > VOICE_RMS_THRESHOLD;
+      });
+      if (speaking) lastSpeechAt = now;
+
+      const quietMs = lastSpeechAt ? now - lastSpeechAt : Infinity;
+      const next = nextDuckGain(gain, quietMs, now - lastTick, settingsRef.current);
+      lastTick = now;
+      if (next !== gain) {
+        gain = next;
+        applyGainRef.current(gain);
+      }
+    }, TICK_MS);
+
+    return () => {
+      clearInterval(interval);
+      audioCtx.close().catch(() => {});
+      applyGainRef.current(1);
+    };
+  }, [trackIds, settings.enabled]);
+};
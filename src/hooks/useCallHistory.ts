@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  CALL_HISTORY_LIMIT,
+  startOfWeek,
+  weeklyTalkTime,
+  type CallRow,
+  type WeeklyTalkTime
+} from '@/lib/webrtc/callLog';
+
+const STATS_WEEKS = 6;
+
+/** The room's past calls, newest first, and talk time for the last few weeks. */
+export const useCallHistory = (roomId: string) => {
+  const [calls, setCalls] = useState<CallRow[]>([]);
+  const [weeks, setWeeks] = useState<WeeklyTalkTime[]>(() => weeklyTalkTime([], STATS_WEEKS));
+  const [loading, setLoading] = useState(true);
+
+  const fetchHistory = useCallback(async () => {
+    if (!roomId) return;
+
+    const since = startOfWeek(new Date());
+    since.setDate(since.getDate() - (STATS_WEEKS - 1) * 7);
+
+    try {
+      const [recent, talked] = await Promise.all([
+        supabase
+          .from('calls')
+          .select('*')
+          .eq('room_id', roomId)
+          .order('created_at', { ascending: false })
+          .limit(CALL_HISTORY_LIMIT),
+        supabase
+          .from('calls')
+          .select('*')
+          .eq('room_id', roomId)
+          .eq('status', 'ended')
+          .gte('created_at', since.toISOString())
+      ]);
+      if (recent.error) throw recent.error;
+      if (talked.error) throw talked.error;
+
+      setCalls(recent.data ?? []);
+      setWeeks(weeklyTalkTime(talked.data ?? [], STATS_WEEKS));
+    } catch (error) {
+      console.error('Error fetching call history:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [roomId]);
+
+  useEffect(() => {
+    fetchHistory();
+    if (!roomId) return;
+
+    // Rows change a handful of times per call, so just reload
+    const channel = supabase
+      .channel(`call_history_${roomId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'calls', filter: `room_id=eq.${roomId}` },
+        () => fetchHistory()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, fetchHistory]);
+
+  return { calls, weeks, loading, refresh: fetchHistory };
+};
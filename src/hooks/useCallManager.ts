@@ -0,0 +1,1119 @@
+import { useState, useRef, useCallback, useEffect } from 'react';
+import SimplePeer from 'simple-peer';
+import { useAuth } from './useAuth';
+import { useMediaDevices } from './useMediaDevices';
+import { toast } from '@/hooks/use-toast';
+import { getIceConfig } from '@/lib/webrtc/iceConfig';
+import {
+  isCallActive,
+  isInCall,
+  transitionCall,
+  type CallEvent,
+  type CallState,
+  type CallType
+} from '@/lib/webrtc/callMachine';
+import {
+  buildDiagnosticReport,
+  qualityLevelFor,
+  readCallStats,
+  type CallStatsSample,
+  type QualityChange,
+  type QualityLevel,
+  type StatsCounters
+} from '@/lib/webrtc/callStats';
+import {
+  INITIAL_CALL_VIDEO_QUALITY,
+  applyVideoQuality,
+  nextVideoQuality,
+  videoQualityCeiling,
+  type AdaptiveVideoQuality
+} from '@/lib/webrtc/adaptiveBitrate';
+import { createCallRecorder, isRecordingSupported, type CallRecorder } from '@/lib/webrtc/callRecorder';
+import { logCallAnswered, logCallDialed, logCallEnded, logCallUnanswered, type UnansweredStatus } from '@/lib/webrtc/callLog';
+import {
+  audioConstraints,
+  callMediaConstraints,
+  resolveDevice,
+  videoConstraints,
+  type CallDeviceKind
+} from '@/lib/webrtc/devices';
+import {
+  createTableTransport,
+  type CallSignal,
+  type PeerSignal,
+  type SignalingTransport,
+  type TransportFactory
+} from '@/lib/webrtc/signaling';
+
+export interface ConnectionQuality {
+  level: QualityLevel;
+  /** Round-trip time in ms. */
+  latency: number;
+  packetLoss: number;
+  jitter: number;
+  /** Estimated outgoing bandwidth in kbps. */
+  availableBitrate: number;
+  frameRate: number;
+  /** The level our video is being sent at; null on voice calls. */
+  videoQuality: AdaptiveVideoQuality | null;
+}
+
+export interface IncomingCall {
+  callId: string;
+  from: string;
+  callType: CallType;
+}
+
+/**
+ * 'asking': we asked the partner to allow recording. 'asked': the partner
+ * wants to record and is waiting for our answer.
+ */
+export type RecordingState = 'idle' | 'asking' | 'asked' | 'recording';
+
+export interface CallRecording {
+  blob: Blob;
+  fileName: string;
+}
+
+interface UseCallManagerProps {
+  roomId: string;
+  partnerId?: string | null;
+  /** Signaling backend; defaults to the rtc_signaling table. */
+  createTransport?: TransportFactory;
+}
+
+const RING_TIMEOUT_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 3;
+const RECONNECT_DELAY_MS = 1000;
+const RECONNECT_TIMEOUT_MS = 15000; // give up if the partner never rebuilds the connection
+const ICE_DISCONNECT_GRACE_MS = 2000; // 'disconnected' often recovers by itself
+const ICE_RESTART_TIMEOUT_MS = 10000; // then fall back to rebuilding the peer
+const ENDED_LINGER_MS = 500;
+const FAILED_LINGER_MS = 3000;
+const STATS_INTERVAL_MS = 3000;
+const RECORDING_CONSENT_TIMEOUT_MS = 30000;
+const MAX_STATS_SAMPLES = 200; // ten minutes of history for diagnostics
+const MAX_RECENT_SAMPLES = 10;
+
+const NO_QUALITY: ConnectionQuality = {
+  level: 0, latency: 0, packetLoss: 0, jitter: 0, availableBitrate: 0, frameRate: 0, videoQuality: null
+};
+
+const playRingtone = () => {
+  try {
+    const AudioCtx = window.AudioContext
+      || (window as unknown as { webkitAudioContext: typeof AudioContext }).webkitAudioContext;
+    const audioCtx = new AudioCtx();
+    const oscillator = audioCtx.createOscillator();
+    const gainNode = audioCtx.createGain();
+    oscillator.connect(gainNode);
+    gainNode.connect(audioCtx.destination);
+    oscillator.frequency.value = 440;
+    gainNode.gain.value = 0.1;
+    oscillator.start();
+    oscillator.stop(audioCtx.currentTime + 1);
+    setTimeout(() => audioCtx.close().catch(() => {}), 1100);
+  } catch {
+    console.log('[CallManager] Could not play ringtone');
+  }
+};
+
+const stopStream = (stream: MediaStream | null) => {
+  stream?.getTracks().forEach((track) => track.stop());
+};
+
+// simple-peer keeps these off its public typings
+type PeerInternals = {
+  _pc?: RTCPeerConnection;
+  offerOptions?: RTCOfferOptions;
+  negotiate: () => void;
+};
+
+const getPeerConnection = (peer: SimplePeer.Instance | null) =>
+  (peer as unknown as PeerInternals | null)?._pc;
+
+const isIceConnected = (peer: SimplePeer.Instance | null) => {
+  const iceState = getPeerConnection(peer)?.iceConnectionState;
+  return iceState === 'connected' || iceState === 'completed';
+};
+
+interface ScreenAudioMix {
+  audioCtx: AudioContext;
+  mix: MediaStreamAudioDestinationNode;
+  mic: MediaStreamAudioSourceNode;
+}
+
+/**
+ * The room's one call: invite/answer over a pluggable signaling transport,
+ * the peer connection, local media, ICE restarts and reconnects. Every state
+ * change goes through the call state machine. Create it once per room and
+ * hand the result to every call UI.
+ */
+export const useCallManager = ({ roomId, partnerId, createTransport = createTableTransport }: UseCallManagerProps) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const { devices, preferences: devicePreferences, setPreference, refreshDevices } = useMediaDevices();
+  const devicesRef = useRef(devices);
+  const devicePreferencesRef = useRef(devicePreferences);
+  devicesRef.current = devices;
+  devicePreferencesRef.current = devicePreferences;
+
+  const transportRef = useRef<SignalingTransport | null>(null);
+  const createTransportRef = useRef(createTransport);
+  const peerRef = useRef<SimplePeer.Instance | null>(null);
+  const buildingPeerRef = useRef(false);
+  const localStreamRef = useRef<MediaStream | null>(null);
+  const pendingSignalsRef = useRef<PeerSignal[]>([]);
+  const stateRef = useRef<CallState>('idle');
+  const callIdRef = useRef<string | null>(null);
+  const callTypeRef = useRef<CallType>('video');
+  const initiatorRef = useRef(false);
+  const attemptRef = useRef(0); // peer generation, shared with the partner through rtc signals
+  const reconnectsRef = useRef(0); // consecutive rebuilds without reaching 'connected'
+  const timerRef = useRef<number | null>(null);
+  const iceGraceTimerRef = useRef<number | null>(null);
+  const iceRestartingRef = useRef(false);
+  const peerLostRef = useRef<(peer: SimplePeer.Instance) => void>(() => {});
+  const handleSignalRef = useRef<(signal: CallSignal) => void>(() => {});
+  const restartIceRef = useRef<() => void>(() => {});
+  const statsCountersRef = useRef<StatsCounters | null>(null);
+  const statsSamplesRef = useRef<CallStatsSample[]>([]);
+  const recentSamplesRef = useRef<CallStatsSample[]>([]); // since the last video quality change
+  const videoQualityRef = useRef<AdaptiveVideoQuality>(INITIAL_CALL_VIDEO_QUALITY);
+  const qualityChangesRef = useRef<QualityChange[]>([]);
+  const tunedPcRef = useRef<RTCPeerConnection | null>(null); // connection the current level was applied to
+  const screenStreamRef = useRef<MediaStream | null>(null);
+  const screenMixRef = useRef<ScreenAudioMix | null>(null); // tab audio mixed into the mic track
+  const recorderRef = useRef<CallRecorder | null>(null); // only on the side that asked to record
+  const recordingStateRef = useRef<RecordingState>('idle');
+  const consentTimerRef = useRef<number | null>(null);
+  // The calls row this side still has to close
+  const callLogRef = useRef<{ callId: string; isCaller: boolean; answeredAt: number | null } | null>(null);
+
+  const [callState, setCallState] = useState<CallState>('idle');
+  const [callType, setCallType] = useState<CallType>('video');
+  const [incomingCall, setIncomingCall] = useState<IncomingCall | null>(null);
+  const [localStream, setLocalStream] = useState<MediaStream | null>(null);
+  const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  // Only set when the partner shares from a voice call; otherwise the screen replaces their camera
+  const [remoteScreenTrackStream, setRemoteScreenTrackStream] = useState<MediaStream | null>(null);
+  const [isPartnerSharing, setIsPartnerSharing] = useState(false);
+  const [isScreenSharing, setIsScreenSharing] = useState(false);
+  const [isSharingTabAudio, setIsSharingTabAudio] = useState(false);
+  const [recordingState, setRecordingStateValue] = useState<RecordingState>('idle');
+  const [recording, setRecording] = useState<CallRecording | null>(null);
+  const remoteStreamRef = useRef(remoteStream);
+  remoteStreamRef.current = remoteStream;
+  const [isMuted, setIsMuted] = useState(false);
+  const [isCameraOff, setIsCameraOff] = useState(false);
+  const [connectionQuality, setConnectionQuality] = useState<ConnectionQuality>(NO_QUALITY);
+
+  const dispatch = useCallback((event: CallEvent) => {
+    const next = transitionCall(stateRef.current, event);
+    if (!next) {
+      console.log(`[CallManager] Ignoring ${event} while ${stateRef.current}`);
+      return false;
+    }
+    stateRef.current = next;
+    setCallState(next);
+    return true;
+  }, []);
+
+  const clearTimer = useCallback(() => {
+    if (timerRef.current) {
+      clearTimeout(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  const send = useCallback(async (signal: CallSignal) => {
+    try {
+      await transportRef.current?.send(signal);
+    } catch (error) {
+      console.warn(`[CallManager] Failed to send ${signal.type}:`, error);
+    }
+  }, []);
+
+  const clearIceGraceTimer = useCallback(() => {
+    if (iceGraceTimerRef.current) {
+      clearTimeout(iceGraceTimerRef.current);
+      iceGraceTimerRef.current = null;
+    }
+  }, []);
+
+  const completeIceRestart = useCallback(() => {
+    if (!iceRestartingRef.current) return;
+    iceRestartingRef.current = false;
+    clearTimer();
+    reconnectsRef.current = 0;
+    dispatch('peer_connected');
+    console.log('[CallManager] ICE restart succeeded');
+  }, [clearTimer, dispatch]);
+
+  const setRecordingState = useCallback((next: RecordingState) => {
+    recordingStateRef.current = next;
+    setRecordingStateValue(next);
+    if (consentTimerRef.current && next !== 'asking') {
+      clearTimeout(consentTimerRef.current);
+      consentTimerRef.current = null;
+    }
+  }, []);
+
+  // Ends the recording on this side; the file is kept for download or upload
+  const endRecording = useCallback(() => {
+    setRecordingState('idle');
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    recorderRef.current = null;
+    recorder.stop().then((blob) => {
+      if (!blob.size) return;
+      setRecording({ blob, fileName: `call-recording-${new Date().toISOString().replace(/[:.]/g, '-')}.webm` });
+      toast({ title: 'Recording saved', description: 'Download it or save it to your room files' });
+    });
+  }, [setRecordingState]);
+
+  // Answered calls get their duration; unanswered ones are closed by the caller
+  const closeCallLog = useCallback((unanswered: UnansweredStatus = 'missed') => {
+    const log = callLogRef.current;
+    callLogRef.current = null;
+    if (!log) return;
+    if (log.answeredAt) logCallEnded(log.callId, log.answeredAt);
+    else if (log.isCaller) logCallUnanswered(log.callId, unanswered);
+  }, []);
+
+  // Stops our capture; the caller decides what the peer sends instead
+  const releaseScreen = useCallback(() => {
+    stopStream(screenStreamRef.current);
+    screenStreamRef.current = null;
+    screenMixRef.current?.audioCtx.close().catch(() => {});
+    screenMixRef.current = null;
+    setIsScreenSharing(false);
+    setIsSharingTabAudio(false);
+  }, []);
+
+  const destroyPeer = useCallback(() => {
+    const peer = peerRef.current;
+    peerRef.current = null;
+    pendingSignalsRef.current = [];
+    statsCountersRef.current = null;
+    clearIceGraceTimer();
+    iceRestartingRef.current = false;
+    if (peer) {
+      try { peer.destroy(); } catch { /* already closed */ }
+    }
+    // A rebuilt connection starts from the camera again
+    releaseScreen();
+    setRemoteStream(null);
+    setRemoteScreenTrackStream(null);
+    setIsPartnerSharing(false);
+  }, [clearIceGraceTimer, releaseScreen]);
+
+  const teardown = useCallback(() => {
+    clearTimer();
+    endRecording();
+    destroyPeer();
+    stopStream(localStreamRef.current);
+    localStreamRef.current = null;
+    setLocalStream(null);
+    setIncomingCall(null);
+    setIsMuted(false);
+    setConnectionQuality(NO_QUALITY);
+  }, [clearTimer, destroyPeer, endRecording]);
+
+  // Leave the call; 'ended'/'failed' linger briefly so the UI can show them
+  const finish = useCallback((event: 'hang_up' | 'remote_hang_up' | 'timeout' | 'fail') => {
+    if (!dispatch(event)) return;
+    // Our own hang-up before an answer is a cancel; only the ring running out is a miss
+    closeCallLog(event === 'hang_up' ? 'cancelled' : 'missed');
+    teardown();
+    callIdRef.current = null;
+    const linger = stateRef.current === 'failed' ? FAILED_LINGER_MS : ENDED_LINGER_MS;
+    timerRef.current = window.setTimeout(() => dispatch('reset'), linger);
+  }, [dispatch, teardown, closeCallLog]);
+
+  const getUserMedia = useCallback(async (type: CallType): Promise<MediaStream | null> => {
+    const preferences = devicePreferencesRef.current;
+    const available = devicesRef.current;
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia(callMediaConstraints(type, preferences, available));
+      // Device labels only show up once access is granted
+      refreshDevices();
+      return stream;
+    } catch (error) {
+      console.error('[CallManager] getUserMedia failed:', error);
+    }
+
+    if (type === 'voice') {
+      toast({ title: 'Microphone access denied', description: 'Please allow microphone access', variant: 'destructive' });
+      return null;
+    }
+    try {
+      const audioStream = await navigator.mediaDevices.getUserMedia({
+        audio: audioConstraints(resolveDevice(preferences.audioinput, available, 'audioinput')), video: false
+      });
+      setIsCameraOff(true);
+      toast({ title: 'Camera unavailable', description: 'Continuing with voice only' });
+      return audioStream;
+    } catch {
+      toast({ title: 'Media access denied', description: 'Please allow camera/microphone access', variant: 'destructive' });
+      return null;
+    }
+  }, [refreshDevices]);
+
+  const buildPeer = useCallback(async (initiator: boolean) => {
+    const stream = localStreamRef.current;
+    const callId = callIdRef.current;
+    if (!stream || !callId || !userId || buildingPeerRef.current) return;
+
+    buildingPeerRef.current = true;
+    const iceConfig = await getIceConfig();
+    buildingPeerRef.current = false;
+    // Hung up, or superseded by a newer attempt, while the config loaded
+    if (!isInCall(stateRef.current) || callIdRef.current !== callId || peerRef.current) return;
+
+    const attempt = attemptRef.current;
+    console.log('[CallManager] Creating peer, initiator:', initiator, 'attempt:', attempt);
+    const peer = new SimplePeer({ initiator, trickle: true, stream, config: iceConfig });
+    peerRef.current = peer;
+
+    peer.on('signal', (signal: PeerSignal) => {
+      send({ type: 'rtc', callId, from: userId, attempt, signal });
+    });
+    // The first stream is the partner's camera/mic; a later one is a screen added mid-call
+    let primaryStream: MediaStream | null = null;
+    peer.on('stream', (remote: MediaStream) => {
+      if (peerRef.current !== peer) return;
+      if (!primaryStream) {
+        primaryStream = remote;
+        setRemoteStream(remote);
+      } else {
+        setRemoteScreenTrackStream(remote);
+      }
+    });
+    peer.on('connect', () => {
+      if (peerRef.current !== peer) return;
+      const wasReconnecting = stateRef.current === 'reconnecting';
+      clearTimer();
+      iceRestartingRef.current = false;
+      reconnectsRef.current = 0;
+      if (dispatch('peer_connected') && wasReconnecting) {
+        toast({ title: 'Reconnected', description: 'The call is back' });
+      }
+    });
+    // ICE restarts keep this connection and its tracks; 'connect' only fires the first time
+    peer.on('iceStateChange', (iceState: RTCIceConnectionState) => {
+      if (peerRef.current !== peer) return;
+      if (iceState === 'disconnected') {
+        clearIceGraceTimer();
+        iceGraceTimerRef.current = window.setTimeout(() => {
+          iceGraceTimerRef.current = null;
+          if (peerRef.current === peer && getPeerConnection(peer)?.iceConnectionState === 'disconnected') {
+            restartIceRef.current();
+          }
+        }, ICE_DISCONNECT_GRACE_MS);
+      } else if (iceState === 'connected' || iceState === 'completed') {
+        clearIceGraceTimer();
+        completeIceRestart();
+      }
+    });
+    peer.on('negotiated', () => {
+      const internals = peer as unknown as PeerInternals;
+      if (internals.offerOptions?.iceRestart) {
+        internals.offerOptions = { ...internals.offerOptions, iceRestart: false };
+      }
+      // On a link that never dropped ICE stays connected, so no state change marks the restart done
+      if (peerRef.current === peer && isIceConnected(peer)) completeIceRestart();
+    });
+    peer.on('close', () => peerLostRef.current(peer));
+    peer.on('error', (error: Error) => {
+      console.error('[CallManager] Peer error:', error);
+      peerLostRef.current(peer);
+    });
+
+    const queued = pendingSignalsRef.current;
+    pendingSignalsRef.current = [];
+    queued.forEach((signal) => peer.signal(signal));
+  }, [userId, send, dispatch, clearTimer, clearIceGraceTimer, completeIceRestart]);
+
+  // New offer with fresh ICE credentials on the same connection; only the caller offers
+  const offerIceRestart = (peer: SimplePeer.Instance) => {
+    const internals = peer as unknown as PeerInternals;
+    internals.offerOptions = { ...internals.offerOptions, iceRestart: true };
+    internals.negotiate();
+  };
+
+  // The network changed under a live call: restart ICE, and only rebuild the peer if that fails
+  restartIceRef.current = () => {
+    const peer = peerRef.current;
+    const callId = callIdRef.current;
+    if (!peer || !callId || !userId || iceRestartingRef.current) return;
+    if (!dispatch('ice_restart')) return;
+
+    console.log('[CallManager] Restarting ICE, initiator:', initiatorRef.current);
+    iceRestartingRef.current = true;
+    clearIceGraceTimer();
+    if (initiatorRef.current) offerIceRestart(peer);
+    else send({ type: 'ice_restart', callId, from: userId, attempt: attemptRef.current });
+
+    clearTimer();
+    timerRef.current = window.setTimeout(() => {
+      if (peerRef.current !== peer || !iceRestartingRef.current) return;
+      if (isIceConnected(peer)) {
+        completeIceRestart();
+        return;
+      }
+      console.warn('[CallManager] ICE restart timed out, rebuilding the connection');
+      iceRestartingRef.current = false;
+      peerLostRef.current(peer);
+    }, ICE_RESTART_TIMEOUT_MS);
+  };
+
+  // The connection dropped: the caller rebuilds it, the callee waits for the new offer
+  peerLostRef.current = (peer: SimplePeer.Instance) => {
+    if (peer !== peerRef.current || !isInCall(stateRef.current)) return;
+    const callId = callIdRef.current;
+
+    reconnectsRef.current++;
+    if (reconnectsRef.current > MAX_RECONNECT_ATTEMPTS || !callId || !userId) {
+      toast({ title: 'Connection failed', description: 'Could not reconnect to the call', variant: 'destructive' });
+      if (callId && userId) send({ type: 'hang_up', callId, from: userId });
+      finish('fail');
+      return;
+    }
+
+    dispatch('peer_lost');
+    destroyPeer();
+    attemptRef.current++;
+    toast({ title: 'Reconnecting...', description: `Attempt ${reconnectsRef.current} of ${MAX_RECONNECT_ATTEMPTS}` });
+
+    clearTimer();
+    timerRef.current = window.setTimeout(() => {
+      if (stateRef.current !== 'reconnecting') return;
+      toast({ title: 'Connection failed', description: 'Could not reconnect to the call', variant: 'destructive' });
+      send({ type: 'hang_up', callId, from: userId });
+      finish('fail');
+    }, RECONNECT_TIMEOUT_MS);
+
+    if (initiatorRef.current) {
+      window.setTimeout(() => buildPeer(true), RECONNECT_DELAY_MS);
+    }
+  };
+
+  const connect = useCallback(async (initiator: boolean) => {
+    const callId = callIdRef.current;
+    initiatorRef.current = initiator;
+    attemptRef.current = 0;
+    reconnectsRef.current = 0;
+    statsSamplesRef.current = [];
+    recentSamplesRef.current = [];
+    videoQualityRef.current = INITIAL_CALL_VIDEO_QUALITY;
+    qualityChangesRef.current = [];
+    tunedPcRef.current = null;
+
+    const stream = await getUserMedia(callTypeRef.current);
+    if (stateRef.current !== 'requesting' || callIdRef.current !== callId) {
+      stopStream(stream);
+      return;
+    }
+    if (!stream) {
+      if (callId && userId) send({ type: 'hang_up', callId, from: userId });
+      finish('fail');
+      return;
+    }
+
+    localStreamRef.current = stream;
+    setLocalStream(stream);
+    dispatch('media_ready');
+    await buildPeer(initiator);
+  }, [userId, getUserMedia, send, finish, dispatch, buildPeer]);
+
+  const beginRecording = () => {
+    const stream = localStreamRef.current;
+    const callId = callIdRef.current;
+    if (!stream || !callId || !userId) return;
+    try {
+      recorderRef.current = createCallRecorder(stream, remoteStreamRef.current, callTypeRef.current === 'video');
+      setRecordingState('recording');
+    } catch (error) {
+      console.error('[CallManager] Could not start recording:', error);
+      toast({ title: 'Recording failed', description: 'Your browser could not record this call', variant: 'destructive' });
+      send({ type: 'record_stop', callId, from: userId });
+      setRecordingState('idle');
+    }
+  };
+
+  const handleRtc = (signal: Extract<CallSignal, { type: 'rtc' }>) => {
+    if (!isInCall(stateRef.current)) return;
+    // Late candidates from a connection we've already torn down
+    if (signal.attempt < attemptRef.current) return;
+
+    if (signal.attempt > attemptRef.current) {
+      // The partner rebuilt the connection before we noticed it drop
+      attemptRef.current = signal.attempt;
+      if (peerRef.current) {
+        destroyPeer();
+        dispatch('peer_lost');
+      }
+    }
+
+    if (peerRef.current) {
+      try {
+        peerRef.current.signal(signal.signal);
+      } catch (error) {
+        console.warn('[CallManager] Failed to apply signal:', error);
+      }
+      return;
+    }
+    pendingSignalsRef.current.push(signal.signal);
+    if (!initiatorRef.current) buildPeer(false);
+  };
+
+  handleSignalRef.current = (signal: CallSignal) => {
+    if (!userId) return;
+
+    if (signal.type === 'invite') {
+      if (signal.to !== userId) return;
+      if (stateRef.current !== 'idle') {
+        if (signal.callId !== callIdRef.current) send({ type: 'decline', callId: signal.callId, from: userId });
+        return;
+      }
+      callIdRef.current = signal.callId;
+      callTypeRef.current = signal.callType;
+      setCallType(signal.callType);
+      setIncomingCall({ callId: signal.callId, from: signal.from, callType: signal.callType });
+      dispatch('incoming');
+      playRingtone();
+      clearTimer();
+      timerRef.current = window.setTimeout(() => finish('timeout'), RING_TIMEOUT_MS);
+      return;
+    }
+
+    if (signal.callId !== callIdRef.current) return;
+
+    switch (signal.type) {
+      case 'accept':
+        if (stateRef.current !== 'calling') return;
+        clearTimer();
+        if (callLogRef.current?.callId === signal.callId) {
+          callLogRef.current.answeredAt = Date.now();
+          logCallAnswered(signal.callId, callLogRef.current.answeredAt);
+        }
+        dispatch('accepted');
+        connect(true);
+        break;
+      case 'decline':
+        if (stateRef.current !== 'calling') return;
+        closeCallLog('rejected');
+        finish('remote_hang_up');
+        toast({ title: 'Call Declined', description: 'Your partner declined the call' });
+        break;
+      case 'cancel':
+        if (stateRef.current === 'ringing') finish('remote_hang_up');
+        break;
+      case 'hang_up':
+        finish('remote_hang_up');
+        toast({ title: 'Call Ended', description: 'Your partner ended the call' });
+        break;
+      case 'ice_restart':
+        if (!initiatorRef.current || signal.attempt !== attemptRef.current) return;
+        if (iceRestartingRef.current && peerRef.current) offerIceRestart(peerRef.current);
+        else restartIceRef.current();
+        break;
+      case 'screen_share':
+        setIsPartnerSharing(signal.active);
+        if (!signal.active) setRemoteScreenTrackStream(null);
+        break;
+      case 'record_request':
+        if (stateRef.current !== 'connected' || recordingStateRef.current !== 'idle') {
+          send({ type: 'record_response', callId: signal.callId, from: userId, granted: false });
+          return;
+        }
+        setRecordingState('asked');
+        break;
+      case 'record_response':
+        if (recordingStateRef.current !== 'asking') return;
+        if (signal.granted) beginRecording();
+        else {
+          setRecordingState('idle');
+          toast({ title: 'Recording declined', description: 'Your partner did not want this call recorded' });
+        }
+        break;
+      case 'record_stop':
+        if (recordingStateRef.current === 'recording') {
+          toast({ title: 'Recording stopped', description: 'Your partner stopped the recording' });
+        }
+        endRecording();
+        break;
+      case 'rtc':
+        handleRtc(signal);
+        break;
+    }
+  };
+
+  // One transport per room; a pending invite sent just before we arrived still rings
+  useEffect(() => {
+    if (!roomId || !userId) return;
+
+    const transport = createTransportRef.current(roomId, userId);
+    transportRef.current = transport;
+    const unsubscribe = transport.subscribe((signal) => handleSignalRef.current(signal));
+
+    transport.fetchRecent?.(RING_TIMEOUT_MS).then((signals) => {
+      let pending: Extract<CallSignal, { type: 'invite' }> | null = null;
+      for (const signal of signals) {
+        if (signal.type === 'invite' && signal.to === userId) pending = signal;
+        else if (pending && signal.callId === pending.callId && signal.type !== 'rtc') pending = null;
+      }
+      if (pending && Date.now() - pending.sentAt < RING_TIMEOUT_MS) {
+        handleSignalRef.current(pending);
+      }
+    });
+
+    return () => {
+      const callId = callIdRef.current;
+      if (callId && isCallActive(stateRef.current)) {
+        const type = stateRef.current === 'calling' ? 'cancel' : stateRef.current === 'ringing' ? 'decline' : 'hang_up';
+        transport.send({ type, callId, from: userId }).catch(() => {});
+      }
+      closeCallLog(stateRef.current === 'calling' ? 'cancelled' : 'missed');
+      unsubscribe();
+      transport.close();
+      transportRef.current = null;
+      teardown();
+      callIdRef.current = null;
+      stateRef.current = 'idle';
+      setCallState('idle');
+    };
+  }, [roomId, userId, teardown, closeCallLog]);
+
+  const startCall = useCallback(async (type: CallType = 'video') => {
+    if (!userId) return;
+    if (!partnerId) {
+      toast({
+        title: 'No partner in room',
+        description: 'Wait for your partner to join before calling',
+        variant: 'destructive'
+      });
+      return;
+    }
+    if (stateRef.current !== 'idle') return;
+
+    const callId = crypto.randomUUID();
+    callIdRef.current = callId;
+    callTypeRef.current = type;
+    setCallType(type);
+    setIsCameraOff(type === 'voice');
+    dispatch('dial');
+    callLogRef.current = { callId, isCaller: true, answeredAt: null };
+    logCallDialed(callId, roomId, userId, partnerId, type);
+
+    await transportRef.current?.reset?.();
+    await send({ type: 'invite', callId, from: userId, to: partnerId, callType: type, sentAt: Date.now() });
+
+    clearTimer();
+    timerRef.current = window.setTimeout(() => {
+      if (callIdRef.current !== callId || stateRef.current !== 'calling') return;
+      send({ type: 'cancel', callId, from: userId });
+      finish('timeout');
+      toast({ title: 'No Answer', description: 'Your partner did not answer the call' });
+    }, RING_TIMEOUT_MS);
+
+    toast({
+      title: 'Calling...',
+      description: `Waiting for ${type} call to be answered`
+    });
+  }, [roomId, userId, partnerId, dispatch, send, clearTimer, finish]);
+
+  const acceptCall = useCallback(() => {
+    const callId = callIdRef.current;
+    if (stateRef.current !== 'ringing' || !callId || !userId) return;
+
+    clearTimer();
+    setIncomingCall(null);
+    setIsCameraOff(callTypeRef.current === 'voice');
+    callLogRef.current = { callId, isCaller: false, answeredAt: Date.now() };
+    send({ type: 'accept', callId, from: userId });
+    dispatch('accept');
+    connect(false);
+  }, [userId, clearTimer, send, dispatch, connect]);
+
+  const declineCall = useCallback(() => {
+    const callId = callIdRef.current;
+    if (stateRef.current !== 'ringing' || !callId || !userId) return;
+    send({ type: 'decline', callId, from: userId });
+    finish('hang_up');
+  }, [userId, send, finish]);
+
+  // Cancels an unanswered call or ends a live one
+  const hangUp = useCallback(() => {
+    const callId = callIdRef.current;
+    if (!callId || !userId) return;
+    if (stateRef.current === 'ringing') {
+      declineCall();
+      return;
+    }
+    if (stateRef.current === 'calling') send({ type: 'cancel', callId, from: userId });
+    else if (isInCall(stateRef.current)) send({ type: 'hang_up', callId, from: userId });
+    finish('hang_up');
+  }, [userId, send, finish, declineCall]);
+
+  /** For network changes the browser reports before ICE notices, like coming back online. */
+  const restartIce = useCallback(() => {
+    if (stateRef.current === 'connected' || stateRef.current === 'reconnecting') restartIceRef.current();
+  }, []);
+
+  const stopScreenShare = useCallback(async () => {
+    const screen = screenStreamRef.current;
+    if (!screen) return;
+    const peer = peerRef.current;
+    const pc = getPeerConnection(peer);
+    const screenTrack = screen.getVideoTracks()[0];
+    const camera = localStreamRef.current?.getVideoTracks()[0];
+    const mic = localStreamRef.current?.getAudioTracks()[0];
+
+    try {
+      const videoSender = pc?.getSenders().find((sender) => sender.track === screenTrack);
+      if (videoSender) {
+        if (camera) await videoSender.replaceTrack(camera);
+        else peer?.removeTrack(screenTrack, screen);
+      }
+      const audioSender = pc?.getSenders().find((sender) => sender.track?.kind === 'audio');
+      if (audioSender && mic && audioSender.track !== mic) await audioSender.replaceTrack(mic);
+    } catch (error) {
+      console.warn('[CallManager] Failed to restore camera after screen share:', error);
+    }
+    releaseScreen();
+
+    const callId = callIdRef.current;
+    if (callId && userId && isInCall(stateRef.current)) send({ type: 'screen_share', callId, from: userId, active: false });
+  }, [userId, send, releaseScreen]);
+
+  /**
+   * Shares a screen, window or tab. On video calls it takes the camera's
+   * place on the same sender; voice calls gain a video track. Tab audio,
+   * where the browser offers it, is mixed into the mic.
+   */
+  const startScreenShare = useCallback(async () => {
+    const peer = peerRef.current;
+    const pc = getPeerConnection(peer);
+    const callId = callIdRef.current;
+    if (!peer || !pc || !callId || !userId || stateRef.current !== 'connected' || screenStreamRef.current) return;
+    if (!navigator.mediaDevices?.getDisplayMedia) {
+      toast({ title: 'Screen sharing unavailable', description: 'Your browser does not support sharing a screen', variant: 'destructive' });
+      return;
+    }
+
+    let screen: MediaStream;
+    try {
+      screen = await navigator.mediaDevices.getDisplayMedia({
+        video: { frameRate: { ideal: 15, max: 30 } },
+        audio: true
+      });
+    } catch (error) {
+      console.log('[CallManager] Screen share cancelled:', error);
+      return;
+    }
+    if (peerRef.current !== peer || stateRef.current !== 'connected') {
+      stopStream(screen);
+      return;
+    }
+
+    const screenTrack = screen.getVideoTracks()[0];
+    screenTrack.contentHint = 'detail';
+    screenTrack.addEventListener('ended', () => {
+      if (screenStreamRef.current === screen) stopScreenShare();
+    });
+    screenStreamRef.current = screen;
+
+    const tabAudio = screen.getAudioTracks()[0];
+    const mic = localStreamRef.current?.getAudioTracks()[0];
+    try {
+      const videoSender = pc.getSenders().find((sender) => sender.track?.kind === 'video');
+      if (videoSender) await videoSender.replaceTrack(screenTrack);
+      else peer.addTrack(screenTrack, screen);
+
+      const audioSender = pc.getSenders().find((sender) => sender.track?.kind === 'audio');
+      if (tabAudio && mic && audioSender) {
+        const audioCtx = new AudioContext();
+        const mix = audioCtx.createMediaStreamDestination();
+        const micSource = audioCtx.createMediaStreamSource(new MediaStream([mic]));
+        micSource.connect(mix);
+        audioCtx.createMediaStreamSource(new MediaStream([tabAudio])).connect(mix);
+        screenMixRef.current = { audioCtx, mix, mic: micSource };
+        await audioSender.replaceTrack(mix.stream.getAudioTracks()[0]);
+        setIsSharingTabAudio(true);
+      }
+    } catch (error) {
+      console.error('[CallManager] Screen share failed:', error);
+      toast({ title: 'Screen sharing failed', description: 'Could not send your screen', variant: 'destructive' });
+      stopScreenShare();
+      return;
+    }
+
+    setIsScreenSharing(true);
+    send({ type: 'screen_share', callId, from: userId, active: true });
+  }, [userId, send, stopScreenShare]);
+
+  /**
+   * Moves the call to another camera or mic without renegotiating: the new
+   * track takes the old one's place on the same sender. Mute and camera-off
+   * carry over.
+   */
+  const swapInputTrack = useCallback(async (kind: 'audio' | 'video', deviceId: string | null) => {
+    const stream = localStreamRef.current;
+    const old = kind === 'audio' ? stream?.getAudioTracks()[0] : stream?.getVideoTracks()[0];
+    if (!stream || !old) return;
+
+    let fresh: MediaStreamTrack;
+    try {
+      const media = await navigator.mediaDevices.getUserMedia(
+        kind === 'audio' ? { audio: audioConstraints(deviceId) } : { video: videoConstraints(deviceId) }
+      );
+      fresh = media.getTracks()[0];
+    } catch (error) {
+      console.error('[CallManager] Could not open device:', error);
+      toast({
+        title: kind === 'audio' ? 'Microphone unavailable' : 'Camera unavailable',
+        description: 'Could not switch to the selected device',
+        variant: 'destructive'
+      });
+      return;
+    }
+    if (localStreamRef.current !== stream) {
+      fresh.stop();
+      return;
+    }
+    fresh.enabled = old.enabled;
+
+    try {
+      const screenMix = screenMixRef.current;
+      if (kind === 'audio' && screenMix) {
+        screenMix.mic.disconnect();
+        screenMix.mic = screenMix.audioCtx.createMediaStreamSource(new MediaStream([fresh]));
+        screenMix.mic.connect(screenMix.mix);
+      } else {
+        // While a screen is shared the camera isn't on a sender; stopScreenShare picks up the new one
+        const sender = getPeerConnection(peerRef.current)?.getSenders().find((candidate) => candidate.track === old);
+        await sender?.replaceTrack(fresh);
+      }
+    } catch (error) {
+      console.error('[CallManager] Failed to swap track:', error);
+      fresh.stop();
+      return;
+    }
+
+    stream.removeTrack(old);
+    stream.addTrack(fresh);
+    old.stop();
+    setLocalStream(new MediaStream(stream.getTracks()));
+  }, []);
+
+  /** Saves the choice for this user and, mid-call, switches over right away. */
+  const selectDevice = useCallback(async (kind: CallDeviceKind, deviceId: string | null) => {
+    setPreference(kind, deviceId);
+    // Speakers are applied by whichever element plays the partner
+    if (kind === 'audiooutput' || !isInCall(stateRef.current)) return;
+    await swapInputTrack(kind === 'audioinput' ? 'audio' : 'video', deviceId);
+  }, [setPreference, swapInputTrack]);
+
+  // Unplugged mid-call: fall back to the default, and go back once the chosen device returns
+  useEffect(() => {
+    const stream = localStreamRef.current;
+    if (!stream || !devices.length) return;
+
+    const checks = [['audio', 'audioinput', stream.getAudioTracks()[0]], ['video', 'videoinput', stream.getVideoTracks()[0]]] as const;
+    checks.forEach(([trackKind, deviceKind, track]) => {
+      if (!track) return;
+      const current = track.getSettings().deviceId;
+      const preferred = resolveDevice(devicePreferencesRef.current[deviceKind], devices, deviceKind);
+      const lost = track.readyState === 'ended'
+        || (!!current && !devices.some((device) => device.kind === deviceKind && device.deviceId === current));
+      if (!lost && (!preferred || preferred === current)) return;
+
+      if (lost) {
+        toast({
+          title: trackKind === 'audio' ? 'Microphone disconnected' : 'Camera disconnected',
+          description: 'Switched to another device'
+        });
+      }
+      swapInputTrack(trackKind, preferred);
+    });
+  }, [devices, swapInputTrack]);
+
+  /** Asks the partner to allow recording; nothing is captured until they agree. */
+  const requestRecording = useCallback(() => {
+    const callId = callIdRef.current;
+    if (!callId || !userId || stateRef.current !== 'connected' || recordingStateRef.current !== 'idle') return;
+    if (!isRecordingSupported()) {
+      toast({ title: 'Recording unavailable', description: 'Your browser cannot record calls', variant: 'destructive' });
+      return;
+    }
+    send({ type: 'record_request', callId, from: userId });
+    setRecordingState('asking');
+    consentTimerRef.current = window.setTimeout(() => {
+      if (recordingStateRef.current !== 'asking') return;
+      send({ type: 'record_stop', callId, from: userId });
+      setRecordingState('idle');
+      toast({ title: 'No answer', description: 'Your partner did not respond to the recording request' });
+    }, RECORDING_CONSENT_TIMEOUT_MS);
+  }, [userId, send, setRecordingState]);
+
+  const respondToRecording = useCallback((granted: boolean) => {
+    const callId = callIdRef.current;
+    if (!callId || !userId || recordingStateRef.current !== 'asked') return;
+    send({ type: 'record_response', callId, from: userId, granted });
+    setRecordingState(granted ? 'recording' : 'idle');
+  }, [userId, send, setRecordingState]);
+
+  /** Stops or withdraws a recording, whichever side started it. */
+  const stopRecording = useCallback(() => {
+    const callId = callIdRef.current;
+    if (recordingStateRef.current === 'idle') return;
+    if (callId && userId) send({ type: 'record_stop', callId, from: userId });
+    endRecording();
+  }, [userId, send, endRecording]);
+
+  const discardRecording = useCallback(() => setRecording(null), []);
+
+  // Keep recording the partner when a reconnect hands us a new stream
+  useEffect(() => {
+    recorderRef.current?.setRemoteStream(remoteStream);
+  }, [remoteStream]);
+
+  const toggleMute = useCallback(() => {
+    const stream = localStreamRef.current;
+    if (!stream) return;
+    stream.getAudioTracks().forEach((track) => { track.enabled = !track.enabled; });
+    setIsMuted((prev) => !prev);
+  }, []);
+
+  const toggleCamera = useCallback(() => {
+    const stream = localStreamRef.current;
+    if (!stream || callTypeRef.current === 'voice') return;
+    stream.getVideoTracks().forEach((track) => { track.enabled = !track.enabled; });
+    setIsCameraOff((prev) => !prev);
+  }, []);
+
+  /** Downloads the call's stats history as JSON, for bug reports. */
+  const exportDiagnostics = useCallback(() => {
+    if (!statsSamplesRef.current.length) {
+      toast({ title: 'No call stats yet', description: 'Diagnostics are collected once the call connects' });
+      return;
+    }
+    const report = buildDiagnosticReport({
+      callId: callIdRef.current,
+      callType: callTypeRef.current,
+      role: initiatorRef.current ? 'caller' : 'callee',
+      videoQuality: callTypeRef.current === 'video' ? videoQualityRef.current : null,
+      qualityChanges: qualityChangesRef.current,
+      samples: statsSamplesRef.current
+    });
+
+    const blob = new Blob([JSON.stringify(report, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `call-diagnostics-${new Date().toISOString().replace(/[:.]/g, '-')}.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  }, []);
+
+  // Telemetry from the peer's RTCPeerConnection stats, stepping our video bitrate to match
+  useEffect(() => {
+    if (callState !== 'connected') return;
+
+    const adaptVideo = async (pc: RTCPeerConnection, sample: CallStatsSample) => {
+      const recent = recentSamplesRef.current;
+      recent.push(sample);
+      if (recent.length > MAX_RECENT_SAMPLES) recent.shift();
+
+      const current = videoQualityRef.current;
+      const captureHeight = localStreamRef.current?.getVideoTracks()[0]?.getSettings().height;
+      const next = nextVideoQuality(current, recent, videoQualityCeiling(captureHeight));
+      // A rebuilt connection starts with default encodings, so re-apply even without a change
+      if (next === current && tunedPcRef.current === pc) return current;
+      if (!await applyVideoQuality(pc, next)) return current;
+
+      tunedPcRef.current = pc;
+      if (next !== current) {
+        console.log(`[CallManager] Video quality ${current} -> ${next}`);
+        qualityChangesRef.current.push({ at: sample.timestamp, from: current, to: next });
+        videoQualityRef.current = next;
+        recentSamplesRef.current = [];
+      }
+      return next;
+    };
+
+    const interval = window.setInterval(async () => {
+      const pc = getPeerConnection(peerRef.current);
+      if (!pc) return;
+      try {
+        const { sample, counters } = readCallStats(await pc.getStats(), statsCountersRef.current);
+        const firstPoll = !statsCountersRef.current;
+        statsCountersRef.current = counters;
+        // Rates need two polls; the first one only primes the counters
+        if (firstPoll) return;
+
+        const samples = statsSamplesRef.current;
+        samples.push(sample);
+        if (samples.length > MAX_STATS_SAMPLES) samples.shift();
+
+        const videoQuality = callTypeRef.current === 'video' ? await adaptVideo(pc, sample) : null;
+        setConnectionQuality({
+          level: qualityLevelFor(sample),
+          latency: sample.rttMs,
+          packetLoss: sample.packetLoss,
+          jitter: sample.jitterMs,
+          availableBitrate: sample.availableOutgoingKbps,
+          frameRate: sample.frameRate,
+          videoQuality
+        });
+      } catch { /* peer closed between ticks */ }
+    }, STATS_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [callState]);
+
+  return {
+    callState,
+    callType,
+    incomingCall,
+    localStream,
+    remoteStream,
+    isMuted,
+    isCameraOff,
+    connectionQuality,
+    isScreenSharing,
+    isSharingTabAudio,
+    isPartnerSharing,
+    /** What to show as the partner's screen, if they are sharing. */
+    remoteScreenStream: isPartnerSharing ? remoteScreenTrackStream ?? remoteStream : null,
+    recordingState,
+    recording,
+    devices,
+    devicePreferences,
+    /** Speaker to play the partner through; null for the system default. */
+    audioOutputId: resolveDevice(devicePreferences.audiooutput, devices, 'audiooutput'),
+
+    startCall,
+    acceptCall,
+    declineCall,
+    hangUp,
+    restartIce,
+    toggleMute,
+    toggleCamera,
+    startScreenShare,
+    stopScreenShare,
+    selectDevice,
+    refreshDevices,
+    requestRecording,
+    respondToRecording,
+    stopRecording,
+    discardRecording,
+    exportDiagnostics
+  };
+};
+
+export type CallController = ReturnType<typeof useCallManager>;
@@ -0,0 +1,271 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import {
+  CHAT_PAGE_SIZE,
+  CHAT_SEND_RETRY_DELAYS_MS,
+  TYPING_IDLE_MS,
+  isChatMessageType,
+  isDuplicateInsert,
+  mergeMessages,
+  type ChatMessageType,
+  type ChatSendStatus
+} from '@/lib/chat/messages';
+
+export interface ChatMessage {
+  id: string;
+  room_id: string;
+  sender_id: string;
+  sender_email: string | null;
+  content: string;
+  type: ChatMessageType;
+  created_at: string;
+  delivered_at: string | null;
+  read_at: string | null;
+  /** Where the video was when the message was sent; null outside playback. */
+  media_id: string | null;
+  video_timestamp: number | null;
+  sendStatus: ChatSendStatus;
+}
+
+interface ChatMessageRow extends Omit<ChatMessage, 'type' | 'sendStatus'> {
+  type: string;
+}
+
+interface TypingPresence {
+  user_id: string;
+  typing: boolean;
+}
+
+export interface ChatVideoAnchor {
+  mediaId: string | null;
+  currentTime: number;
+}
+
+interface UseChatMessagesOptions {
+  /** While the chat is open, incoming messages count as read. */
+  isOpen: boolean;
+  /** What's playing right now; new messages are stamped with it. */
+  anchor?: ChatVideoAnchor;
+  /** Called for each new message from the partner. */
+  onIncoming?: (message: ChatMessage) => void;
+}
+
+const fromRow = (row: ChatMessageRow): ChatMessage => ({
+  ...row,
+  type: isChatMessageType(row.type) ? row.type : 'message',
+  sendStatus: 'sent'
+});
+
+/**
+ * Persistent room chat: paged history, optimistic sends that retry on their
+ * own, delivered/read receipts, unread counts kept server-side, and a typing
+ * indicator carried over presence.
+ */
+export const useChatMessages = (roomId: string, { isOpen, anchor, onIncoming }: UseChatMessagesOptions) => {
+  const { user } = useAuth();
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const retryTimersRef = useRef(new Map<string, number>());
+  const typingTimerRef = useRef<number | null>(null);
+  const typingRef = useRef(false);
+  const isOpenRef = useRef(isOpen);
+  const onIncomingRef = useRef(onIncoming);
+  const anchorRef = useRef(anchor);
+  isOpenRef.current = isOpen;
+  onIncomingRef.current = onIncoming;
+  anchorRef.current = anchor;
+
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [partnerTyping, setPartnerTyping] = useState(false);
+
+  const markMessages = useCallback(async (read: boolean) => {
+    const { error } = await supabase.rpc('mark_chat_messages', { p_room_id: roomId, p_read: read });
+    if (error) {
+      console.warn('[Chat] Failed to update receipts:', error.message);
+      return;
+    }
+    if (read) setUnreadCount(0);
+  }, [roomId]);
+
+  const fetchPage = useCallback(async (before?: string) => {
+    let query = supabase
+      .from('chat_messages')
+      .select('*')
+      .eq('room_id', roomId);
+    if (before) query = query.lt('created_at', before);
+
+    const { data, error } = await query
+      .order('created_at', { ascending: false })
+      .limit(CHAT_PAGE_SIZE);
+
+    if (error || !data) {
+      console.error('[Chat] Failed to load messages:', error);
+      return;
+    }
+    setHasMore(data.length === CHAT_PAGE_SIZE);
+    setMessages((prev) => mergeMessages(prev, data.map(fromRow)));
+  }, [roomId]);
+
+  useEffect(() => {
+    if (!roomId || !user) return;
+
+    setMessages([]);
+    fetchPage().then(() => markMessages(isOpenRef.current));
+    supabase.rpc('get_chat_unread_count', { p_room_id: roomId }).then(({ data }) => {
+      if (typeof data === 'number' && !isOpenRef.current) setUnreadCount(data);
+    });
+
+    const channel = supabase
+      .channel(`chat:${roomId}`, { config: { presence: { key: user.id } } })
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'chat_messages',
+        filter: `room_id=eq.${roomId}`
+      }, ({ new: row }) => {
+        const message = fromRow(row as ChatMessageRow);
+        setMessages((prev) => mergeMessages(prev, [message]));
+        if (message.sender_id === user.id) return;
+
+        setPartnerTyping(false);
+        if (!isOpenRef.current) setUnreadCount((count) => count + 1);
+        markMessages(isOpenRef.current);
+        onIncomingRef.current?.(message);
+      })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'chat_messages',
+        filter: `room_id=eq.${roomId}`
+      }, ({ new: row }) => {
+        setMessages((prev) => mergeMessages(prev, [fromRow(row as ChatMessageRow)]));
+      })
+      .on('presence', { event: 'sync' }, () => {
+        const others = Object.values(channel.presenceState<TypingPresence>())
+          .flat()
+          .filter((presence) => presence.user_id !== user.id);
+        setPartnerTyping(others.some((presence) => presence.typing));
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          typingRef.current = false;
+          channel.track({ user_id: user.id, typing: false });
+        }
+      });
+
+    channelRef.current = channel;
+    const retryTimers = retryTimersRef.current;
+
+    return () => {
+      channelRef.current = null;
+      retryTimers.forEach((timer) => clearTimeout(timer));
+      retryTimers.clear();
+      if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, user, fetchPage, markMessages]);
+
+  // Opening the chat reads everything that's waiting
+  useEffect(() => {
+    if (isOpen && roomId && user) markMessages(true);
+  }, [isOpen, roomId, user, markMessages]);
+
+  const loadOlder = useCallback(async () => {
+    const oldest = messages.find((message) => message.sendStatus === 'sent');
+    if (!oldest || loadingOlder) return;
+    setLoadingOlder(true);
+    await fetchPage(oldest.created_at);
+    setLoadingOlder(false);
+  }, [messages, loadingOlder, fetchPage]);
+
+  const updateSendStatus = useCallback((id: string, sendStatus: ChatSendStatus) => {
+    setMessages((prev) => prev.map((message) => message.id === id ? { ...message, sendStatus } : message));
+  }, []);
+
+  const deliver = useCallback(async (message: ChatMessage, attempt: number) => {
+    retryTimersRef.current.delete(message.id);
+    const { error } = await supabase.from('chat_messages').insert({
+      id: message.id,
+      room_id: message.room_id,
+      sender_id: message.sender_id,
+      sender_email: message.sender_email,
+      content: message.content,
+      type: message.type,
+      media_id: message.media_id,
+      video_timestamp: message.video_timestamp
+    });
+
+    if (!error || isDuplicateInsert(error)) {
+      updateSendStatus(message.id, 'sent');
+      return;
+    }
+
+    const delay = CHAT_SEND_RETRY_DELAYS_MS[attempt];
+    if (delay === undefined) {
+      console.error('[Chat] Giving up on message:', error);
+      updateSendStatus(message.id, 'failed');
+      return;
+    }
+    retryTimersRef.current.set(message.id, window.setTimeout(() => deliver(message, attempt + 1), delay));
+  }, [updateSendStatus]);
+
+  const setTyping = useCallback((typing: boolean) => {
+    if (!user) return;
+    if (typingTimerRef.current) clearTimeout(typingTimerRef.current);
+    if (typing) {
+      typingTimerRef.current = window.setTimeout(() => setTyping(false), TYPING_IDLE_MS);
+    }
+    if (typingRef.current === typing) return;
+    typingRef.current = typing;
+    channelRef.current?.track({ user_id: user.id, typing });
+  }, [user]);
+
+  const sendMessage = useCallback((content: string, type: ChatMessageType = 'message') => {
+    const trimmed = content.trim();
+    if (!trimmed || !user) return;
+
+    const mediaId = anchorRef.current?.mediaId ?? null;
+    const message: ChatMessage = {
+      id: crypto.randomUUID(),
+      room_id: roomId,
+      sender_id: user.id,
+      sender_email: user.email || null,
+      content: trimmed,
+      type,
+      created_at: new Date().toISOString(),
+      delivered_at: null,
+      read_at: null,
+      media_id: mediaId,
+      video_timestamp: mediaId ? anchorRef.current?.currentTime ?? null : null,
+      sendStatus: 'sending'
+    };
+
+    setMessages((prev) => mergeMessages(prev, [message]));
+    setTyping(false);
+    deliver(message, 0);
+  }, [roomId, user, deliver, setTyping]);
+
+  const retryMessage = useCallback((id: string) => {
+    const message = messages.find((m) => m.id === id && m.sendStatus === 'failed');
+    if (!message) return;
+    updateSendStatus(id, 'sending');
+    deliver(message, 0);
+  }, [messages, deliver, updateSendStatus]);
+
+  return {
+    messages,
+    hasMore,
+    loadingOlder,
+    unreadCount,
+    partnerTyping,
+
+    loadOlder,
+    sendMessage,
+    retryMessage,
+    setTyping
+  };
+};
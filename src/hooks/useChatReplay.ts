@@ -0,0 +1,48 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import type { TimelineMarker } from '@/lib/media/markers';
+
+/**
+ * Chat from earlier watches of `mediaId`, as markers on the video timeline.
+ * Loaded once per video, so messages sent during this watch don't replay
+ * until the next one.
+ */
+export const useChatReplay = (roomId: string, mediaId: string | null) => {
+  const { user } = useAuth();
+  const userId = user?.id;
+  const [replay, setReplay] = useState<TimelineMarker[]>([]);
+
+  useEffect(() => {
+    setReplay([]);
+    if (!roomId || !mediaId || !userId) return;
+
+    let cancelled = false;
+    supabase
+      .from('chat_messages')
+      .select('id, content, sender_id, sender_email, video_timestamp')
+      .eq('room_id', roomId)
+      .eq('media_id', mediaId)
+      .not('video_timestamp', 'is', null)
+      .order('video_timestamp', { ascending: true })
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        if (error || !data) {
+          console.error('[ChatReplay] Failed to load chat history:', error);
+          return;
+        }
+        setReplay(data.map((message) => ({
+          id: message.id,
+          time: message.video_timestamp ?? 0,
+          label: message.content,
+          author: message.sender_id === userId ? 'You' : message.sender_email?.split('@')[0]
+        })));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, mediaId, userId]);
+
+  return replay;
+};
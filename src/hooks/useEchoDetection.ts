@@ -0,0 +1,84 @@
+import { useEffect, useRef, useState } from 'react';
+import { rmsLevel } from '@/lib/audio/ducking';
+import {
+  ECHO_CHECK_EVERY_FRAMES,
+  ECHO_FRAME_MS,
+  ECHO_WINDOW_FRAMES,
+  INITIAL_ECHO_CHECK,
+  envelopeCorrelation,
+  nextEchoCheck
+} from '@/lib/audio/echo';
+
+/**
+ * Whether our mic is picking up the movie. `reference` is the movie as the
+ * player outputs it (a capture of the video element); its audio track may
+ * only appear once the media loads, so it's picked up whenever it shows.
+ */
+export const useEchoDetection = (
+  reference: MediaStream | null,
+  mic: MediaStream | null,
+  enabled: boolean
+) => {
+  const [echoDetected, setEchoDetected] = useState(false);
+  const referenceRef = useRef(reference);
+  referenceRef.current = reference;
+
+  const micTrack = mic?.getAudioTracks()[0] ?? null;
+  const active = enabled && !!reference && !!micTrack;
+
+  useEffect(() => {
+    if (!active || !micTrack) return;
+
+    const audioCtx = new AudioContext();
+    const micAnalyser = audioCtx.createAnalyser();
+    micAnalyser.fftSize = 1024;
+    audioCtx.createMediaStreamSource(new MediaStream([micTrack])).connect(micAnalyser);
+
+    let refSource: MediaStreamAudioSourceNode | null = null;
+    let refTrackId: string | null = null;
+    const refAnalyser = audioCtx.createAnalyser();
+    refAnalyser.fftSize = 1024;
+    const samples = new Float32Array(1024);
+
+    const refLevels: number[] = [];
+    const micLevels: number[] = [];
+    let frames = 0;
+    let check = INITIAL_ECHO_CHECK;
+
+    // A timer rather than requestAnimationFrame, which stops in background tabs
+    const interval = window.setInterval(() => {
+      const refTrack = referenceRef.current?.getAudioTracks()[0];
+      if (refTrack?.id !== refTrackId) {
+        refSource?.disconnect();
+        refSource = refTrack ? audioCtx.createMediaStreamSource(new MediaStream([refTrack])) : null;
+        refSource?.connect(refAnalyser);
+        refTrackId = refTrack?.id ?? null;
+        refLevels.length = 0;
+        micLevels.length = 0;
+      }
+      if (!refSource) return;
+
+      refAnalyser.getFloatTimeDomainData(samples);
+      refLevels.push(rmsLevel(samples));
+      micAnalyser.getFloatTimeDomainData(samples);
+      micLevels.push(rmsLevel(samples));
+      if (refLevels.length > ECHO_WINDOW_FRAMES) {
+        refLevels.shift();
+        micLevels.shift();
+      }
+
+      frames++;
+      if (frames % ECHO_CHECK_EVERY_FRAMES || refLevels.length < ECHO_WINDOW_FRAMES) return;
+      check = nextEchoCheck(check, envelopeCorrelation(refLevels, micLevels));
+      setEchoDetected(check.detected);
+    }, ECHO_FRAME_MS);
+
+    return () => {
+      clearInterval(interval);
+      audioCtx.close().catch(() => {});
+      setEchoDetected(false);
+    };
+  }, [active, micTrack]);
+
+  return echoDetected;
+};
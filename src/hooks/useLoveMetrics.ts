@@ -4,6 +4,9 @@ import { useAuth } from './useAuth';
 
 interface LoveMetrics {
   watchTimeMinutes: number;
+  /** From answered calls in the same 30 days as the watch stats. */
+  talkTimeMinutes: number;
+  callsCount: number;
   sessionsCount: number;
   heartsSent: number;
   heartsReceived: number;
@@ -24,6 +27,8 @@ export const useLoveMetrics = (roomId: string, partnerId?: string) => {
   const { user } = useAuth();
   const [metrics, setMetrics] = useState<LoveMetrics>({
     watchTimeMinutes: 0,
+    talkTimeMinutes: 0,
+    callsCount: 0,
     sessionsCount: 0,
     heartsSent: 0,
     heartsReceived: 0,
@@ -36,15 +41,31 @@ export const useLoveMetrics = (roomId: string, partnerId?: string) => {
   const fetchMetrics = useCallback(async () => {
     if (!user) return;
 
+    const monthAgo = new Date();
+    monthAgo.setDate(monthAgo.getDate() - 30);
+
     try {
-      const { data, error } = await supabase
-        .from('love_stats')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('date', { ascending: false })
-        .limit(30);
+      const [{ data, error }, calls] = await Promise.all([
+        supabase
+          .from('love_stats')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('date', { ascending: false })
+          .limit(30),
+        supabase
+          .from('calls')
+          .select('duration_seconds')
+          .eq('status', 'ended')
+          .gte('created_at', monthAgo.toISOString())
+      ]);
 
       if (error) throw error;
+      if (calls.error) throw calls.error;
+
+      const talkSeconds = (calls.data ?? []).reduce((sum, call) => sum + (call.duration_seconds || 0), 0);
+      const talkTimeMinutes = Math.round(talkSeconds / 60);
+      const callsCount = calls.data?.length ?? 0;
+      setMetrics((prev) => ({ ...prev, talkTimeMinutes, callsCount }));
 
       if (data && data.length > 0) {
         const totalWatchTime = data.reduce((sum, stat) => sum + (stat.watch_time_minutes || 0), 0);
@@ -71,6 +92,7 @@ export const useLoveMetrics = (roomId: string, partnerId?: string) => {
         // Calculate couple score (0-100)
         const score = Math.min(100, Math.floor(
           (totalWatchTime / 10) + 
+          (talkTimeMinutes / 10) +
           (totalSessions * 5) + 
           (streak * 10) + 
           (totalHeartsSent / 2) +
@@ -79,6 +101,8 @@ export const useLoveMetrics = (roomId: string, partnerId?: string) => {
 
         setMetrics({
           watchTimeMinutes: totalWatchTime,
+          talkTimeMinutes,
+          callsCount,
           sessionsCount: totalSessions,
           heartsSent: totalHeartsSent,
           heartsReceived: totalHeartsReceived,
@@ -0,0 +1,56 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from './useAuth';
+import {
+  loadDevicePreferences,
+  saveDevicePreferences,
+  type CallDeviceKind,
+  type CallDevicePreferences
+} from '@/lib/webrtc/devices';
+
+/**
+ * Connected cameras, mics and speakers, kept current through `devicechange`,
+ * plus this user's saved choice for each. Labels stay empty until the page
+ * has been granted media access once.
+ */
+export const useMediaDevices = () => {
+  const { user } = useAuth();
+  const userId = user?.id;
+
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [preferences, setPreferences] = useState<CallDevicePreferences>(() => loadDevicePreferences(userId));
+
+  useEffect(() => {
+    setPreferences(loadDevicePreferences(userId));
+  }, [userId]);
+
+  const refreshDevices = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const list = await navigator.mediaDevices.enumerateDevices();
+      setDevices(list.filter((device) => device.deviceId));
+    } catch (error) {
+      console.warn('[Devices] Could not list devices:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshDevices();
+    navigator.mediaDevices?.addEventListener('devicechange', refreshDevices);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refreshDevices);
+  }, [refreshDevices]);
+
+  const setPreference = useCallback((kind: CallDeviceKind, deviceId: string | null) => {
+    setPreferences((prev) => {
+      const next = { ...prev, [kind]: deviceId };
+      if (userId) saveDevicePreferences(userId, next);
+      return next;
+    });
+  }, [userId]);
+
+  return {
+    devices,
+    preferences,
+    setPreference,
+    refreshDevices
+  };
+};
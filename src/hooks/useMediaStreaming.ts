@@ -1,9 +1,24 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import SimplePeer from 'simple-peer';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from './useAuth';
 import { toast } from '@/hooks/use-toast';
-import { getIceConfigSync } from '@/lib/webrtc/iceConfig';
+import { getIceConfig } from '@/lib/webrtc/iceConfig';
+import {
+  CAPTURE_FAILURE_MESSAGES,
+  POSITION_INTERVAL_MS,
+  applyFilmEncoding,
+  captureVideoStream,
+  markFilmTracks,
+  parseStreamMessage,
+  tuneFilmSdp,
+  type CaptureFailure,
+  type RemotePlayback,
+  type StreamControl,
+  type StreamMessage
+} from '@/lib/webrtc/filmStream';
 
 interface UseMediaStreamingProps {
   roomId: string;
@@ -18,428 +33,358 @@ interface StreamingState {
   streamerId: string | null;
 }
 
+const IDLE_STATE: StreamingState = { isStreaming: false, isReceiving: false, connectionState: 'idle', streamerId: null };
+
+/** A streamer's offer older than this is from a stream that has since ended. */
+const STALE_OFFER_MS = 30000;
+
+// simple-peer keeps this off its public API
+type PeerInternals = { _pc?: RTCPeerConnection };
+
+interface StreamSignalPayload {
+  signal?: unknown;
+  streamId?: string;
+  isStreamer?: boolean;
+}
+
+/**
+ * Shares the host's local file as a live stream. The host's <video> is
+ * captured and sent on a peer connection of its own; the partner watches
+ * the stream and their play, pause and seek drive the host's element, so
+ * only the host needs the file.
+ */
 export const useMediaStreaming = ({ roomId, roomCode, enabled = true }: UseMediaStreamingProps) => {
   const { user } = useAuth();
   const peerRef = useRef<SimplePeer.Instance | null>(null);
-  const channelRef = useRef<any>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const remoteVideoRef = useRef<HTMLVideoElement>(null);
   const localVideoRef = useRef<HTMLVideoElement | null>(null);
-  
-  const [state, setState] = useState<StreamingState>({
-    isStreaming: false,
-    isReceiving: false,
-    connectionState: 'idle',
-    streamerId: null
-  });
-  
+  const streamIdRef = useRef<string | null>(null);
+  const isStreamingRef = useRef(false);
+  const isCleaningUpRef = useRef(false);
+  const stopPositionReportsRef = useRef<(() => void) | null>(null);
+  // Host: offer the stream again on a new peer; a ref because the peer handlers that call it are made by createPeer
+  const reofferRef = useRef<() => void>(() => {});
+
+  const [state, setState] = useState<StreamingState>(IDLE_STATE);
   const [remoteStream, setRemoteStream] = useState<MediaStream | null>(null);
+  const [remotePlayback, setRemotePlayback] = useState<RemotePlayback | null>(null);
+  const [captureFailure, setCaptureFailure] = useState<CaptureFailure | null>(null);
 
-  // Clean up peer connection
-  const cleanup = useCallback(() => {
-    console.log('[MediaStreaming] Cleanup');
-    
-    if (peerRef.current) {
-      try { peerRef.current.destroy(); } catch {}
-      peerRef.current = null;
-    }
-    
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-      streamRef.current = null;
+  const generateStreamId = useCallback(() => `stream_${Date.now()}_${Math.random().toString(36).substring(2, 9)}`, []);
+
+  const sendMessage = useCallback((message: StreamMessage) => {
+    const peer = peerRef.current;
+    if (!peer?.connected) return false;
+    try {
+      peer.send(JSON.stringify(message));
+      return true;
+    } catch (error) {
+      console.warn('[Streaming] Data channel send failed:', error);
+      return false;
     }
-    
+  }, []);
+
+  const cleanupPeer = useCallback(() => {
+    stopPositionReportsRef.current?.();
+    stopPositionReportsRef.current = null;
+    if (peerRef.current) { try { peerRef.current.destroy(); } catch { /* already closed */ } peerRef.current = null; }
+  }, []);
+
+  const cleanup = useCallback(() => {
+    if (isCleaningUpRef.current) return;
+    isCleaningUpRef.current = true;
+    cleanupPeer();
+    if (streamRef.current) { streamRef.current.getTracks().forEach(track => track.stop()); streamRef.current = null; }
+    streamIdRef.current = null;
+    localVideoRef.current = null;
+    isStreamingRef.current = false;
     setRemoteStream(null);
-    setState({
-      isStreaming: false,
-      isReceiving: false,
-      connectionState: 'idle',
-      streamerId: null
+    setRemotePlayback(null);
+    setState(IDLE_STATE);
+    setTimeout(() => { isCleaningUpRef.current = false; }, 100);
+  }, [cleanupPeer]);
+
+  // Host: tell the partner where our element is, on every change and while it plays
+  const startPositionReports = useCallback(() => {
+    const video = localVideoRef.current;
+    if (!video) return;
+
+    const report = () => sendMessage({
+      type: 'position',
+      currentTime: video.currentTime,
+      duration: Number.isFinite(video.duration) ? video.duration : 0,
+      paused: video.paused
     });
+    const events = ['play', 'pause', 'seeked', 'durationchange'] as const;
+    events.forEach((event) => video.addEventListener(event, report));
+    const interval = window.setInterval(() => { if (!video.paused) report(); }, POSITION_INTERVAL_MS);
+    report();
+
+    stopPositionReportsRef.current = () => {
+      events.forEach((event) => video.removeEventListener(event, report));
+      clearInterval(interval);
+    };
+  }, [sendMessage]);
+
+  // Host: the partner's controls act on our element; its events then sync the room as usual
+  const applyControl = useCallback((control: StreamControl) => {
+    const video = localVideoRef.current;
+    if (!video || !isStreamingRef.current) return;
+    if (control.action === 'play') video.play().catch((error) => console.warn('[Streaming] Remote play blocked:', error));
+    else if (control.action === 'pause') video.pause();
+    else if (control.action === 'seek') video.currentTime = Math.max(0, Math.min(control.time, Number.isFinite(video.duration) ? video.duration : control.time));
   }, []);
 
-  // Create peer connection
-  const createPeer = useCallback((initiator: boolean, stream?: MediaStream) => {
-    console.log('[MediaStreaming] Creating peer, initiator:', initiator, 'has stream:', !!stream);
-    
+  const createPeer = useCallback(async (initiator: boolean, stream?: MediaStream): Promise<SimplePeer.Instance> => {
+    const iceConfig = await getIceConfig();
+    console.log('[Streaming] Creating peer with', iceConfig.iceServers?.length ?? 0, 'ICE servers, initiator:', initiator);
+
     const peer = new SimplePeer({
-      initiator,
-      // Use non-trickle signaling to avoid partial/duplicate candidate races
-      // and keep DB signaling simple & reliable.
-      trickle: false,
-      stream: stream || undefined,
-      config: getIceConfigSync()
+      initiator, trickle: false, stream: stream || undefined, config: iceConfig,
+      sdpTransform: tuneFilmSdp
     });
 
-
-    peer.on('signal', async (signal) => {
-      console.log('[MediaStreaming] Signal generated:', (signal as any)?.type ?? 'signal');
-
+    peer.on('signal', async (signal: unknown) => {
       if (!roomId || !user?.id) return;
-
       try {
-        // Store each signal as a row. We clean old rows at stream/join start,
-        // which avoids clearing mid-handshake.
         await supabase.from('rtc_signaling').insert({
-          room_id: roomId,
-          room_code: roomCode || roomId.substring(0, 6),
-          sender: user.id,
-          type: 'stream_signal',
-          payload: { signal, isStreamer: initiator }
+          room_id: roomId, room_code: roomCode || roomId.substring(0, 6),
+          sender: user.id, type: 'media_stream',
+          payload: { signal, streamId: streamIdRef.current, isStreamer: initiator } as unknown as Json
         });
-      } catch (error) {
-        console.error('[MediaStreaming] Failed to send signal:', error);
-      }
+      } catch (error) { console.error('[Streaming] Signal failed:', error); }
     });
 
-    peer.on('stream', (remoteStream) => {
-      console.log('[MediaStreaming] Received remote stream');
-      setRemoteStream(remoteStream);
-      setState(prev => ({
-        ...prev,
-        isReceiving: true,
-        connectionState: 'connected'
-      }));
-      
-      if (remoteVideoRef.current) {
-        remoteVideoRef.current.srcObject = remoteStream;
-        remoteVideoRef.current.play().catch(e => {
-          console.log('[MediaStreaming] Autoplay blocked:', e);
-        });
-      }
-      
-      toast({
-        title: "Partner is streaming! 🎬",
-        description: "Live video sync active"
-      });
+    peer.on('stream', (incomingStream: MediaStream) => {
+      console.log('[Streaming] ✅ Received remote stream');
+      setRemoteStream(incomingStream);
+      setState(prev => ({ ...prev, isReceiving: true, connectionState: 'connected' }));
+      toast({ title: "Partner is streaming! 🎬", description: "Your controls drive their player" });
     });
 
-    peer.on('connect', () => {
-      console.log('[MediaStreaming] Peer connected');
-      setState(prev => ({
-        ...prev,
-        connectionState: 'connected'
-      }));
+    peer.on('data', (data: unknown) => {
+      const message = parseStreamMessage(data);
+      if (!message) return;
+      if (message.type === 'control') applyControl(message);
+      else setRemotePlayback({ currentTime: message.currentTime, duration: message.duration, paused: message.paused });
     });
 
+    peer.on('connect', () => {
+      setState(prev => ({ ...prev, connectionState: 'connected' }));
+      if (!initiator) return;
+      const pc = (peer as unknown as PeerInternals)._pc;
+      if (pc) applyFilmEncoding(pc).catch((error) => console.warn('[Streaming] Could not raise bitrate:', error));
+      startPositionReports();
+    });
+    // A peer we already replaced or cleaned up closing late must not take the current one with it
     peer.on('close', () => {
-      console.log('[MediaStreaming] Peer closed');
-      cleanup();
+      if (isCleaningUpRef.current || peerRef.current !== peer) return;
+      cleanupPeer();
+      // Still streaming: the partner dropped or reloaded, so offer them a fresh connection
+      if (initiator && isStreamingRef.current) {
+        reofferRef.current();
+        return;
+      }
+      setRemoteStream(null); setRemotePlayback(null);
+      setState(prev => ({ ...prev, isReceiving: false, connectionState: 'idle' }));
+    });
+    peer.on('error', (err: Error) => {
+      console.error('[Streaming] Peer error:', err);
+      if (isCleaningUpRef.current || peerRef.current !== peer) return;
+      cleanupPeer();
+      if (initiator && isStreamingRef.current) {
+        reofferRef.current();
+        return;
+      }
+      toast({ title: "Streaming Error", description: "Connection failed. Try again.", variant: "destructive" });
+      setState(prev => ({ ...prev, connectionState: 'failed' }));
     });
 
-    peer.on('error', (err) => {
-      console.error('[MediaStreaming] Peer error:', err);
+    return peer;
+  }, [roomId, roomCode, user?.id, cleanupPeer, applyControl, startPositionReports]);
 
-      toast({
-        title: "Streaming Error",
-        description: "Connection failed. Try again.",
-        variant: "destructive"
-      });
+  // Host: a new peer under a new stream id, announced so a partner who is here joins it
+  const offerStream = useCallback(async () => {
+    const stream = streamRef.current;
+    if (!user?.id || !roomId || !stream) return;
 
-      // Reset UI so we don't end up with a blank "receiving" state.
-      cleanup();
-    });
+    cleanupPeer();
+    const streamId = generateStreamId();
+    streamIdRef.current = streamId;
+    setState(prev => ({ ...prev, connectionState: 'connecting' }));
 
-    return peer;
-  }, [roomId, roomCode, user?.id, cleanup]);
+    try {
+      await supabase.from('rtc_signaling').delete().eq('room_id', roomId).eq('sender', user.id).eq('type', 'media_stream');
+    } catch { /* stale rows are filtered by streamId anyway */ }
 
-  // Start streaming local video
-  const startStreaming = useCallback(async (videoElement: HTMLVideoElement) => {
-    if (!user?.id || !roomId || !enabled) {
-      console.log('[MediaStreaming] Cannot start - missing requirements');
-      return false;
+    await channelRef.current?.send({ type: 'broadcast', event: 'stream_start', payload: { streamerId: user.id, streamId } });
+    const peer = await createPeer(true, stream);
+    // Stopped, or offered again, while the peer was being made
+    if (!isStreamingRef.current || streamIdRef.current !== streamId) {
+      try { peer.destroy(); } catch { /* already closed */ }
+      return;
     }
-    
+    peerRef.current = peer;
+  }, [user?.id, roomId, cleanupPeer, generateStreamId, createPeer]);
+
+  reofferRef.current = () => {
+    console.log('[Streaming] Partner connection closed, offering the stream again');
+    offerStream().catch((error) => console.error('[Streaming] Failed to offer again:', error));
+  };
+
+  const startStreaming = useCallback(async (videoElement: HTMLVideoElement): Promise<boolean> => {
+    if (!user?.id || !roomId || !enabled) return false;
+
     cleanup();
+    const capture = captureVideoStream(videoElement);
+    if ('failure' in capture) {
+      console.warn('[Streaming] Capture failed:', capture.failure);
+      setCaptureFailure(capture.failure);
+      toast({ title: "Can't stream this video", description: CAPTURE_FAILURE_MESSAGES[capture.failure], variant: "destructive" });
+      return false;
+    }
+    setCaptureFailure(null);
+    markFilmTracks(capture.stream);
+    streamRef.current = capture.stream;
     localVideoRef.current = videoElement;
-    
-    setState(prev => ({
-      ...prev,
-      isStreaming: true,
-      connectionState: 'connecting',
-      streamerId: user.id
-    }));
-    
-    try {
-      // Capture video element stream (includes audio)
-      // captureStream is not in standard types but is widely supported
-      const videoEl = videoElement as HTMLVideoElement & {
-        captureStream?: () => MediaStream;
-        mozCaptureStream?: () => MediaStream;
-      };
-      
-      const capturedStream = videoEl.captureStream?.() ?? videoEl.mozCaptureStream?.();
-      
-      if (!capturedStream) {
-        throw new Error('captureStream not supported in your browser');
-      }
-      
-      console.log('[MediaStreaming] Captured stream:', capturedStream.getTracks().map(t => t.kind));
-      streamRef.current = capturedStream;
 
-      // Clear our previous signals so the receiver doesn't apply stale offers.
-      try {
-        await supabase
-          .from('rtc_signaling')
-          .delete()
-          .eq('room_id', roomId)
-          .eq('sender', user.id)
-          .eq('type', 'stream_signal');
-      } catch (e) {
-        console.warn('[MediaStreaming] Failed to clear old signals (non-fatal):', e);
-      }
-      
-      // Broadcast that we're starting to stream
-      if (channelRef.current) {
-        await channelRef.current.send({
-          type: 'broadcast',
-          event: 'stream_start',
-          payload: { streamerId: user.id }
-        });
-      }
-      
-      // Create peer as initiator with stream
-      peerRef.current = createPeer(true, capturedStream);
-      
-      toast({
-        title: "Streaming Started! 📡",
-        description: "Your video is now being shared with your partner"
-      });
-      
+    isStreamingRef.current = true;
+    setState(prev => ({ ...prev, isStreaming: true, connectionState: 'connecting', streamerId: user.id }));
+
+    try {
+      await offerStream();
       return true;
     } catch (error) {
-      console.error('[MediaStreaming] Failed to start streaming:', error);
+      console.error('[Streaming] Failed to start:', error);
       cleanup();
-      
-      toast({
-        title: "Streaming Failed",
-        description: error instanceof Error ? error.message : "Could not capture video",
-        variant: "destructive"
-      });
-      
+      toast({ title: "Streaming Failed", description: error instanceof Error ? error.message : "Could not connect", variant: "destructive" });
       return false;
     }
-  }, [user?.id, roomId, enabled, cleanup, createPeer]);
+  }, [user?.id, roomId, enabled, cleanup, offerStream]);
 
-  // Stop streaming
   const stopStreaming = useCallback(async () => {
-    console.log('[MediaStreaming] Stopping stream');
-    
-    if (channelRef.current) {
-      await channelRef.current.send({
-        type: 'broadcast',
-        event: 'stream_stop',
-        payload: { streamerId: user?.id }
-      });
+    if (user?.id) {
+      try {
+        await channelRef.current?.send({ type: 'broadcast', event: 'stream_stop', payload: { streamerId: user.id } });
+      } catch { /* the partner's peer closes anyway */ }
     }
-    
     cleanup();
-    
-    toast({
-      title: "Streaming Stopped",
-      description: "Your video is no longer being shared"
-    });
   }, [user?.id, cleanup]);
 
-  // Join as receiver
-  const joinStream = useCallback(async (streamerId: string) => {
-    if (!user?.id || !roomId || user.id === streamerId) return;
-    
-    console.log('[MediaStreaming] Joining stream from:', streamerId);
-    
-    setState(prev => ({
-      ...prev,
-      isReceiving: true,
-      connectionState: 'connecting',
-      streamerId
-    }));
-    
-    // Clear our previous receiver signals (prevents stale answers)
+  const toggleStreaming = useCallback(async (videoElement: HTMLVideoElement): Promise<boolean> => {
+    if (isStreamingRef.current) { await stopStreaming(); return false; }
+    return await startStreaming(videoElement);
+  }, [startStreaming, stopStreaming]);
+
+  /** Partner: play, pause or seek the host's player. False when not connected. */
+  const sendControl = useCallback((control: StreamControl) => sendMessage(control), [sendMessage]);
+
+  const joinStream = useCallback(async (streamerId: string, streamId: string) => {
+    if (!user?.id || !roomId || user.id === streamerId || isStreamingRef.current) return;
+
+    cleanupPeer();
+    streamIdRef.current = streamId;
+    setState(prev => ({ ...prev, isReceiving: true, connectionState: 'connecting', streamerId }));
+
     try {
-      await supabase
-        .from('rtc_signaling')
-        .delete()
-        .eq('room_id', roomId)
-        .eq('sender', user.id)
-        .eq('type', 'stream_signal');
-    } catch (e) {
-      console.warn('[MediaStreaming] Failed to clear old signals (non-fatal):', e);
-    }
+      await supabase.from('rtc_signaling').delete().eq('room_id', roomId).eq('sender', user.id).eq('type', 'media_stream');
+    } catch { /* stale rows are filtered by streamId anyway */ }
+
+    peerRef.current = await createPeer(false);
 
-    // Create peer as receiver (non-initiator)
-    peerRef.current = createPeer(false);
-    
-    // Get the streamer's signals
     try {
-      const { data: signals } = await supabase
-        .from('rtc_signaling')
-        .select('*')
-        .eq('room_id', roomId)
-        .eq('sender', streamerId)
-        .eq('type', 'stream_signal')
+      const { data: signals } = await supabase.from('rtc_signaling').select('*')
+        .eq('room_id', roomId).eq('sender', streamerId).eq('type', 'media_stream')
         .order('created_at', { ascending: true });
-      
-      if (signals && signals.length > 0) {
-        for (const sig of signals) {
-          const payload = sig.payload as any;
-          if (payload?.signal && peerRef.current) {
-            console.log('[MediaStreaming] Applying stored signal');
-            try {
-              peerRef.current.signal(payload.signal);
-            } catch {}
-          }
+
+      for (const sig of signals || []) {
+        const payload = sig.payload as StreamSignalPayload | null;
+        if (payload?.signal && payload.streamId === streamId && peerRef.current) {
+          try { peerRef.current.signal(payload.signal); } catch { /* duplicate */ }
         }
       }
-    } catch (error) {
-      console.error('[MediaStreaming] Failed to fetch signals:', error);
-    }
-  }, [user?.id, roomId, createPeer]);
+    } catch (error) { console.error('[Streaming] Failed to fetch signals:', error); }
+  }, [user?.id, roomId, cleanupPeer, createPeer]);
 
-  // Subscribe to streaming events and signals
   useEffect(() => {
     if (!roomId || !user?.id || !enabled) return;
-    
-    console.log('[MediaStreaming] Setting up channels for room:', roomId);
-    
-    // Broadcast channel for stream events
-    const broadcastChannel = supabase
-      .channel(`stream_broadcast_${roomId}`)
-      .on('broadcast', { event: 'stream_start' }, async (payload) => {
-        const { streamerId } = payload.payload;
-        if (streamerId === user.id) return;
-        
-        console.log('[MediaStreaming] Partner started streaming:', streamerId);
-        
-        // Auto-join the stream
-        await joinStream(streamerId);
+
+    const channel = supabase.channel(`stream_${roomId}`)
+      .on('broadcast', { event: 'stream_start' }, async ({ payload }) => {
+        if (payload.streamerId === user.id) return;
+        await joinStream(payload.streamerId, payload.streamId);
       })
-      .on('broadcast', { event: 'stream_stop' }, (payload) => {
-        const { streamerId } = payload.payload;
-        if (streamerId === user.id) return;
-        
-        console.log('[MediaStreaming] Partner stopped streaming');
-        
-        // Only cleanup remote stream state, don't affect local player
-        if (peerRef.current) {
-          try { peerRef.current.destroy(); } catch {}
-          peerRef.current = null;
-        }
-        
-        setRemoteStream(null);
-        setState(prev => ({
-          ...prev,
-          isReceiving: false,
-          connectionState: 'idle',
-          streamerId: null
-        }));
-        
-        toast({
-          title: "Stream Ended",
-          description: "Partner stopped sharing their video"
-        });
+      // A partner who just opened the room; an offer they could still use is only on a peer that hasn't connected
+      .on('broadcast', { event: 'stream_request' }, () => {
+        if (isStreamingRef.current && !peerRef.current?.connected) reofferRef.current();
       })
-      .subscribe();
-    
-    channelRef.current = broadcastChannel;
-    
-    // DB channel for signaling
-    const signalingChannel = supabase
-      .channel(`stream_signals_${roomId}`)
-      .on('postgres_changes', {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'rtc_signaling',
-        filter: `room_id=eq.${roomId}`
-      }, (payload) => {
+      .on('broadcast', { event: 'stream_stop' }, ({ payload }) => {
+        if (payload.streamerId === user.id) return;
+        cleanupPeer(); setRemoteStream(null); setRemotePlayback(null);
+        setState(prev => ({ ...prev, isReceiving: false, connectionState: 'idle', streamerId: null }));
+        toast({ title: "Stream Ended", description: "Partner stopped sharing their video" });
+      })
+      .subscribe((status) => {
+        // Ask a streaming partner for a fresh offer rather than relying on an old one
+        if (status === 'SUBSCRIBED') channel.send({ type: 'broadcast', event: 'stream_request', payload: { from: user.id } });
+      });
+    channelRef.current = channel;
+
+    const dbChannel = supabase.channel(`stream_db_${roomId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'rtc_signaling', filter: `room_id=eq.${roomId}` }, (payload) => {
         const signal = payload.new;
-        
-        if (signal.sender === user.id) return;
-        if (signal.type !== 'stream_signal') return;
-        
-        const signalData = signal.payload as any;
+        if (signal.sender === user.id || signal.type !== 'media_stream') return;
+        const signalData = signal.payload as StreamSignalPayload | null;
         if (!signalData?.signal) return;
-        
-        console.log('[MediaStreaming] Received signal from DB');
-        
-        // If we're streaming and this is from a receiver, or vice versa
+
         if (peerRef.current) {
-          try {
-            peerRef.current.signal(signalData.signal);
-          } catch (e) {
-            console.log('[MediaStreaming] Signal error (may be duplicate):', e);
-          }
-        } else if (!state.isStreaming && signalData.isStreamer) {
-          // Someone started streaming, join them
-          joinStream(signal.sender);
+          if (signalData.streamId !== streamIdRef.current) return;
+          try { peerRef.current.signal(signalData.signal); } catch { /* duplicate */ }
+        } else if (!isStreamingRef.current && signalData.isStreamer && signalData.streamId) {
+          joinStream(signal.sender, signalData.streamId);
         }
       })
       .subscribe();
-    
-    // Check for existing streamer on mount
+
+    // Join a stream that started before we opened the room
     const checkExistingStream = async () => {
       try {
-        const { data } = await supabase
-          .from('rtc_signaling')
-          .select('*')
-          .eq('room_id', roomId)
-          .eq('type', 'stream_signal')
-          .neq('sender', user.id)
-          .order('created_at', { ascending: false })
-          .limit(1);
-        
-        if (data && data.length > 0) {
-          const latestSignal = data[0];
-          const payload = latestSignal.payload as any;
-          
-          // Check if signal is recent (within 30 seconds)
-          const signalTime = new Date(latestSignal.created_at).getTime();
-          const now = Date.now();
-          
-          if (now - signalTime < 30000 && payload?.isStreamer) {
-            console.log('[MediaStreaming] Found existing streamer:', latestSignal.sender);
-            await joinStream(latestSignal.sender);
-          }
+        const { data } = await supabase.from('rtc_signaling').select('*')
+          .eq('room_id', roomId).eq('type', 'media_stream').neq('sender', user.id)
+          .order('created_at', { ascending: false }).limit(1);
+
+        const latest = data?.[0];
+        const payload = latest?.payload as StreamSignalPayload | null;
+        if (latest && Date.now() - new Date(latest.created_at).getTime() < STALE_OFFER_MS && payload?.isStreamer && payload.streamId) {
+          await joinStream(latest.sender, payload.streamId);
         }
       } catch (error) {
-        console.error('[MediaStreaming] Error checking existing stream:', error);
+        console.error('[Streaming] Error checking existing stream:', error);
       }
     };
-    
     checkExistingStream();
-    
+
     return () => {
-      supabase.removeChannel(broadcastChannel);
-      supabase.removeChannel(signalingChannel);
+      supabase.removeChannel(channel);
+      supabase.removeChannel(dbChannel);
+      channelRef.current = null;
       cleanup();
     };
-  }, [roomId, user?.id, enabled, cleanup, joinStream, state.isStreaming]);
-
-  // Sync playback state for streamer
-  const syncPlaybackState = useCallback((currentTime: number, isPlaying: boolean) => {
-    if (!channelRef.current || !state.isStreaming) return;
-    
-    channelRef.current.send({
-      type: 'broadcast',
-      event: 'stream_playback',
-      payload: { currentTime, isPlaying }
-    });
-  }, [state.isStreaming]);
+  }, [roomId, user?.id, enabled, joinStream, cleanupPeer, cleanup]);
 
   return {
-    // State
     isStreaming: state.isStreaming,
     isReceiving: state.isReceiving,
     connectionState: state.connectionState,
     streamerId: state.streamerId,
     remoteStream,
-    
-    // Refs
-    remoteVideoRef,
-    
-    // Actions
+    remotePlayback,
+    captureFailure,
     startStreaming,
     stopStreaming,
-    syncPlaybackState,
+    toggleStreaming,
+    sendControl,
     cleanup
   };
 };
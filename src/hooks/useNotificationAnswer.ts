@@ -0,0 +1,47 @@
+import { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import type { CallController } from './useCallManager';
+import { ANSWER_CALL_PARAM, parsePushWorkerMessage } from '@/lib/notifications/push';
+
+// Long enough for the room to load and the pending invite to start ringing
+const ANSWER_WINDOW_MS = 30000;
+
+/**
+ * Acts on a call notification: answers once that call rings here, whether
+ * the click opened this room or focused it, or declines it.
+ */
+export const useNotificationAnswer = (call: CallController) => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [pendingAnswer, setPendingAnswer] = useState<string | null>(() => searchParams.get(ANSWER_CALL_PARAM));
+  const { callState, incomingCall, acceptCall, declineCall } = call;
+
+  // Keep a reload from answering again
+  useEffect(() => {
+    if (!searchParams.has(ANSWER_CALL_PARAM)) return;
+    const next = new URLSearchParams(searchParams);
+    next.delete(ANSWER_CALL_PARAM);
+    setSearchParams(next, { replace: true });
+  }, [searchParams, setSearchParams]);
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+    const handleMessage = (event: MessageEvent) => {
+      const message = parsePushWorkerMessage(event.data);
+      if (message?.type === 'answer_call') setPendingAnswer(message.callId);
+      else if (message?.type === 'decline_call' && incomingCall?.callId === message.callId) declineCall();
+    };
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [incomingCall, declineCall]);
+
+  useEffect(() => {
+    if (!pendingAnswer) return;
+    if (callState === 'ringing' && incomingCall?.callId === pendingAnswer) {
+      setPendingAnswer(null);
+      acceptCall();
+      return;
+    }
+    const timer = window.setTimeout(() => setPendingAnswer(null), ANSWER_WINDOW_MS);
+    return () => clearTimeout(timer);
+  }, [pendingAnswer, callState, incomingCall, acceptCall]);
+};
@@ -0,0 +1,50 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from './useAuth';
+import { toast } from '@/hooks/use-toast';
+import {
+  getPushSubscription,
+  isPushConfigured,
+  isPushSupported,
+  subscribeToPush,
+  unsubscribeFromPush
+} from '@/lib/notifications/push';
+
+/** Whether this browser gets call notifications, and the switch for it. */
+export const usePushNotifications = () => {
+  const { user } = useAuth();
+  const [supported] = useState(isPushSupported);
+  const [enabled, setEnabled] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [permission, setPermission] = useState<NotificationPermission>(
+    () => (typeof Notification !== 'undefined' ? Notification.permission : 'default')
+  );
+
+  useEffect(() => {
+    if (!supported) return;
+    getPushSubscription()
+      .then((subscription) => setEnabled(!!subscription && Notification.permission === 'granted'))
+      .catch(() => setEnabled(false));
+  }, [supported]);
+
+  const setPushEnabled = useCallback(async (next: boolean) => {
+    if (!user || !supported) return;
+    setBusy(true);
+    try {
+      if (next) await subscribeToPush(user.id);
+      else await unsubscribeFromPush();
+      setEnabled(next);
+    } catch (error) {
+      console.error('[Push] Could not update subscription:', error);
+      toast({
+        title: next ? 'Could not turn on notifications' : 'Could not turn off notifications',
+        description: error instanceof Error ? error.message : 'Please try again',
+        variant: 'destructive'
+      });
+    } finally {
+      setPermission(Notification.permission);
+      setBusy(false);
+    }
+  }, [user, supported]);
+
+  return { supported, configured: isPushConfigured(), enabled, busy, permission, setPushEnabled };
+};
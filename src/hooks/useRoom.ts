@@ -63,18 +63,7 @@ export const useRoom = (roomId?: string) => {
 
       console.log('Room created successfully:', data);
 
-      const { error: playbackError } = await supabase
-        .from('playback_state')
-        .insert({
-          room_id: data.id,
-          current_time_seconds: 0,
-          is_playing: false,
-          last_updated_by: user.id
-        });
-
-      if (playbackError) {
-        console.error('Playback state creation error:', playbackError);
-      }
+      // playback_state is created by the first write_playback_state call
 
       setRoom(data);
       toast({
@@ -182,25 +171,6 @@ export const useRoom = (roomId?: string) => {
     }
   };
 
-  const updatePlaybackState = async (updates: Partial<PlaybackState>) => {
-    if (!room || !user) return;
-
-    try {
-      const { error } = await supabase
-        .from('playback_state')
-        .update({
-          ...updates,
-          last_updated_by: user.id,
-          updated_at: new Date().toISOString()
-        })
-        .eq('room_id', room.id);
-
-      if (error) throw error;
-    } catch (error: any) {
-      console.error('Error updating playback state:', error);
-    }
-  };
-
   const fetchRoom = useCallback(async (identifier: string) => {
     if (!user) return null;
     
@@ -301,7 +271,6 @@ export const useRoom = (roomId?: string) => {
     loading,
     createRoom,
     joinRoom,
-    updatePlaybackState,
     fetchRoom,
     fetchPlaybackState,
     setRoom,
@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 
@@ -9,10 +9,22 @@ interface PresenceUser {
   status: 'watching' | 'buffering' | 'paused' | 'idle';
 }
 
-export const useRoomPresence = (roomId: string) => {
+interface UseRoomPresenceOptions {
+  /** Called when another user's last presence leaves the room (not just one of their tabs). */
+  onLeave?: (user: PresenceUser) => void;
+}
+
+/**
+ * Presence for a room. Mount it once per room (Room does): supabase-js hands
+ * every subscriber of a topic the same channel, so a second instance's
+ * cleanup would tear down the first one's presence.
+ */
+export const useRoomPresence = (roomId: string, { onLeave }: UseRoomPresenceOptions = {}) => {
   const { user } = useAuth();
   const [presenceUsers, setPresenceUsers] = useState<PresenceUser[]>([]);
   const [partnerJoined, setPartnerJoined] = useState(false);
+  const onLeaveRef = useRef(onLeave);
+  onLeaveRef.current = onLeave;
 
   useEffect(() => {
     if (!roomId || !user) return;
@@ -38,9 +50,13 @@ export const useRoomPresence = (roomId: string) => {
       .on('presence', { event: 'leave' }, ({ key, leftPresences }) => {
         console.log('User left:', key, leftPresences);
         const leftUser = leftPresences[0] as unknown as PresenceUser;
-        if (leftUser?.user_id !== user.id) {
-          setPartnerJoined(false);
-        }
+        if (!leftUser || leftUser.user_id === user.id) return;
+        // Closing one of several tabs only drops that tab's presence
+        const stillHere = Object.values(channel.presenceState<PresenceUser>()).flat()
+          .some((presence) => presence.user_id === leftUser.user_id);
+        if (stillHere) return;
+        setPartnerJoined(false);
+        onLeaveRef.current?.(leftUser);
       })
       .subscribe(async (status) => {
         if (status === 'SUBSCRIBED') {
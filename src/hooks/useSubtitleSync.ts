@@ -1,155 +1,274 @@
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useState, useRef, useCallback, useMemo } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { toast } from '@/hooks/use-toast';
+import {
+  activeCues,
+  detectSubtitleFormat,
+  loadSubtitleDisplay,
+  parseSubtitles,
+  saveSubtitleDisplay,
+  subtitleLanguage,
+  type SubtitleCue,
+  type SubtitleDisplaySettings,
+  type SubtitleFormat
+} from '@/lib/media/subtitles';
 
-interface Subtitle {
-  index: number;
-  startTime: number;
-  endTime: number;
-  text: string;
+const SUBTITLE_BUCKET = 'shared-files';
+
+export interface SubtitleTrack {
+  id: string;
+  name: string;
+  format: SubtitleFormat;
+  lang: string | null;
+  /** Public URL of a file shared with the room; null for a file opened just for us. */
+  url: string | null;
+  /** Who shared it; null for our own local file. */
+  uploaderId: string | null;
 }
 
+// Reads a file and checks it has cues; null (after telling the user) when it doesn't
+const readSubtitleFile = async (file: File) => {
+  const text = await file.text();
+  const format = detectSubtitleFormat(file.name, text);
+  const parsed = format ? parseSubtitles(text, format) : [];
+  if (!format || parsed.length === 0) {
+    toast({
+      title: 'Invalid Subtitle File',
+      description: 'Please choose a .srt, .vtt, .ass or .ssa file with subtitles in it',
+      variant: 'destructive'
+    });
+    return null;
+  }
+  return { format, parsed };
+};
+
 interface UseSubtitleSyncProps {
   roomId: string;
   currentTime: number;
 }
 
+/**
+ * Subtitles for the room's player. Files either partner shares are offered
+ * to both, and each partner picks which one to show (or a file of their own),
+ * along with their own delay and look. Timing follows the synced video.
+ */
 export const useSubtitleSync = ({ roomId, currentTime }: UseSubtitleSyncProps) => {
-  const [subtitles, setSubtitles] = useState<Subtitle[]>([]);
-  const [currentSubtitle, setCurrentSubtitle] = useState<string>('');
-  const [subtitleUrl, setSubtitleUrl] = useState<string>('');
-  const channelRef = useRef<any>(null);
-
-  // Parse SRT format
-  const parseSRT = (srtText: string): Subtitle[] => {
-    const blocks = srtText.trim().split(/\n\n+/);
-    return blocks.map((block) => {
-      const lines = block.split('\n');
-      if (lines.length < 3) return null;
-
-      const index = parseInt(lines[0]);
-      const timeMatch = lines[1].match(/(\d{2}):(\d{2}):(\d{2}),(\d{3}) --> (\d{2}):(\d{2}):(\d{2}),(\d{3})/);
-      
-      if (!timeMatch) return null;
-
-      const startTime = 
-        parseInt(timeMatch[1]) * 3600 +
-        parseInt(timeMatch[2]) * 60 +
-        parseInt(timeMatch[3]) +
-        parseInt(timeMatch[4]) / 1000;
-
-      const endTime = 
-        parseInt(timeMatch[5]) * 3600 +
-        parseInt(timeMatch[6]) * 60 +
-        parseInt(timeMatch[7]) +
-        parseInt(timeMatch[8]) / 1000;
-
-      const text = lines.slice(2).join('\n');
-
-      return { index, startTime, endTime, text };
-    }).filter((sub): sub is Subtitle => sub !== null);
-  };
+  const { user } = useAuth();
+  const [tracks, setTracks] = useState<SubtitleTrack[]>([]);
+  const [selectedTrackId, setSelectedTrackId] = useState<string | null>(null);
+  const [cues, setCues] = useState<SubtitleCue[]>([]);
+  const [delay, setDelay] = useState(0);
+  const [display, setDisplay] = useState<SubtitleDisplaySettings>(loadSubtitleDisplay);
+  const [uploading, setUploading] = useState(false);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  // Parsed files by track id, so switching back is instant and local files need no URL
+  const parsedRef = useRef(new Map<string, SubtitleCue[]>());
+  const selectingRef = useRef<string | null>(null);
 
-  // Parse VTT format
-  const parseVTT = (vttText: string): Subtitle[] => {
-    const lines = vttText.split('\n');
-    const subtitles: Subtitle[] = [];
-    let currentIndex = 0;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      const timeMatch = line.match(/(\d{2}):(\d{2}):(\d{2})\.(\d{3}) --> (\d{2}):(\d{2}):(\d{2})\.(\d{3})/);
-      
-      if (timeMatch) {
-        const startTime = 
-          parseInt(timeMatch[1]) * 3600 +
-          parseInt(timeMatch[2]) * 60 +
-          parseInt(timeMatch[3]) +
-          parseInt(timeMatch[4]) / 1000;
-
-        const endTime = 
-          parseInt(timeMatch[5]) * 3600 +
-          parseInt(timeMatch[6]) * 60 +
-          parseInt(timeMatch[7]) +
-          parseInt(timeMatch[8]) / 1000;
-
-        // Get text lines until next blank line or timestamp
-        const textLines: string[] = [];
-        i++;
-        while (i < lines.length && lines[i].trim() && !lines[i].includes('-->')) {
-          textLines.push(lines[i].trim());
-          i++;
-        }
-
-        subtitles.push({
-          index: currentIndex++,
-          startTime,
-          endTime,
-          text: textLines.join('\n')
-        });
+  useEffect(() => {
+    saveSubtitleDisplay(display);
+  }, [display]);
+
+  const addTrack = useCallback((track: SubtitleTrack) => {
+    setTracks((prev) => (prev.some((existing) => existing.id === track.id) ? prev : [...prev, track]));
+  }, []);
+
+  const selectTrack = useCallback(async (track: SubtitleTrack | null) => {
+    selectingRef.current = track?.id ?? null;
+    setSelectedTrackId(track?.id ?? null);
+    if (!track) {
+      setCues([]);
+      return;
+    }
+
+    let parsed = parsedRef.current.get(track.id);
+    if (!parsed && track.url) {
+      try {
+        const response = await fetch(track.url);
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        parsed = parseSubtitles(await response.text(), track.format);
+        parsedRef.current.set(track.id, parsed);
+      } catch (error) {
+        console.error('[Subtitles] Failed to load', track.name, error);
+        toast({ title: "Couldn't load subtitles", description: track.name, variant: 'destructive' });
+        parsed = [];
       }
     }
+    // Another track may have been picked while this one loaded
+    if (selectingRef.current === track.id) setCues(parsed ?? []);
+  }, []);
 
-    return subtitles;
-  };
+  /** Shows a file just for us, without uploading it. */
+  const openLocalFile = useCallback(async (file: File) => {
+    const read = await readSubtitleFile(file);
+    if (!read) return;
 
-  // Load subtitle file
-  const loadSubtitles = async (url: string, format: 'srt' | 'vtt') => {
+    const track: SubtitleTrack = {
+      id: `local:${Date.now()}`,
+      name: file.name,
+      format: read.format,
+      lang: subtitleLanguage(file.name),
+      url: null,
+      uploaderId: null
+    };
+    parsedRef.current.set(track.id, read.parsed);
+    addTrack(track);
+    selectTrack(track);
+  }, [addTrack, selectTrack]);
+
+  /** Uploads a file for the room and shows it to us; the partner is offered it but keeps their own choice. */
+  const shareFile = useCallback(async (file: File) => {
+    if (!user) return;
+    const read = await readSubtitleFile(file);
+    if (!read) return;
+
+    setUploading(true);
     try {
-      const response = await fetch(url);
-      const text = await response.text();
-      
-      const parsed = format === 'srt' ? parseSRT(text) : parseVTT(text);
-      setSubtitles(parsed);
-      setSubtitleUrl(url);
+      const { data, error: uploadError } = await supabase.storage
+        .from(SUBTITLE_BUCKET)
+        .upload(`${roomId}/${Date.now()}_${file.name}`, file, {
+          contentType: file.type || 'text/plain',
+          upsert: false
+        });
+      if (uploadError) throw uploadError;
+
+      const { data: urlData } = supabase.storage.from(SUBTITLE_BUCKET).getPublicUrl(data.path);
+
+      // The row lets a partner who joins later find the file too
+      const { data: row, error: insertError } = await supabase
+        .from('shared_files')
+        .insert({
+          room_id: roomId,
+          uploader_id: user.id,
+          file_name: file.name,
+          storage_path: data.path,
+          file_size: file.size,
+          mime_type: file.type || 'text/plain',
+          upload_status: 'completed'
+        })
+        .select('id')
+        .single();
+      if (insertError) console.error('[Subtitles] Failed to record shared file:', insertError);
+
+      const track: SubtitleTrack = {
+        id: row?.id ?? data.path,
+        name: file.name,
+        format: read.format,
+        lang: subtitleLanguage(file.name),
+        url: urlData.publicUrl,
+        uploaderId: user.id
+      };
+      parsedRef.current.set(track.id, read.parsed);
+      addTrack(track);
+      selectTrack(track);
+
+      channelRef.current?.send({
+        type: 'broadcast',
+        event: 'subtitle_uploaded',
+        payload: track
+      });
+
+      toast({
+        title: 'Subtitles Shared',
+        description: 'Your partner can pick them from their subtitles menu'
+      });
     } catch (error) {
-      console.error('Error loading subtitles:', error);
-      setSubtitles([]);
+      console.error('[Subtitles] Upload failed:', error);
+      toast({
+        title: 'Upload Failed',
+        description: 'Could not upload subtitle file. Please try again.',
+        variant: 'destructive'
+      });
+    } finally {
+      setUploading(false);
     }
-  };
+  }, [roomId, user, addTrack, selectTrack]);
 
-  // Find current subtitle based on time
+  // Subtitles shared in this room before we arrived
   useEffect(() => {
-    if (subtitles.length === 0) {
-      setCurrentSubtitle('');
-      return;
-    }
+    if (!roomId) return;
+    let cancelled = false;
 
-    const current = subtitles.find(
-      sub => currentTime >= sub.startTime && currentTime <= sub.endTime
-    );
+    (async () => {
+      const { data, error } = await supabase
+        .from('shared_files')
+        .select('id, file_name, storage_path, uploader_id')
+        .eq('room_id', roomId)
+        .eq('upload_status', 'completed')
+        .order('created_at', { ascending: true });
+      if (error) {
+        console.error('[Subtitles] Failed to fetch shared subtitles:', error);
+        return;
+      }
+      if (cancelled) return;
 
-    setCurrentSubtitle(current?.text || '');
-  }, [currentTime, subtitles]);
+      for (const file of data ?? []) {
+        const format = detectSubtitleFormat(file.file_name);
+        if (!format) continue;
+        addTrack({
+          id: file.id,
+          name: file.file_name,
+          format,
+          lang: subtitleLanguage(file.file_name),
+          url: supabase.storage.from(SUBTITLE_BUCKET).getPublicUrl(file.storage_path).data.publicUrl,
+          uploaderId: file.uploader_id
+        });
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, addTrack]);
 
-  // Listen for subtitle uploads from partner
+  // Subtitles the partner shares while we watch are offered, not switched to
   useEffect(() => {
     if (!roomId) return;
 
     const channel = supabase.channel(`room_${roomId}`);
-    
-    channel.on('broadcast', { event: 'subtitle_uploaded' }, (payload: any) => {
-      const { url, format } = payload.payload;
-      loadSubtitles(url, format);
+
+    channel.on('broadcast', { event: 'subtitle_uploaded' }, ({ payload }) => {
+      const track = payload as Partial<SubtitleTrack>;
+      if (!track?.id || !track.name || !track.url || !track.format) return;
+      addTrack({
+        id: track.id,
+        name: track.name,
+        format: track.format,
+        lang: track.lang ?? null,
+        url: track.url,
+        uploaderId: track.uploaderId ?? null
+      });
+      toast({
+        title: 'New subtitles available',
+        description: `${track.name} — choose them from the subtitles menu`
+      });
     });
 
     channel.subscribe();
     channelRef.current = channel;
 
     return () => {
-      if (channelRef.current) {
-        supabase.removeChannel(channelRef.current);
-      }
+      supabase.removeChannel(channel);
+      channelRef.current = null;
     };
-  }, [roomId]);
+  }, [roomId, addTrack]);
+
+  const current = useMemo(() => activeCues(cues, currentTime, delay), [cues, currentTime, delay]);
 
   return {
-    currentSubtitle,
-    loadSubtitles,
-    clearSubtitles: () => {
-      setSubtitles([]);
-      setCurrentSubtitle('');
-      setSubtitleUrl('');
-    },
-    hasSubtitles: subtitles.length > 0
+    tracks,
+    selectedTrackId,
+    selectTrack,
+    activeCues: current,
+    delay,
+    setDelay,
+    display,
+    setDisplay,
+    uploading,
+    shareFile,
+    openLocalFile,
+    hasSubtitles: cues.length > 0
   };
 };
@@ -0,0 +1,596 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import {
+  SYNC_EVENT,
+  syncChannelName,
+  createSyncMessage,
+  parseSyncMessage,
+  type SyncState,
+  type SyncSourceType,
+  type LocalSyncState,
+  type RenditionLock
+} from '@/lib/sync/protocol';
+import { SYNC_HEARTBEAT_MS, projectSyncState, type ApplyResult } from '@/lib/sync/engine';
+import {
+  CLOCK_PING_INTERVAL_MS,
+  computeClockSample,
+  addClockSample,
+  estimateClock,
+  toLocalClock,
+  type ClockSample,
+  type ClockEstimate
+} from '@/lib/sync/clock';
+import {
+  BUFFER_MAX_WAIT_MS,
+  OPEN_BARRIER,
+  evaluateBarrier,
+  type BarrierState,
+  type BufferingPeers
+} from '@/lib/sync/barrier';
+import {
+  isControlMode,
+  isNewerControl,
+  canClaimControl,
+  canRequestControl,
+  HOST_CHECK_IN_MS,
+  HOST_GONE_AFTER_MS,
+  type ControlMode,
+  type ControlState
+} from '@/lib/sync/control';
+import { isStaleState, nextSeq, shouldPersist } from '@/lib/sync/persistence';
+
+interface UseSyncEngineProps {
+  roomId: string;
+  /** The creator hosts until the room's persisted control is loaded. */
+  isRoomCreator: boolean;
+  onSyncReceived?: (state: SyncState) => void;
+  /** A partner locked both players to a stream rendition, or released it (null). */
+  onRenditionLock?: (lock: RenditionLock | null, senderId: string) => void;
+  /** Hold the room while anyone buffers (enforced by the host). */
+  waitForEveryone?: boolean;
+  /** How long a stalled participant is waited for before being skipped. */
+  maxBufferWaitMs?: number;
+}
+
+export type SyncEngineStatus = 'synced' | 'syncing' | 'out_of_sync';
+export type SyncConnectionStatus = 'connected' | 'connecting' | 'disconnected';
+export type ControlRequestStatus = 'idle' | 'pending' | 'declined';
+
+/**
+ * Single playback sync engine for every player in a room.
+ * The host broadcasts state on one versioned channel; followers hand it
+ * to their player adapter via applySyncState. Peers also exchange clock
+ * pings so remote timestamps can be read in the local clock.
+ * Who hosts is negotiated on the same channel and persisted on the room.
+ */
+export const useSyncEngine = ({
+  roomId,
+  isRoomCreator,
+  onSyncReceived,
+  onRenditionLock,
+  waitForEveryone = true,
+  maxBufferWaitMs = BUFFER_MAX_WAIT_MS
+}: UseSyncEngineProps) => {
+  const { user } = useAuth();
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const heartbeatRef = useRef<number | null>(null);
+  const lastSyncRef = useRef<SyncState | null>(null);
+  const lastPersistedRef = useRef<SyncState | null>(null);
+  const seqRef = useRef(0);
+  const clockSamplesRef = useRef<Record<string, ClockSample[]>>({});
+  const clockEstimatesRef = useRef<Record<string, ClockEstimate>>({});
+  const localBufferingRef = useRef(false);
+  const onSyncReceivedRef = useRef(onSyncReceived);
+  onSyncReceivedRef.current = onSyncReceived;
+  const onRenditionLockRef = useRef(onRenditionLock);
+  onRenditionLockRef.current = onRenditionLock;
+
+  const [control, setControl] = useState<ControlState>({ hostId: null, mode: 'host_only', term: 0 });
+  const [incomingControlRequest, setIncomingControlRequest] = useState<string | null>(null);
+  const [controlRequestStatus, setControlRequestStatus] = useState<ControlRequestStatus>('idle');
+  const [syncStatus, setSyncStatus] = useState<SyncEngineStatus>('synced');
+  const [lastDrift, setLastDrift] = useState(0);
+  const [connectionStatus, setConnectionStatus] = useState<SyncConnectionStatus>('connecting');
+  const [clockEstimates, setClockEstimates] = useState<Record<string, ClockEstimate>>({});
+  const [bufferingPeers, setBufferingPeers] = useState<BufferingPeers>({});
+  const [barrier, setBarrier] = useState<BarrierState>(OPEN_BARRIER);
+  const [barrierTick, setBarrierTick] = useState(0);
+  const controlRef = useRef(control);
+  const controlLoadedRef = useRef(false);
+  const subscribedRef = useRef(false);
+  // Retries a host-left claim until the server agrees the host is gone
+  const hostLeftTimerRef = useRef<number | null>(null);
+
+  const setPeerBuffering = useCallback((peerId: string, buffering: boolean) => {
+    setBufferingPeers((prev) => {
+      if (buffering === peerId in prev) return prev;
+      const next = { ...prev };
+      if (buffering) next[peerId] = Date.now();
+      else delete next[peerId];
+      return next;
+    });
+  }, []);
+
+  const getClockOffset = useCallback((peerId: string) => clockEstimatesRef.current[peerId]?.offsetMs ?? 0, []);
+
+  const currentHostId = control.hostId ?? (isRoomCreator ? user?.id ?? null : null);
+  const isHost = !!user?.id && currentHostId === user.id;
+  // Read by channel handlers and broadcasts so a transfer takes effect before the next render
+  const isHostRef = useRef(isHost);
+  isHostRef.current = isHost;
+
+  const applyControl = useCallback((next: ControlState) => {
+    controlRef.current = next;
+    isHostRef.current = !!user?.id && next.hostId === user.id;
+    setControl(next);
+  }, [user?.id]);
+
+  const announceControl = useCallback(() => {
+    if (!user?.id || !channelRef.current) return;
+    const { mode, term } = controlRef.current;
+    channelRef.current.send({
+      type: 'broadcast',
+      event: SYNC_EVENT,
+      payload: createSyncMessage('host_announce', user.id, { hostId: user.id, mode, term })
+    });
+  }, [user?.id]);
+
+  // Load the room's persisted host and mode
+  useEffect(() => {
+    if (!roomId) return;
+    let cancelled = false;
+    controlLoadedRef.current = false;
+
+    supabase
+      .from('rooms')
+      .select('host_id, control_mode, control_epoch, creator_id')
+      .eq('id', roomId)
+      .single()
+      .then(({ data, error }) => {
+        if (cancelled) return;
+        controlLoadedRef.current = true;
+        // Something heard on the channel meanwhile may already be newer than the stored row
+        if (!error && data && data.control_epoch >= controlRef.current.term) {
+          applyControl({
+            hostId: data.host_id || data.creator_id,
+            mode: isControlMode(data.control_mode) ? data.control_mode : 'host_only',
+            term: data.control_epoch
+          });
+        }
+        if (isHostRef.current && subscribedRef.current) announceControl();
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [roomId, applyControl, announceControl]);
+
+  // Initialize channel
+  useEffect(() => {
+    if (!roomId || !user?.id) return;
+
+    let pingTimer: number | null = null;
+
+    const send = (payload: ReturnType<typeof createSyncMessage>) =>
+      channel.send({ type: 'broadcast', event: SYNC_EVENT, payload });
+
+    const channel = supabase
+      .channel(syncChannelName(roomId), {
+        config: { broadcast: { self: false } }
+      })
+      .on('broadcast', { event: SYNC_EVENT }, ({ payload }) => {
+        const receivedAt = Date.now();
+        const message = parseSyncMessage(payload);
+        if (!message || message.senderId === user.id) return;
+
+        switch (message.type) {
+          case 'state': {
+            // Only followers apply sync, and never an older state than the last one
+            if (isHostRef.current || isStaleState(message.state, lastSyncRef.current)) return;
+            const state = toLocalClock(message.state, getClockOffset(message.senderId));
+            console.log('[SyncEngine] Received:', {
+              time: state.currentTime.toFixed(2),
+              status: state.status
+            });
+            lastSyncRef.current = state;
+            onSyncReceivedRef.current?.(state);
+            break;
+          }
+          case 'host_announce':
+          case 'host_change': {
+            const incoming = { hostId: message.hostId, mode: message.mode, term: message.term };
+            if (isNewerControl(controlRef.current, incoming)) {
+              console.log('[SyncEngine] Control:', message.type, incoming);
+              if (message.hostId !== user.id && heartbeatRef.current) {
+                clearInterval(heartbeatRef.current);
+                heartbeatRef.current = null;
+              }
+              applyControl(incoming);
+              setControlRequestStatus('idle');
+              setIncomingControlRequest(null);
+            } else if (message.type === 'host_announce' && isHostRef.current && message.hostId !== user.id) {
+              // A stale claim from someone who just joined: tell them who hosts
+              announceControl();
+            }
+            break;
+          }
+          case 'control_request':
+            if (isHostRef.current && canRequestControl(controlRef.current.mode)) {
+              setIncomingControlRequest(message.senderId);
+            }
+            break;
+          case 'control_response':
+            if (message.to !== user.id) return;
+            // An accepted request is followed by host_change
+            if (!message.accepted) setControlRequestStatus('declined');
+            break;
+          case 'buffering':
+            setPeerBuffering(message.senderId, message.buffering);
+            break;
+          case 'rendition':
+            onRenditionLockRef.current?.(message.lock, message.senderId);
+            break;
+          case 'clock_ping':
+            send(createSyncMessage('clock_pong', user.id, {
+              to: message.senderId,
+              t0: message.t0,
+              t1: receivedAt,
+              t2: Date.now()
+            }));
+            break;
+          case 'clock_pong': {
+            if (message.to !== user.id) return;
+            const peerId = message.senderId;
+            const sample = computeClockSample(message.t0, message.t1, message.t2, receivedAt);
+            const samples = addClockSample(clockSamplesRef.current[peerId] ?? [], sample);
+            clockSamplesRef.current[peerId] = samples;
+            const estimate = estimateClock(samples);
+            if (estimate) {
+              clockEstimatesRef.current = { ...clockEstimatesRef.current, [peerId]: estimate };
+              setClockEstimates(clockEstimatesRef.current);
+            }
+            break;
+          }
+        }
+      })
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') {
+          setConnectionStatus('connected');
+          subscribedRef.current = true;
+          if (isHostRef.current && controlLoadedRef.current) announceControl();
+
+          const ping = () => send(createSyncMessage('clock_ping', user.id, { t0: Date.now() }));
+          ping();
+          if (pingTimer) clearInterval(pingTimer);
+          pingTimer = window.setInterval(ping, CLOCK_PING_INTERVAL_MS);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') {
+          subscribedRef.current = false;
+          setConnectionStatus('disconnected');
+        }
+      });
+
+    channelRef.current = channel;
+
+    return () => {
+      if (pingTimer) clearInterval(pingTimer);
+      if (heartbeatRef.current) {
+        clearInterval(heartbeatRef.current);
+        heartbeatRef.current = null;
+      }
+      channelRef.current = null;
+      subscribedRef.current = false;
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, user?.id, getClockOffset, setPeerBuffering, applyControl, announceControl]);
+
+  // Move control to `hostId` (and/or switch mode), persist it, and tell the room under the server's term.
+  // hostLeft claims control for ourselves after the host left; the server only allows it once the
+  // host has stopped checking in, so nothing changes locally until it agrees.
+  // Resolves to whether the change went through.
+  const changeControl = useCallback(async (hostId: string, mode: ControlMode, hostLeft = false) => {
+    if (!user?.id) return false;
+    const previous = controlRef.current;
+    // Act on our own claims right away, so the click that took control can drive the player
+    if (!hostLeft) applyControl({ hostId, mode, term: previous.term + 1 });
+
+    const { data, error } = await supabase.rpc('set_room_control', {
+      p_room_id: roomId,
+      p_host_id: hostId,
+      p_control_mode: mode,
+      p_host_left: hostLeft
+    });
+    if (error || !data) {
+      if (error?.message !== 'host_present') console.error('[SyncEngine] Failed to persist control:', error);
+      if (!hostLeft) applyControl(previous);
+      return false;
+    }
+
+    const next = {
+      hostId: data.host_id || data.creator_id,
+      mode: isControlMode(data.control_mode) ? data.control_mode : mode,
+      term: data.control_epoch
+    };
+    applyControl(next);
+    channelRef.current?.send({
+      type: 'broadcast',
+      event: SYNC_EVENT,
+      payload: createSyncMessage('host_change', user.id, next)
+    });
+    return true;
+  }, [user?.id, roomId, applyControl]);
+
+  // The host checks in while it holds control, which is how the server tells it hasn't left
+  useEffect(() => {
+    if (!roomId || !isHost) return;
+    const touch = () => {
+      supabase.rpc('touch_room_host', { p_room_id: roomId }).then(({ error }) => {
+        if (error) console.warn('[SyncEngine] Host check-in failed:', error);
+      });
+    };
+    touch();
+    const interval = window.setInterval(touch, HOST_CHECK_IN_MS);
+    return () => clearInterval(interval);
+  }, [roomId, isHost]);
+
+  // Host only: switch the room's control mode
+  const setControlMode = useCallback((mode: ControlMode) => {
+    if (!isHostRef.current || !user?.id || mode === controlRef.current.mode) return;
+    changeControl(user.id, mode);
+  }, [user?.id, changeControl]);
+
+  /**
+   * Shared mode: take control before acting on the player.
+   * Returns whether this client may drive playback afterwards.
+   */
+  const takeControl = useCallback(() => {
+    if (isHostRef.current) return true;
+    if (!user?.id || !canClaimControl(controlRef.current.mode)) return false;
+    changeControl(user.id, controlRef.current.mode);
+    return true;
+  }, [user?.id, changeControl]);
+
+  // Handoff mode: ask the host for control
+  const requestControl = useCallback(() => {
+    if (!user?.id || isHostRef.current || !canRequestControl(controlRef.current.mode)) return;
+    setControlRequestStatus('pending');
+    channelRef.current?.send({
+      type: 'broadcast',
+      event: SYNC_EVENT,
+      payload: createSyncMessage('control_request', user.id, {})
+    });
+  }, [user?.id]);
+
+  // Host: answer a pending request, handing control over on accept
+  const respondToControlRequest = useCallback((accepted: boolean) => {
+    const requesterId = incomingControlRequest;
+    if (!user?.id || !requesterId) return;
+    setIncomingControlRequest(null);
+
+    channelRef.current?.send({
+      type: 'broadcast',
+      event: SYNC_EVENT,
+      payload: createSyncMessage('control_response', user.id, { to: requesterId, accepted })
+    });
+    if (accepted && isHostRef.current) {
+      changeControl(requesterId, controlRef.current.mode);
+    }
+  }, [user?.id, incomingControlRequest, changeControl]);
+
+  // Presence leave: if the host is gone, whoever remains takes over once the server sees it gone too
+  const handlePeerLeft = useCallback((peerId: string) => {
+    if (!user?.id || peerId === user.id) return;
+    setPeerBuffering(peerId, false);
+    if (peerId !== controlRef.current.hostId) return;
+
+    console.log('[SyncEngine] Host left, taking control');
+    if (hostLeftTimerRef.current) clearTimeout(hostLeftTimerRef.current);
+    const selfId = user.id;
+    const deadline = Date.now() + HOST_GONE_AFTER_MS + HOST_CHECK_IN_MS;
+    const claim = async () => {
+      hostLeftTimerRef.current = null;
+      // Someone else took over meanwhile, or the host came back and said so
+      if (controlRef.current.hostId !== peerId) return;
+      if (await changeControl(selfId, controlRef.current.mode, true)) return;
+      if (Date.now() < deadline) hostLeftTimerRef.current = window.setTimeout(claim, HOST_CHECK_IN_MS);
+    };
+    claim();
+  }, [user?.id, setPeerBuffering, changeControl]);
+
+  useEffect(() => () => {
+    if (hostLeftTimerRef.current) clearTimeout(hostLeftTimerRef.current);
+  }, []);
+
+  // Broadcast sync state (host only)
+  const broadcastState = useCallback(async (state: LocalSyncState) => {
+    if (!channelRef.current || !user?.id || !isHostRef.current) return;
+
+    const updatedAt = Date.now();
+    seqRef.current = nextSeq(seqRef.current, updatedAt);
+    const fullState: SyncState = {
+      ...state,
+      hostId: user.id,
+      updatedAt,
+      epoch: controlRef.current.term,
+      seq: seqRef.current
+    };
+
+    try {
+      await channelRef.current.send({
+        type: 'broadcast',
+        event: SYNC_EVENT,
+        payload: createSyncMessage('state', user.id, { state: fullState })
+      });
+
+      // Persist for late joiners, only on transitions and checkpoints
+      if (!shouldPersist(lastPersistedRef.current, fullState)) return;
+      lastPersistedRef.current = fullState;
+
+      const { error } = await supabase.rpc('write_playback_state', {
+        p_room_id: roomId,
+        p_epoch: fullState.epoch,
+        p_seq: fullState.seq,
+        p_current_time: fullState.currentTime,
+        p_is_playing: fullState.status === 'play',
+        p_playback_rate: fullState.playbackRate,
+        p_updated_at: new Date(updatedAt).toISOString()
+      });
+      // Rejected as stale or not-host: someone else's state is authoritative
+      if (error) console.warn('[SyncEngine] Playback write rejected:', error.message);
+    } catch (error) {
+      console.error('[SyncEngine] Broadcast failed:', error);
+    }
+  }, [user?.id, roomId]);
+
+  const stopHeartbeat = useCallback(() => {
+    if (heartbeatRef.current) {
+      clearInterval(heartbeatRef.current);
+      heartbeatRef.current = null;
+    }
+  }, []);
+
+  // Broadcast now, then keep re-broadcasting while playing (host only)
+  const startHeartbeat = useCallback((getState: () => LocalSyncState) => {
+    if (!isHostRef.current) return;
+    stopHeartbeat();
+
+    // A heartbeat starts because playback did, even if the getter hasn't caught up yet
+    const first = getState();
+    broadcastState(first.status === 'pause' ? { ...first, status: 'play' } : first);
+    heartbeatRef.current = window.setInterval(() => {
+      const state = getState();
+      if (state.status !== 'pause') broadcastState(state);
+    }, SYNC_HEARTBEAT_MS);
+  }, [broadcastState, stopHeartbeat]);
+
+  // Tell the room our player stalled (waiting/stalled) or recovered (canplaythrough)
+  const reportBuffering = useCallback((buffering: boolean) => {
+    if (!user?.id || localBufferingRef.current === buffering) return;
+    localBufferingRef.current = buffering;
+    setPeerBuffering(user.id, buffering);
+    channelRef.current?.send({
+      type: 'broadcast',
+      event: SYNC_EVENT,
+      payload: createSyncMessage('buffering', user.id, { buffering })
+    });
+  }, [user?.id, setPeerBuffering]);
+
+  // Hold every player to the same stream rendition, or release them (null)
+  const shareRenditionLock = useCallback((lock: RenditionLock | null) => {
+    if (!user?.id) return;
+    channelRef.current?.send({
+      type: 'broadcast',
+      event: SYNC_EVENT,
+      payload: createSyncMessage('rendition', user.id, { lock })
+    });
+  }, [user?.id]);
+
+  // Stop waiting for whoever is currently buffering
+  const skipBuffering = useCallback(() => {
+    setBufferingPeers((prev) => Object.fromEntries(Object.keys(prev).map((id) => [id, 0])));
+  }, []);
+
+  // Re-evaluate the barrier whenever someone stalls/recovers, and when the next wait expires
+  useEffect(() => {
+    if (!waitForEveryone) {
+      setBarrier(OPEN_BARRIER);
+      return;
+    }
+
+    const next = evaluateBarrier(bufferingPeers, maxBufferWaitMs);
+    setBarrier(next);
+    if (next.nextExpiryAt === null) return;
+
+    const timer = window.setTimeout(
+      () => setBarrierTick((tick) => tick + 1),
+      Math.max(0, next.nextExpiryAt - Date.now())
+    );
+    return () => clearTimeout(timer);
+  }, [bufferingPeers, waitForEveryone, maxBufferWaitMs, barrierTick]);
+
+  // Record how far off the player was when it applied a state
+  const reportDrift = useCallback(({ drift, seeked, playbackRate }: ApplyResult) => {
+    const nudging = Math.abs(playbackRate - (lastSyncRef.current?.playbackRate || 1)) > 0.001;
+    setSyncStatus(seeked ? 'out_of_sync' : nudging ? 'syncing' : 'synced');
+    setLastDrift(drift);
+    if (seeked) console.log('[SyncEngine] Seeked to correct drift:', drift.toFixed(2));
+  }, []);
+
+  // Fetch initial state for late joiners
+  const fetchInitialState = useCallback(async (): Promise<SyncState | null> => {
+    try {
+      const [roomRes, playbackRes] = await Promise.all([
+        supabase
+          .from('rooms')
+          .select('current_media_url, current_media_type, creator_id')
+          .eq('id', roomId)
+          .single(),
+        supabase
+          .from('playback_state')
+          .select('*')
+          .eq('room_id', roomId)
+          .maybeSingle()
+      ]);
+
+      const playback = playbackRes.data;
+      if (!playback) return null;
+
+      // updated_at is stamped with the writer's clock
+      const hostId = playback.last_updated_by || roomRes.data?.creator_id || '';
+      const state = toLocalClock({
+        status: playback.is_playing ? 'play' : 'pause',
+        currentTime: playback.current_time_seconds || 0,
+        playbackRate: playback.playback_rate || 1,
+        sourceType: (roomRes.data?.current_media_type as SyncSourceType) || 'local',
+        sourceUrl: roomRes.data?.current_media_url || '',
+        updatedAt: new Date(playback.updated_at).getTime(),
+        hostId,
+        epoch: playback.epoch,
+        seq: playback.seq
+      }, getClockOffset(hostId));
+
+      // The stored row is authoritative: ignore broadcasts older than it, and write past it if we host
+      if (!isStaleState(state, lastSyncRef.current)) lastSyncRef.current = state;
+      lastPersistedRef.current = state;
+      seqRef.current = Math.max(seqRef.current, playback.seq);
+
+      return projectSyncState(state);
+    } catch (error) {
+      console.error('[SyncEngine] Failed to fetch initial state:', error);
+      return null;
+    }
+  }, [roomId, getClockOffset]);
+
+  return {
+    currentHostId,
+    isHost,
+    controlMode: control.mode,
+    incomingControlRequest,
+    controlRequestStatus,
+    syncStatus,
+    lastDrift,
+    connectionStatus,
+    clockEstimates,
+    barrier,
+
+    // Actions
+    broadcastState,
+    startHeartbeat,
+    stopHeartbeat,
+    reportDrift,
+    fetchInitialState,
+    getClockOffset,
+    reportBuffering,
+    skipBuffering,
+    shareRenditionLock,
+    setControlMode,
+    takeControl,
+    requestControl,
+    respondToControlRequest,
+    handlePeerLeft,
+
+    // State
+    lastSync: lastSyncRef.current
+  };
+};
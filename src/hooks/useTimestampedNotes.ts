@@ -0,0 +1,81 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { toast } from '@/hooks/use-toast';
+
+export interface TimestampNote {
+  id: string;
+  user_id: string;
+  room_id: string;
+  media_id: string | null;
+  timestamp: number;
+  content: string;
+  created_at: string;
+  user_name?: string | null;
+}
+
+/** Notes for the video that's playing (`mediaId`), kept live for both partners. */
+export const useTimestampedNotes = (roomId: string, mediaId: string | null) => {
+  const { user } = useAuth();
+  const [notes, setNotes] = useState<TimestampNote[]>([]);
+
+  const fetchNotes = useCallback(async () => {
+    let query = supabase
+      .from('timestamped_notes')
+      .select('*')
+      .eq('room_id', roomId);
+    query = mediaId ? query.eq('media_id', mediaId) : query.is('media_id', null);
+
+    const { data, error } = await query.order('timestamp', { ascending: true });
+    if (!error && data) {
+      setNotes(data);
+    }
+  }, [roomId, mediaId]);
+
+  useEffect(() => {
+    if (!roomId) return;
+    fetchNotes();
+
+    const channel = supabase
+      .channel(`notes:${roomId}`)
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'timestamped_notes',
+        filter: `room_id=eq.${roomId}`
+      }, () => {
+        fetchNotes();
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, fetchNotes]);
+
+  const addNote = useCallback(async (content: string, timestamp: number) => {
+    if (!content.trim() || !user) return false;
+
+    const { error } = await supabase
+      .from('timestamped_notes')
+      .insert({
+        room_id: roomId,
+        media_id: mediaId,
+        user_id: user.id,
+        timestamp: Math.floor(timestamp),
+        content,
+        user_name: user.email?.split('@')[0] || 'Anonymous'
+      });
+
+    if (error) {
+      toast({ title: 'Error adding note', description: error.message, variant: 'destructive' });
+      return false;
+    }
+    return true;
+  }, [roomId, mediaId, user]);
+
+  return {
+    notes,
+    addNote
+  };
+};
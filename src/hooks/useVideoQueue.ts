@@ -0,0 +1,237 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import { toast } from '@/hooks/use-toast';
+import {
+  AUTO_ADVANCE_COUNTDOWN_MS,
+  isRepeatMode,
+  moveItem,
+  nextRepeatMode,
+  pickNextItem,
+  type RepeatMode
+} from '@/lib/queue/playlist';
+
+export type QueueItemType = 'youtube' | 'vimeo' | 'url';
+
+export interface QueueItem {
+  id: string;
+  url: string;
+  title: string;
+  type: QueueItemType;
+  position: number;
+  added_by: string;
+}
+
+export interface UpNext {
+  item: QueueItem;
+  /** Local time the countdown ends. */
+  startsAt: number;
+}
+
+const UP_NEXT_EVENT = 'up_next';
+
+export const detectVideoType = (url: string): { type: QueueItemType; id: string } => {
+  if (url.includes('youtube.com') || url.includes('youtu.be')) {
+    const match = url.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&?/]+)/);
+    return { type: 'youtube', id: match?.[1] || url };
+  }
+  if (url.includes('vimeo.com')) {
+    const match = url.match(/vimeo\.com\/(?:video\/)?(\d+)/);
+    return { type: 'vimeo', id: match?.[1] || url };
+  }
+  return { type: 'url', id: url };
+};
+
+/**
+ * The room's playlist: queue rows, what's playing, shuffle/repeat, and the
+ * "up next" countdown, which the driving partner announces so both see it.
+ */
+export const useVideoQueue = (roomId: string) => {
+  const { user } = useAuth();
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const playedIdsRef = useRef<string[]>([]);
+  const queueRef = useRef<QueueItem[]>([]);
+
+  const [queue, setQueue] = useState<QueueItem[]>([]);
+  const [currentItemId, setCurrentItemId] = useState<string | null>(null);
+  const [shuffle, setShuffle] = useState(false);
+  const [repeat, setRepeat] = useState<RepeatMode>('off');
+  const [upNext, setUpNext] = useState<UpNext | null>(null);
+
+  queueRef.current = queue;
+
+  const fetchQueue = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('video_queue')
+      .select('*')
+      .eq('room_id', roomId)
+      .order('position', { ascending: true });
+
+    if (!error && data) {
+      setQueue(data as QueueItem[]);
+    }
+  }, [roomId]);
+
+  const applyRoomSettings = useCallback((room: { current_queue_item_id: string | null; queue_shuffle: boolean; queue_repeat: string }) => {
+    setCurrentItemId(room.current_queue_item_id);
+    setShuffle(room.queue_shuffle);
+    setRepeat(isRepeatMode(room.queue_repeat) ? room.queue_repeat : 'off');
+  }, []);
+
+  useEffect(() => {
+    if (!roomId) return;
+
+    fetchQueue();
+    supabase
+      .from('rooms')
+      .select('current_queue_item_id, queue_shuffle, queue_repeat')
+      .eq('id', roomId)
+      .single()
+      .then(({ data }) => {
+        if (data) applyRoomSettings(data);
+      });
+
+    const channel = supabase
+      .channel(`queue:${roomId}`, { config: { broadcast: { self: false } } })
+      .on('postgres_changes', {
+        event: '*',
+        schema: 'public',
+        table: 'video_queue',
+        filter: `room_id=eq.${roomId}`
+      }, () => {
+        fetchQueue();
+      })
+      .on('postgres_changes', {
+        event: 'UPDATE',
+        schema: 'public',
+        table: 'rooms',
+        filter: `id=eq.${roomId}`
+      }, ({ new: room }) => {
+        applyRoomSettings(room as { current_queue_item_id: string | null; queue_shuffle: boolean; queue_repeat: string });
+      })
+      .on('broadcast', { event: UP_NEXT_EVENT }, ({ payload }) => {
+        const item = queueRef.current.find((q) => q.id === payload?.itemId);
+        setUpNext(item ? { item, startsAt: Date.now() + (payload.remainingMs ?? AUTO_ADVANCE_COUNTDOWN_MS) } : null);
+      })
+      .subscribe();
+
+    channelRef.current = channel;
+
+    return () => {
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, fetchQueue, applyRoomSettings]);
+
+  const updateRoom = useCallback(async (updates: { current_queue_item_id?: string | null; queue_shuffle?: boolean; queue_repeat?: RepeatMode }) => {
+    const { error } = await supabase.from('rooms').update(updates).eq('id', roomId);
+    if (error) console.error('[VideoQueue] Failed to update room:', error);
+  }, [roomId]);
+
+  const addToQueue = useCallback(async (url: string, title?: string) => {
+    if (!url.trim() || !user) return false;
+
+    const { type, id } = detectVideoType(url);
+    const maxPosition = queue.length > 0 ? Math.max(...queue.map(q => q.position)) : -1;
+
+    const { error } = await supabase
+      .from('video_queue')
+      .insert({
+        room_id: roomId,
+        url: id,
+        title: title || `Video ${queue.length + 1}`,
+        type,
+        position: maxPosition + 1,
+        added_by: user.id
+      });
+
+    if (error) {
+      toast({ title: 'Error adding to queue', description: error.message, variant: 'destructive' });
+      return false;
+    }
+    toast({ title: 'Added to queue', description: 'Video added successfully' });
+    return true;
+  }, [roomId, user, queue]);
+
+  const removeFromQueue = useCallback(async (id: string) => {
+    const { error } = await supabase
+      .from('video_queue')
+      .delete()
+      .eq('id', id);
+
+    if (error) {
+      toast({ title: 'Error removing video', description: error.message, variant: 'destructive' });
+    }
+  }, []);
+
+  // Optimistic, then one RPC rewrites every position
+  const reorderQueue = useCallback(async (fromIndex: number, toIndex: number) => {
+    if (fromIndex === toIndex) return;
+    const reordered = moveItem(queue, fromIndex, toIndex);
+    setQueue(reordered);
+
+    const { error } = await supabase.rpc('reorder_video_queue', {
+      p_room_id: roomId,
+      p_item_ids: reordered.map((item) => item.id)
+    });
+    if (error) {
+      toast({ title: 'Could not reorder queue', description: error.message, variant: 'destructive' });
+      fetchQueue();
+    }
+  }, [roomId, queue, fetchQueue]);
+
+  // Mark an item as now playing for both partners
+  const setCurrentItem = useCallback((id: string | null) => {
+    if (id && !playedIdsRef.current.includes(id)) playedIdsRef.current.push(id);
+    setCurrentItemId(id);
+    updateRoom({ current_queue_item_id: id });
+  }, [updateRoom]);
+
+  const toggleShuffle = useCallback(() => {
+    setShuffle(!shuffle);
+    updateRoom({ queue_shuffle: !shuffle });
+  }, [shuffle, updateRoom]);
+
+  const cycleRepeat = useCallback(() => {
+    const next = nextRepeatMode(repeat);
+    setRepeat(next);
+    updateRoom({ queue_repeat: next });
+  }, [repeat, updateRoom]);
+
+  const getNextItem = useCallback(() => {
+    const next = pickNextItem(queue, currentItemId, { shuffle, repeat, playedIds: playedIdsRef.current });
+    // Shuffle picking a played item means a new round has started
+    if (next && playedIdsRef.current.includes(next.id) && next.id !== currentItemId) {
+      playedIdsRef.current = [];
+    }
+    return next;
+  }, [queue, currentItemId, shuffle, repeat]);
+
+  // Start (or cancel, with null) the "up next" countdown for both partners
+  const announceUpNext = useCallback((item: QueueItem | null) => {
+    setUpNext(item ? { item, startsAt: Date.now() + AUTO_ADVANCE_COUNTDOWN_MS } : null);
+    channelRef.current?.send({
+      type: 'broadcast',
+      event: UP_NEXT_EVENT,
+      payload: { itemId: item?.id ?? null, remainingMs: AUTO_ADVANCE_COUNTDOWN_MS }
+    });
+  }, []);
+
+  return {
+    queue,
+    currentItemId,
+    shuffle,
+    repeat,
+    upNext,
+
+    addToQueue,
+    removeFromQueue,
+    reorderQueue,
+    setCurrentItem,
+    toggleShuffle,
+    cycleRepeat,
+    getNextItem,
+    announceUpNext
+  };
+};
@@ -2,6 +2,11 @@ import { useEffect, useRef, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 
+interface UseVisibilityHandlerOptions {
+  /** Called when the browser regains network, e.g. to restart a call's ICE. */
+  onOnline?: () => void;
+}
+
 /**
  * Enhanced visibility handler for maintaining stable connections
  * - Prevents page reloads on tab switch
@@ -9,8 +14,10 @@ import { useAuth } from './useAuth';
  * - Keeps Supabase Realtime channels alive
  * - Syncs state on return
  */
-export const useVisibilityHandler = (roomId: string) => {
+export const useVisibilityHandler = (roomId: string, { onOnline }: UseVisibilityHandlerOptions = {}) => {
   const { user } = useAuth();
+  const onOnlineRef = useRef(onOnline);
+  onOnlineRef.current = onOnline;
   const lastHiddenTimeRef = useRef<number>(0);
   const heartbeatIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const channelRef = useRef<any>(null);
@@ -164,6 +171,7 @@ export const useVisibilityHandler = (roomId: string) => {
   const handleOnline = useCallback(() => {
     console.log('[Visibility] Network online');
     pingPresence();
+    onOnlineRef.current?.();
   }, [pingPresence]);
 
   const handleOffline = useCallback(() => {
@@ -1,156 +1,51 @@
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { toast } from '@/hooks/use-toast';
-
-// Load WebTorrent from CDN at runtime to avoid bundling Node shims
-declare global {
-  interface Window {
-    WebTorrent?: any;
-  }
-}
-
-let WebTorrent: any = null;
-
-const initWebTorrent = async () => {
-  if (typeof window === 'undefined') return null;
-  if (WebTorrent) return WebTorrent;
-  if (window.WebTorrent) {
-    WebTorrent = window.WebTorrent;
-    return WebTorrent;
-  }
-  return new Promise<any>((resolve) => {
-    const script = document.createElement('script');
-    script.src = 'https://cdn.jsdelivr.net/npm/webtorrent@2.8.4/webtorrent.min.js';
-    script.async = true;
-    script.onload = () => {
-      WebTorrent = window.WebTorrent;
-      resolve(WebTorrent);
-    };
-    script.onerror = () => {
-      console.error('Failed to load WebTorrent from CDN');
-      resolve(null);
-    };
-    document.head.appendChild(script);
-  });
-};
-
-interface TorrentData {
-  id: string;
-  room_id: string;
-  room_code: string;
-  magnet: string;
-  created_by: string;
-  created_at: string;
-}
-
+import { webTorrentClient, type TorrentSession } from '@/utils/webTorrentClient';
+import type { TorrentStats } from '@/lib/media/torrent';
+
+/**
+ * One torrent at a time for the room's player: either we seed the local
+ * file the room is watching, or we stream the one the partner seeds.
+ * Seeded magnets are also recorded in torrent_links.
+ */
 export const useWebTorrent = (roomId?: string, roomCode?: string) => {
   const { user } = useAuth();
-  const [client, setClient] = useState<any>(null);
-  const [isSeeding, setIsSeeding] = useState(false);
-  const [isDownloading, setIsDownloading] = useState(false);
-  const [downloadProgress, setDownloadProgress] = useState(0);
-  const [seedingFiles, setSeedingFiles] = useState<Map<string, string>>(new Map());
-  const [torrentData, setTorrentData] = useState<TorrentData | null>(null);
-
-  // Initialize WebTorrent client
-  useEffect(() => {
-    const initClient = async () => {
-      try {
-        const WebTorrentClass = await initWebTorrent();
-        if (WebTorrentClass) {
-          const newClient = new WebTorrentClass();
-          setClient(newClient);
-          console.log('WebTorrent client initialized');
-        }
-      } catch (error) {
-        console.error('Failed to initialize WebTorrent:', error);
-      }
-    };
-
-    initClient();
-
-    return () => {
-      if (client) {
-        client.destroy();
-      }
-    };
+  const [role, setRole] = useState<'seeding' | 'streaming' | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [stats, setStats] = useState<TorrentStats | null>(null);
+  const sessionRef = useRef<TorrentSession | null>(null);
+
+  const stop = useCallback(() => {
+    sessionRef.current?.stop();
+    sessionRef.current = null;
+    setRole(null);
+    setStats(null);
   }, []);
 
-  // Listen for new torrent links in the room
-  useEffect(() => {
-    if (!roomCode || !user) return;
-
-    const channel = supabase.channel(`torrent_links_${roomCode}`)
-      .on('postgres_changes', {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'torrent_links',
-        filter: `room_code=eq.${roomCode}`
-      }, (payload) => {
-        console.log('New torrent link received:', payload);
-        const newTorrent = payload.new as TorrentData;
-        
-        // Only auto-download if it's not from the current user
-        if (newTorrent.created_by !== user.id) {
-          setTorrentData(newTorrent);
-          downloadFromMagnet(newTorrent.magnet);
-        }
-      })
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [roomCode, user]);
+  useEffect(() => stop, [stop]);
 
   const seedFile = useCallback(async (file: File): Promise<string | null> => {
-    if (!client || !roomId || !roomCode || !user) {
-      console.warn('WebTorrent client, room, or user not available');
+    if (!roomId || !roomCode || !user) {
+      console.warn('WebTorrent room or user not available');
       return null;
     }
 
-    setIsSeeding(true);
+    setIsStarting(true);
     try {
-      console.log('Starting to seed file:', file.name);
-      
-      return new Promise((resolve, reject) => {
-        client.seed(file, (torrent: any) => {
-          const magnetURI = torrent.magnetURI;
-          console.log('File seeded successfully:', magnetURI);
-          
-          setSeedingFiles(prev => new Map(prev).set(file.name, magnetURI));
-          
-          // Store magnet link in Supabase
-          supabase
-            .from('torrent_links')
-            .insert({
-              room_id: roomId,
-              room_code: roomCode,
-              magnet: magnetURI,
-              created_by: user.id
-            })
-            .then(({ error }) => {
-              if (error) {
-                console.error('Failed to store torrent link:', error);
-              } else {
-                console.log('Torrent link stored in database');
-              }
-            });
-
-          toast({
-            title: "File Shared! 🌐",
-            description: `${file.name} is now being shared via P2P`,
-          });
-
-          resolve(magnetURI);
-        });
-
-        client.on('error', (error: any) => {
-          console.error('WebTorrent seeding error:', error);
-          reject(error);
-        });
-      });
+      stop();
+      const session = await webTorrentClient.seedFile(file, setStats);
+      if (!session) throw new Error('WebTorrent is not available in this browser');
+      sessionRef.current = session;
+      setRole('seeding');
+
+      const { error } = await supabase
+        .from('torrent_links')
+        .insert({ room_id: roomId, room_code: roomCode, magnet: session.magnetURI, created_by: user.id });
+      if (error) console.error('Failed to store torrent link:', error);
+
+      return session.magnetURI;
     } catch (error) {
       console.error('Failed to seed file:', error);
       toast({
@@ -160,133 +55,42 @@ export const useWebTorrent = (roomId?: string, roomCode?: string) => {
       });
       return null;
     } finally {
-      setIsSeeding(false);
+      setIsStarting(false);
     }
-  }, [client, roomId, roomCode, user]);
+  }, [roomId, roomCode, user, stop]);
 
-  const downloadFromMagnet = useCallback(async (magnetURI: string): Promise<File | null> => {
-    if (!client) {
-      console.warn('WebTorrent client not available');
-      return null;
-    }
+  const streamTo = useCallback(async (magnetURI: string, video: HTMLVideoElement): Promise<boolean> => {
+    if (sessionRef.current?.magnetURI === magnetURI) return true;
 
-    setIsDownloading(true);
-    setDownloadProgress(0);
-    
+    setIsStarting(true);
     try {
-      console.log('Starting download from magnet:', magnetURI);
-      
-      return new Promise((resolve, reject) => {
-        client.add(magnetURI, (torrent: any) => {
-          console.log('Torrent added, files:', torrent.files.length);
-          
-          torrent.on('download', () => {
-            const progress = Math.round((torrent.downloaded / torrent.length) * 100);
-            setDownloadProgress(progress);
-          });
-
-          torrent.on('done', () => {
-            console.log('Download completed');
-            const file = torrent.files[0];
-            if (file) {
-              toast({
-                title: "Download Complete! 🎉",
-                description: `${file.name} downloaded successfully via P2P`,
-              });
-              
-              // Convert to File object
-              file.getBlobURL((err: any, url: string) => {
-                if (err) {
-                  reject(err);
-                  return;
-                }
-                
-                fetch(url)
-                  .then(response => response.blob())
-                  .then(blob => {
-                    const downloadedFile = new File([blob], file.name, { type: blob.type });
-                    resolve(downloadedFile);
-                  })
-                  .catch(reject);
-              });
-            } else {
-              reject(new Error('No files in torrent'));
-            }
-          });
-        });
-
-        client.on('error', (error: any) => {
-          console.error('WebTorrent download error:', error);
-          reject(error);
-        });
-      });
+      stop();
+      const session = await webTorrentClient.streamTo(magnetURI, video, setStats);
+      if (!session) throw new Error('WebTorrent is not available in this browser');
+      sessionRef.current = session;
+      setRole('streaming');
+      return true;
     } catch (error) {
-      console.error('Failed to download from magnet:', error);
+      console.error('Failed to stream torrent:', error);
       toast({
-        title: "Download Failed",
-        description: "Failed to download file via P2P",
+        title: "Couldn't play the shared file",
+        description: error instanceof Error ? error.message : "Failed to stream via P2P",
         variant: "destructive"
       });
-      return null;
+      return false;
     } finally {
-      setIsDownloading(false);
-      setDownloadProgress(0);
+      setIsStarting(false);
     }
-  }, [client]);
-
-  const stopSeeding = useCallback((fileName: string) => {
-    if (!client) return;
-    
-    const magnetURI = seedingFiles.get(fileName);
-    if (magnetURI) {
-      const torrent = client.get(magnetURI);
-      if (torrent) {
-        torrent.destroy();
-        console.log('Stopped seeding:', fileName);
-      }
-      
-      setSeedingFiles(prev => {
-        const newMap = new Map(prev);
-        newMap.delete(fileName);
-        return newMap;
-      });
-    }
-  }, [client, seedingFiles]);
-
-  const createVideoElement = useCallback((torrent: any): HTMLVideoElement | null => {
-    if (!torrent || !torrent.files.length) return null;
-    
-    const videoFile = torrent.files.find((file: any) => 
-      file.name.match(/\.(mp4|webm|ogg|mov|avi|mkv)$/i)
-    );
-    
-    if (!videoFile) return null;
-    
-    const video = document.createElement('video');
-    video.controls = true;
-    video.className = 'w-full h-full object-contain';
-    
-    videoFile.renderTo(video, (err: any) => {
-      if (err) {
-        console.error('Error rendering video:', err);
-      } else {
-        console.log('Video rendered successfully');
-      }
-    });
-    
-    return video;
-  }, []);
+  }, [stop]);
 
   return {
-    client,
-    isSeeding,
-    isDownloading,
-    downloadProgress,
-    seedingFiles,
-    torrentData,
+    supported: webTorrentClient.supported,
+    isSeeding: role === 'seeding',
+    isStreaming: role === 'streaming',
+    isStarting,
+    stats,
     seedFile,
-    downloadFromMagnet,
-    stopSeeding,
-    createVideoElement
+    streamTo,
+    stop
   };
-};
\ No newline at end of file
+};
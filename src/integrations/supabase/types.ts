@@ -106,6 +106,8 @@ export type Database = {
           ended_at: string | null
           ice_candidates: Json | null
           id: string
+          media_title: string | null
+          media_url: string | null
           offer: Json | null
           receiver_id: string
           room_id: string
@@ -122,6 +124,8 @@ export type Database = {
           ended_at?: string | null
           ice_candidates?: Json | null
           id?: string
+          media_title?: string | null
+          media_url?: string | null
           offer?: Json | null
           receiver_id: string
           room_id: string
@@ -138,6 +142,8 @@ export type Database = {
           ended_at?: string | null
           ice_candidates?: Json | null
           id?: string
+          media_title?: string | null
+          media_url?: string | null
           offer?: Json | null
           receiver_id?: string
           room_id?: string
@@ -155,6 +161,56 @@ export type Database = {
           },
         ]
       }
+      chat_messages: {
+        Row: {
+          content: string
+          created_at: string
+          delivered_at: string | null
+          id: string
+          media_id: string | null
+          read_at: string | null
+          room_id: string
+          sender_email: string | null
+          sender_id: string
+          type: string
+          video_timestamp: number | null
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          delivered_at?: string | null
+          id?: string
+          media_id?: string | null
+          read_at?: string | null
+          room_id: string
+          sender_email?: string | null
+          sender_id: string
+          type?: string
+          video_timestamp?: number | null
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          delivered_at?: string | null
+          id?: string
+          media_id?: string | null
+          read_at?: string | null
+          room_id?: string
+          sender_email?: string | null
+          sender_id?: string
+          type?: string
+          video_timestamp?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       game_history: {
         Row: {
           game_type: string
@@ -424,31 +480,40 @@ export type Database = {
         Row: {
           created_at: string
           current_time_seconds: number | null
+          epoch: number
           id: string
           is_playing: boolean | null
           last_updated_by: string | null
           media_id: string | null
+          playback_rate: number
           room_id: string
+          seq: number
           updated_at: string
         }
         Insert: {
           created_at?: string
           current_time_seconds?: number | null
+          epoch?: number
           id?: string
           is_playing?: boolean | null
           last_updated_by?: string | null
           media_id?: string | null
+          playback_rate?: number
           room_id: string
+          seq?: number
           updated_at?: string
         }
         Update: {
           created_at?: string
           current_time_seconds?: number | null
+          epoch?: number
           id?: string
           is_playing?: boolean | null
           last_updated_by?: string | null
           media_id?: string | null
+          playback_rate?: number
           room_id?: string
+          seq?: number
           updated_at?: string
         }
         Relationships: [
@@ -504,22 +569,58 @@ export type Database = {
         }
         Relationships: []
       }
+      push_subscriptions: {
+        Row: {
+          auth: string
+          created_at: string
+          endpoint: string
+          id: string
+          p256dh: string
+          updated_at: string
+          user_agent: string | null
+          user_id: string
+        }
+        Insert: {
+          auth: string
+          created_at?: string
+          endpoint: string
+          id?: string
+          p256dh: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id: string
+        }
+        Update: {
+          auth?: string
+          created_at?: string
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          updated_at?: string
+          user_agent?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       room_members: {
         Row: {
           id: string
           joined_at: string
+          last_read_at: string
           room_id: string
           user_id: string
         }
         Insert: {
           id?: string
           joined_at?: string
+          last_read_at?: string
           room_id: string
           user_id: string
         }
         Update: {
           id?: string
           joined_at?: string
+          last_read_at?: string
           room_id?: string
           user_id?: string
         }
@@ -535,45 +636,74 @@ export type Database = {
       }
       rooms: {
         Row: {
+          control_epoch: number
+          control_mode: string
           created_at: string
           creator_id: string
           current_media_type: string | null
           current_media_url: string | null
+          current_queue_item_id: string | null
+          host_id: string | null
+          host_seen_at: string | null
           id: string
           is_private: boolean | null
           name: string
           partner_id: string | null
+          queue_repeat: string
+          queue_shuffle: boolean
           room_code: string | null
           status: Database["public"]["Enums"]["room_status"] | null
           updated_at: string
         }
         Insert: {
+          control_epoch?: number
+          control_mode?: string
           created_at?: string
           creator_id: string
           current_media_type?: string | null
           current_media_url?: string | null
+          current_queue_item_id?: string | null
+          host_id?: string | null
+          host_seen_at?: string | null
           id?: string
           is_private?: boolean | null
           name: string
           partner_id?: string | null
+          queue_repeat?: string
+          queue_shuffle?: boolean
           room_code?: string | null
           status?: Database["public"]["Enums"]["room_status"] | null
           updated_at?: string
         }
         Update: {
+          control_epoch?: number
+          control_mode?: string
           created_at?: string
           creator_id?: string
           current_media_type?: string | null
           current_media_url?: string | null
+          current_queue_item_id?: string | null
+          host_id?: string | null
+          host_seen_at?: string | null
           id?: string
           is_private?: boolean | null
           name?: string
           partner_id?: string | null
+          queue_repeat?: string
+          queue_shuffle?: boolean
           room_code?: string | null
           status?: Database["public"]["Enums"]["room_status"] | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "rooms_current_queue_item_id_fkey"
+            columns: ["current_queue_item_id"]
+            isOneToOne: false
+            referencedRelation: "video_queue"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       rtc_signaling: {
         Row: {
@@ -748,6 +878,7 @@ export type Database = {
           content: string
           created_at: string
           id: string
+          media_id: string | null
           room_id: string
           timestamp: number
           user_id: string
@@ -757,6 +888,7 @@ export type Database = {
           content: string
           created_at?: string
           id?: string
+          media_id?: string | null
           room_id: string
           timestamp: number
           user_id: string
@@ -766,6 +898,7 @@ export type Database = {
           content?: string
           created_at?: string
           id?: string
+          media_id?: string | null
           room_id?: string
           timestamp?: number
           user_id?: string
@@ -952,6 +1085,7 @@ export type Database = {
     Functions: {
       generate_invite_code: { Args: never; Returns: string }
       generate_room_code: { Args: never; Returns: string }
+      get_chat_unread_count: { Args: { p_room_id: string }; Returns: number }
       get_invite_by_code: {
         Args: { p_invite_code: string }
         Returns: {
@@ -966,14 +1100,20 @@ export type Database = {
       get_room_if_member: {
         Args: { p_room_id: string }
         Returns: {
+          control_epoch: number
+          control_mode: string
           created_at: string
           creator_id: string
           current_media_type: string | null
           current_media_url: string | null
+          current_queue_item_id: string | null
+          host_id: string | null
           id: string
           is_private: boolean | null
           name: string
           partner_id: string | null
+          queue_repeat: string
+          queue_shuffle: boolean
           room_code: string | null
           status: Database["public"]["Enums"]["room_status"] | null
           updated_at: string
@@ -993,17 +1133,24 @@ export type Database = {
         Args: { p_date: string; p_partner_id: string; p_user_id: string }
         Returns: undefined
       }
+      is_room_member: { Args: { p_room_id: string }; Returns: boolean }
       join_room_by_code: {
         Args: { p_code: string }
         Returns: {
+          control_epoch: number
+          control_mode: string
           created_at: string
           creator_id: string
           current_media_type: string | null
           current_media_url: string | null
+          current_queue_item_id: string | null
+          host_id: string | null
           id: string
           is_private: boolean | null
           name: string
           partner_id: string | null
+          queue_repeat: string
+          queue_shuffle: boolean
           room_code: string | null
           status: Database["public"]["Enums"]["room_status"] | null
           updated_at: string
@@ -1015,6 +1162,82 @@ export type Database = {
           isSetofReturn: false
         }
       }
+      mark_chat_messages: {
+        Args: { p_read: boolean; p_room_id: string }
+        Returns: undefined
+      }
+      reorder_video_queue: {
+        Args: { p_item_ids: string[]; p_room_id: string }
+        Returns: undefined
+      }
+      set_room_control: {
+        Args: {
+          p_control_mode: string
+          p_host_id: string
+          p_host_left?: boolean
+          p_room_id: string
+        }
+        Returns: {
+          control_epoch: number
+          control_mode: string
+          created_at: string
+          creator_id: string
+          current_media_type: string | null
+          current_media_url: string | null
+          current_queue_item_id: string | null
+          host_id: string | null
+          host_seen_at: string | null
+          id: string
+          is_private: boolean | null
+          name: string
+          partner_id: string | null
+          queue_repeat: string
+          queue_shuffle: boolean
+          room_code: string | null
+          status: Database["public"]["Enums"]["room_status"] | null
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "rooms"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      touch_room_host: {
+        Args: { p_room_id: string }
+        Returns: undefined
+      }
+      write_playback_state: {
+        Args: {
+          p_current_time: number
+          p_epoch: number
+          p_is_playing: boolean
+          p_playback_rate: number
+          p_room_id: string
+          p_seq: number
+          p_updated_at: string
+        }
+        Returns: {
+          created_at: string
+          current_time_seconds: number | null
+          epoch: number
+          id: string
+          is_playing: boolean | null
+          last_updated_by: string | null
+          media_id: string | null
+          playback_rate: number
+          room_id: string
+          seq: number
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "playback_state"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
     }
     Enums: {
       invite_status: "pending" | "accepted" | "declined"
@@ -0,0 +1,66 @@
+/**
+ * Lowering the movie while someone on the call talks. Voice activity is a
+ * plain RMS gate on call audio; the gain drops fast when speech starts and
+ * comes back slowly once it has been quiet for the release time.
+ */
+
+export interface DuckingSettings {
+  enabled: boolean;
+  /** How far the movie drops while someone talks, 0 (not at all) to 1 (silent). */
+  depth: number;
+  /** Quiet time before the movie comes back up. */
+  releaseMs: number;
+}
+
+export const DEFAULT_DUCKING: DuckingSettings = {
+  enabled: true,
+  depth: 0.6,
+  releaseMs: 800
+};
+
+export const DUCKING_DEPTH_RANGE = { min: 0.2, max: 0.9 };
+export const DUCKING_RELEASE_RANGE_MS = { min: 200, max: 3000 };
+
+/** RMS above this counts as speech; mic noise with suppression on sits well below. */
+export const VOICE_RMS_THRESHOLD = 0.02;
+
+const ATTACK_MS = 150;
+const FADE_IN_MS = 600;
+
+const STORAGE_KEY = 'ustuo_audio_ducking';
+
+export const loadDuckingSettings = (): DuckingSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (saved && typeof saved === 'object') return { ...DEFAULT_DUCKING, ...saved };
+  } catch {
+    // Fall through to default
+  }
+  return DEFAULT_DUCKING;
+};
+
+export const saveDuckingSettings = (settings: DuckingSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const rmsLevel = (samples: Float32Array) => {
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+};
+
+/**
+ * Steps the movie gain `elapsedMs` forward. `quietMs` is how long it has
+ * been since anyone spoke (0 while they are speaking).
+ */
+export const nextDuckGain = (
+  gain: number,
+  quietMs: number,
+  elapsedMs: number,
+  { enabled, depth, releaseMs }: DuckingSettings
+): number => {
+  const target = enabled && quietMs < releaseMs ? 1 - depth : 1;
+  if (gain > target) return Math.max(target, gain - (elapsedMs / ATTACK_MS) * depth);
+  if (gain < target) return Math.min(target, gain + (elapsedMs / FADE_IN_MS) * depth);
+  return gain;
+};
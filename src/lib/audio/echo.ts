@@ -0,0 +1,100 @@
+/**
+ * Spotting the movie leaking from our speakers into our mic. The call's
+ * `echoCancellation` only removes what WebRTC itself plays out, so a film
+ * playing next to the call goes straight through and the partner hears it
+ * twice, a beat apart. We compare loudness envelopes: when the mic rises
+ * and falls with the movie a few hundred ms later, it's echo.
+ */
+
+export const ECHO_FRAME_MS = 50;
+/** Three seconds of envelope per comparison. */
+export const ECHO_WINDOW_FRAMES = 60;
+/** Compare once a second. */
+export const ECHO_CHECK_EVERY_FRAMES = 20;
+
+// Speakers to mic, through the room and the OS, stays well under half a second
+const MAX_LAG_FRAMES = 10;
+// Below this the movie is paused or silent and there's nothing to leak
+const MIN_REFERENCE_LEVEL = 0.01;
+const ECHO_CORRELATION = 0.6;
+const CLEAR_CORRELATION = 0.3;
+const HITS_TO_DETECT = 3;
+const MISSES_TO_CLEAR = 5;
+
+const STORAGE_KEY = 'ustuo_echo_check';
+
+export const loadEchoCheckEnabled = () => localStorage.getItem(STORAGE_KEY) !== 'false';
+
+export const saveEchoCheckEnabled = (enabled: boolean) => {
+  localStorage.setItem(STORAGE_KEY, String(enabled));
+};
+
+const pearson = (a: number[], b: number[]) => {
+  const n = a.length;
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < n; i++) {
+    meanA += a[i];
+    meanB += b[i];
+  }
+  meanA /= n;
+  meanB /= n;
+
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    cov += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  return varA && varB ? cov / Math.sqrt(varA * varB) : 0;
+};
+
+/**
+ * Best correlation between the two envelopes with the mic trailing the
+ * movie by 0 to MAX_LAG_FRAMES, or null while the movie is too quiet to
+ * say anything.
+ */
+export const envelopeCorrelation = (reference: number[], mic: number[]): number | null => {
+  const n = Math.min(reference.length, mic.length);
+  if (n <= MAX_LAG_FRAMES * 2) return null;
+  const ref = reference.slice(-n);
+  const heard = mic.slice(-n);
+  const loudness = ref.reduce((sum, level) => sum + level, 0) / n;
+  if (loudness < MIN_REFERENCE_LEVEL) return null;
+
+  let best = -1;
+  for (let lag = 0; lag <= MAX_LAG_FRAMES; lag++) {
+    best = Math.max(best, pearson(ref.slice(0, n - lag), heard.slice(lag)));
+  }
+  return best;
+};
+
+export interface EchoCheck {
+  detected: boolean;
+  hits: number;
+  misses: number;
+}
+
+export const INITIAL_ECHO_CHECK: EchoCheck = { detected: false, hits: 0, misses: 0 };
+
+/**
+ * Folds one comparison in. A few strong matches in a row raise the warning
+ * and several clear ones drop it, so dialogue that happens to line up with
+ * the user talking doesn't make it flicker.
+ */
+export const nextEchoCheck = (check: EchoCheck, correlation: number | null): EchoCheck => {
+  if (correlation === null) return check;
+  if (correlation >= ECHO_CORRELATION) {
+    const hits = check.hits + 1;
+    return { detected: check.detected || hits >= HITS_TO_DETECT, hits, misses: 0 };
+  }
+  if (correlation < CLEAR_CORRELATION) {
+    const misses = check.misses + 1;
+    return { detected: check.detected && misses < MISSES_TO_CLEAR, hits: 0, misses };
+  }
+  return check;
+};
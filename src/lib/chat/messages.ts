@@ -0,0 +1,52 @@
+/**
+ * Room chat bookkeeping: merging history pages with live and optimistic
+ * messages, send retries, and receipt state.
+ */
+
+export type ChatMessageType = 'message' | 'emoji' | 'reaction';
+
+/** Sender-side lifecycle; 'sent' means the row exists and receipts take over. */
+export type ChatSendStatus = 'sending' | 'sent' | 'failed';
+
+export type ChatReceipt = 'sending' | 'failed' | 'sent' | 'delivered' | 'read';
+
+export interface ChatMessageLike {
+  id: string;
+  created_at: string;
+}
+
+export const CHAT_PAGE_SIZE = 30;
+
+/** Backoff between automatic send attempts; after the last one the message is marked failed. */
+export const CHAT_SEND_RETRY_DELAYS_MS = [1000, 3000, 8000];
+
+/** How long after the last keystroke we keep showing "typing". */
+export const TYPING_IDLE_MS = 3000;
+
+export const isChatMessageType = (value: unknown): value is ChatMessageType =>
+  value === 'message' || value === 'emoji' || value === 'reaction';
+
+/**
+ * Folds `incoming` into `existing`, oldest first. A later copy of the same id
+ * wins, so a server row replaces its optimistic placeholder.
+ */
+export const mergeMessages = <T extends ChatMessageLike>(existing: T[], incoming: T[]): T[] => {
+  const byId = new Map(existing.map((message) => [message.id, message]));
+  for (const message of incoming) {
+    byId.set(message.id, { ...byId.get(message.id), ...message });
+  }
+  return [...byId.values()].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+};
+
+export const receiptFor = (
+  message: { delivered_at: string | null; read_at: string | null },
+  sendStatus: ChatSendStatus = 'sent'
+): ChatReceipt => {
+  if (sendStatus !== 'sent') return sendStatus;
+  if (message.read_at) return 'read';
+  if (message.delivered_at) return 'delivered';
+  return 'sent';
+};
+
+/** Postgres unique_violation: a retry whose first attempt actually landed. */
+export const isDuplicateInsert = (error: { code?: string } | null) => error?.code === '23505';
@@ -0,0 +1,314 @@
+/**
+ * HLS (hls.js) and MPEG-DASH (dash.js) both play by feeding segments into the
+ * <video> through Media Source Extensions, so the sync engine drives them like
+ * native video. What differs is wrapped here: loading, the renditions and
+ * audio/subtitle tracks on offer, playback stats, and turning each library's
+ * fatal errors into something to show.
+ */
+
+import Hls, { ErrorTypes, Events } from 'hls.js';
+import type { MediaPlayerClass, MediaPlayerErrorEvent } from 'dashjs';
+import type { RenditionLock } from '@/lib/sync/protocol';
+
+export type AdaptiveStreamType = 'hls' | 'dash';
+
+/** Level index meaning "let the player pick by bandwidth". */
+export const AUTO_LEVEL = -1;
+
+export interface QualityLevel {
+  index: number;
+  /** 0 for audio-only renditions */
+  height: number;
+  /** Bits per second */
+  bitrate: number;
+}
+
+/** Subtitle track id meaning "none shown". */
+export const SUBTITLES_OFF = -1;
+
+/** An alternate audio or subtitle track. */
+export interface StreamTrack {
+  id: number;
+  label: string;
+  lang: string | null;
+}
+
+export interface StreamStats {
+  /** Bits per second of the rendition playing now; 0 before the first segment */
+  bitrate: number;
+  height: number;
+  /** Seconds buffered ahead of the playhead */
+  bufferSeconds: number;
+  /** The player's bandwidth estimate in bits per second; 0 while it has none */
+  bandwidthEstimate: number;
+}
+
+export interface AdaptiveStreamHandlers {
+  /** The renditions are known; called again if they change. */
+  onLevels?: (levels: QualityLevel[]) => void;
+  /** The audio or subtitle tracks, or the ones selected, changed. */
+  onTracks?: (stream: AdaptiveStream) => void;
+  /** Playback can't continue; the message is fit to show. */
+  onError?: (message: string) => void;
+}
+
+export interface AdaptiveStream {
+  type: AdaptiveStreamType;
+  getLevels: () => QualityLevel[];
+  /** AUTO_LEVEL while the player chooses. */
+  getLevel: () => number;
+  setLevel: (index: number) => void;
+  getAudioTracks: () => StreamTrack[];
+  getAudioTrack: () => number;
+  setAudioTrack: (id: number) => void;
+  getSubtitleTracks: () => StreamTrack[];
+  /** SUBTITLES_OFF when none is shown. */
+  getSubtitleTrack: () => number;
+  setSubtitleTrack: (id: number) => void;
+  getStats: () => StreamStats;
+  destroy: () => void;
+}
+
+export const STREAM_ERROR_MESSAGES = {
+  network: "The stream couldn't be loaded. Check the link, or whether its server allows playing it here.",
+  format: "This browser can't play the stream's format.",
+  protected: 'The stream is copy-protected (DRM) and can only be played on its own site.',
+  unsupported: "This browser can't play adaptive streams."
+} as const;
+
+/** Whether `url` is a DASH manifest, judged by its path. */
+export const isDashManifest = (url: string) => /\.mpd($|[?#])/i.test(url);
+
+/** Whether `url` is an HLS playlist, judged by its path. */
+export const isHlsPlaylist = (url: string) => /\.m3u8($|[?#])/i.test(url);
+
+export const formatBitrate = (bitsPerSecond: number) =>
+  bitsPerSecond >= 1_000_000 ? `${(bitsPerSecond / 1_000_000).toFixed(1)} Mbps` : `${Math.round(bitsPerSecond / 1000)} kbps`;
+
+export const qualityLabel = (level: Pick<QualityLevel, 'height' | 'bitrate'>) =>
+  level.height ? `${level.height}p` : formatBitrate(level.bitrate);
+
+/**
+ * The level a rendition lock means on this player: the same height, then the
+ * nearest bitrate. Levels are matched by size rather than index because each
+ * player drops the renditions its browser can't decode.
+ */
+export const findLockedLevel = (levels: QualityLevel[], lock: RenditionLock): QualityLevel | null => {
+  const sameHeight = levels.filter((level) => level.height === lock.height);
+  const candidates = sameHeight.length ? sameHeight : levels;
+  return candidates.reduce<QualityLevel | null>((best, level) =>
+    !best || Math.abs(level.bitrate - lock.bitrate) < Math.abs(best.bitrate - lock.bitrate) ? level : best, null);
+};
+
+/** Seconds of media buffered from the playhead on. */
+export const bufferedAhead = (video: HTMLVideoElement) => {
+  const time = video.currentTime;
+  for (let i = 0; i < video.buffered.length; i++) {
+    // A hair of slack: the playhead often sits just before the range it is about to enter
+    if (video.buffered.start(i) <= time + 0.1 && time <= video.buffered.end(i)) return video.buffered.end(i) - time;
+  }
+  return 0;
+};
+
+const trackLabel = (name: string | undefined, lang: string | null | undefined, position: number) =>
+  name || lang || `Track ${position + 1}`;
+
+// Highest first, as quality menus list them
+const sortLevels = (levels: QualityLevel[]) => [...levels].sort((a, b) => b.height - a.height || b.bitrate - a.bitrate);
+
+const createHlsStream = (video: HTMLVideoElement, url: string, handlers: AdaptiveStreamHandlers): AdaptiveStream | null => {
+  if (!Hls.isSupported()) {
+    // Safari plays HLS itself, just without a choice of rendition
+    if (!video.canPlayType('application/vnd.apple.mpegurl')) {
+      handlers.onError?.(STREAM_ERROR_MESSAGES.unsupported);
+      return null;
+    }
+    video.src = url;
+    return {
+      type: 'hls',
+      getLevels: () => [],
+      getLevel: () => AUTO_LEVEL,
+      setLevel: () => {},
+      getAudioTracks: () => [],
+      getAudioTrack: () => 0,
+      setAudioTrack: () => {},
+      getSubtitleTracks: () => [],
+      getSubtitleTrack: () => SUBTITLES_OFF,
+      setSubtitleTrack: () => {},
+      getStats: () => ({ bitrate: 0, height: video.videoHeight, bufferSeconds: bufferedAhead(video), bandwidthEstimate: 0 }),
+      destroy: () => {
+        video.removeAttribute('src');
+        video.load();
+      }
+    };
+  }
+
+  const hls = new Hls();
+  const levels = () => sortLevels(hls.levels.map((level, index) => ({ index, height: level.height, bitrate: level.bitrate })));
+  const tracks = (playlists: { id: number; name: string; lang?: string }[]) =>
+    playlists.map((track, position) => ({ id: track.id, label: trackLabel(track.name, track.lang, position), lang: track.lang ?? null }));
+  let recoveredMediaError = false;
+
+  const stream: AdaptiveStream = {
+    type: 'hls',
+    getLevels: levels,
+    getLevel: () => (hls.autoLevelEnabled ? AUTO_LEVEL : hls.currentLevel),
+    // currentLevel switches now; -1 hands the choice back to hls.js
+    setLevel: (index) => { hls.currentLevel = index; },
+    getAudioTracks: () => tracks(hls.audioTracks),
+    getAudioTrack: () => hls.audioTrack,
+    setAudioTrack: (id) => { hls.audioTrack = id; },
+    getSubtitleTracks: () => tracks(hls.subtitleTracks),
+    getSubtitleTrack: () => hls.subtitleTrack,
+    setSubtitleTrack: (id) => {
+      hls.subtitleTrack = id;
+      hls.subtitleDisplay = id !== SUBTITLES_OFF;
+    },
+    getStats: () => {
+      // currentLevel is the one playing, -1 before the first segment
+      const level = hls.levels[hls.currentLevel];
+      return {
+        bitrate: level?.bitrate ?? 0,
+        height: level?.height ?? 0,
+        bufferSeconds: bufferedAhead(video),
+        bandwidthEstimate: Number.isFinite(hls.bandwidthEstimate) ? hls.bandwidthEstimate : 0
+      };
+    },
+    destroy: () => hls.destroy()
+  };
+
+  hls.on(Events.MANIFEST_PARSED, () => handlers.onLevels?.(levels()));
+  hls.on(Events.AUDIO_TRACKS_UPDATED, () => handlers.onTracks?.(stream));
+  hls.on(Events.AUDIO_TRACK_SWITCHED, () => handlers.onTracks?.(stream));
+  hls.on(Events.SUBTITLE_TRACKS_UPDATED, () => handlers.onTracks?.(stream));
+  hls.on(Events.SUBTITLE_TRACK_SWITCH, () => handlers.onTracks?.(stream));
+  hls.on(Events.ERROR, (_event, data) => {
+    // hls.js retries loads itself; only fatal errors need us
+    if (!data.fatal) return;
+    if (data.type === ErrorTypes.MEDIA_ERROR && !recoveredMediaError) {
+      recoveredMediaError = true;
+      hls.recoverMediaError();
+      return;
+    }
+    console.error('[AdaptiveStream] HLS error:', data.type, data.details);
+    handlers.onError?.(
+      data.type === ErrorTypes.NETWORK_ERROR ? STREAM_ERROR_MESSAGES.network
+        : data.type === ErrorTypes.KEY_SYSTEM_ERROR ? STREAM_ERROR_MESSAGES.protected
+        : STREAM_ERROR_MESSAGES.format
+    );
+  });
+
+  // Subtitles stay off until someone picks a track
+  hls.subtitleDisplay = false;
+  hls.loadSource(url);
+  hls.attachMedia(video);
+  return stream;
+};
+
+// dash.js error codes (MediaPlayerErrors): manifest and segment loading, parsing, no playable streams
+const DASH_NETWORK_ERRORS = new Set([10, 11, 12, 17, 25, 26, 27, 28, 31, 32]);
+// MediaSource missing, append failures, muxed or unsupported codecs
+const DASH_FORMAT_ERRORS = new Set([20, 23, 34, 35]);
+// Missing key system, and the 100-114 license and key session errors
+const isDashProtectionError = (code: number) => code === 24 || (code >= 100 && code <= 114);
+
+const dashErrorMessage = (code: number) =>
+  DASH_NETWORK_ERRORS.has(code) ? STREAM_ERROR_MESSAGES.network
+    : DASH_FORMAT_ERRORS.has(code) ? STREAM_ERROR_MESSAGES.format
+    : isDashProtectionError(code) ? STREAM_ERROR_MESSAGES.protected
+    : null;
+
+const createDashStream = async (video: HTMLVideoElement, url: string, handlers: AdaptiveStreamHandlers): Promise<AdaptiveStream | null> => {
+  // dash.js is large, so it's only fetched for the first DASH stream
+  const { MediaPlayer, supportsMediaSource } = await import('dashjs');
+  if (!supportsMediaSource()) {
+    handlers.onError?.(STREAM_ERROR_MESSAGES.unsupported);
+    return null;
+  }
+
+  const player: MediaPlayerClass = MediaPlayer().create();
+  const levels = () => sortLevels(
+    player.getRepresentationsByType('video').map((rep) => ({ index: rep.index, height: rep.height, bitrate: rep.bandwidth }))
+  );
+  const tracks = (type: 'audio' | 'text') => player.getTracksFor(type).map((track, position) => ({
+    id: position,
+    label: trackLabel(track.labels[0]?.text, track.lang, position),
+    lang: track.lang
+  }));
+  const setAutoSwitch = (enabled: boolean) =>
+    player.updateSettings({ streaming: { abr: { autoSwitchBitrate: { video: enabled } } } });
+  let destroyed = false;
+
+  const stream: AdaptiveStream = {
+    type: 'dash',
+    getLevels: levels,
+    getLevel: () => {
+      if (player.getSettings().streaming?.abr?.autoSwitchBitrate?.video !== false) return AUTO_LEVEL;
+      return player.getCurrentRepresentationForType('video')?.index ?? AUTO_LEVEL;
+    },
+    setLevel: (index) => {
+      setAutoSwitch(index === AUTO_LEVEL);
+      if (index !== AUTO_LEVEL) player.setRepresentationForTypeByIndex('video', index);
+    },
+    getAudioTracks: () => tracks('audio'),
+    getAudioTrack: () => {
+      const current = player.getCurrentTrackFor('audio');
+      return Math.max(0, player.getTracksFor('audio').findIndex((track) => track.id === current?.id && track.lang === current?.lang));
+    },
+    setAudioTrack: (id) => {
+      const track = player.getTracksFor('audio')[id];
+      if (track) player.setCurrentTrack(track);
+    },
+    getSubtitleTracks: () => tracks('text'),
+    getSubtitleTrack: () => player.getCurrentTextTrackIndex(),
+    setSubtitleTrack: (id) => {
+      player.enableText(id !== SUBTITLES_OFF);
+      player.setTextTrack(id);
+    },
+    getStats: () => {
+      const representation = player.getCurrentRepresentationForType('video');
+      const buffer = player.getBufferLength('video');
+      // dash.js reports throughput in kbps
+      const throughput = player.getAverageThroughput('video');
+      return {
+        bitrate: representation?.bandwidth ?? 0,
+        height: representation?.height ?? 0,
+        bufferSeconds: Number.isFinite(buffer) ? buffer : bufferedAhead(video),
+        bandwidthEstimate: Number.isFinite(throughput) ? throughput * 1000 : 0
+      };
+    },
+    destroy: () => {
+      destroyed = true;
+      player.destroy();
+    }
+  };
+
+  player.on(MediaPlayer.events.STREAM_INITIALIZED, () => {
+    handlers.onLevels?.(levels());
+    handlers.onTracks?.(stream);
+  });
+  player.on(MediaPlayer.events.TEXT_TRACKS_ADDED, () => handlers.onTracks?.(stream));
+  player.on(MediaPlayer.events.TRACK_CHANGE_RENDERED, () => handlers.onTracks?.(stream));
+  player.on(MediaPlayer.events.ERROR, (event: MediaPlayerErrorEvent) => {
+    const { code, message } = event.error;
+    console.error('[AdaptiveStream] DASH error:', code, message);
+    // Anything we can't place (e.g. a failed time sync) is left to dash.js to ride out
+    const shown = dashErrorMessage(code);
+    if (shown && !destroyed) handlers.onError?.(shown);
+  });
+
+  setAutoSwitch(true);
+  // Subtitles stay off until someone picks a track
+  player.updateSettings({ streaming: { text: { defaultEnabled: false } } });
+  player.initialize(video, url, false);
+  return stream;
+};
+
+/** Starts loading `url` into `video`; null when this browser can't play it (onError says why). */
+export const openAdaptiveStream = async (
+  type: AdaptiveStreamType,
+  video: HTMLVideoElement,
+  url: string,
+  handlers: AdaptiveStreamHandlers = {}
+): Promise<AdaptiveStream | null> =>
+  type === 'dash' ? createDashStream(video, url, handlers) : createHlsStream(video, url, handlers);
@@ -0,0 +1,16 @@
+/** A point of interest on the seek bar, e.g. a timestamped note. */
+export interface TimelineMarker {
+  id: string;
+  time: number;
+  label: string;
+  author?: string;
+}
+
+/** Largest gap between two time updates still treated as continuous playback. */
+export const MAX_PLAYBACK_STEP = 2;
+
+/** Markers playback ran over between two time updates; a seek or rewind passes none. */
+export const markersPassed = (markers: TimelineMarker[], from: number, to: number): TimelineMarker[] => {
+  if (to <= from || to - from > MAX_PLAYBACK_STEP) return [];
+  return markers.filter((marker) => marker.time > from && marker.time <= to);
+};
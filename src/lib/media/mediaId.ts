@@ -0,0 +1,17 @@
+import type { SyncSourceType } from '@/lib/sync/protocol';
+import { infoHashFromMagnet } from '@/lib/media/torrent';
+
+/**
+ * Stable id for what's playing, so notes and chat stay with the right video.
+ * Local files are only known by name, torrents by info hash (magnets carry
+ * trackers that can differ); a live stream has no id.
+ */
+export const getMediaId = (sourceType: SyncSourceType, sourceUrl: string | null, fileName?: string): string | null => {
+  if (sourceType === 'local') return fileName ? `local:${fileName}` : null;
+  if (sourceType === 'stream' || !sourceUrl) return null;
+  if (sourceType === 'torrent') {
+    const infoHash = infoHashFromMagnet(sourceUrl);
+    return infoHash ? `torrent:${infoHash}` : null;
+  }
+  return `${sourceType}:${sourceUrl}`;
+};
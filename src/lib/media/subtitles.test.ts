@@ -0,0 +1,172 @@
+import { describe, expect, it } from 'vitest';
+import { activeCues, DEFAULT_CUE_LAYOUT, parseSubtitles } from './subtitles';
+
+const SRT = `\uFEFF1
+00:00:01,000 --> 00:00:03,500
+Hello <b>world</b>
+Tom &amp; <font color="#ff0000">Jerry</font>
+
+2
+00:00:04,000 --> 00:00:05,000
+{\\an8}Top
+`;
+
+const VTT = `WEBVTT
+
+NOTE not a cue
+
+placed
+00:01.000 --> 00:02.000 line:10% position:25% align:start size:50%
+Placed
+
+00:03.000 --> 00:04.000 line:-1
+Last line
+
+00:05.000 --> 00:06.000
+<i>Plain</i>
+`;
+
+const ASS = `[Script Info]
+ScriptType: v4.00+
+PlayResX: 1920
+PlayResY: 1080
+
+[V4+ Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, OutlineColour, BackColour, Bold, Italic, Underline, StrikeOut, ScaleX, ScaleY, Spacing, Angle, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, Encoding
+Style: Default,Arial,54,&H00FFFFFF,&H000000FF,&H00000000,&H80000000,0,0,0,0,100,100,0,0,1,2,0,2,96,96,54,1
+Style: Sign,Georgia,72,&H0000FFFF,&H000000FF,&H00000000,&H80000000,-1,0,0,0,100,100,0,0,3,2,0,8,10,10,10,1
+
+[Events]
+Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: 0,0:00:01.00,0:00:03.50,Default,,0,0,0,,Hello, {\\b1}bold{\\b0} world\\Nsecond line
+Dialogue: 1,0:00:02.00,0:00:04.00,Default,,0,0,0,,{\\an8}Top {\\c&H0000FF&}red
+Dialogue: 0,0:00:05.00,0:00:06.00,Default,,0,0,0,,{\\pos(960,540)\\an5}Centre
+Dialogue: 0,0:00:07.00,0:00:08.00,Sign,,0,0,0,,Boxed sign
+`;
+
+const SSA = `[Script Info]
+ScriptType: v4.00
+
+[V4 Styles]
+Format: Name, Fontname, Fontsize, PrimaryColour, SecondaryColour, TertiaryColour, BackColour, Bold, Italic, BorderStyle, Outline, Shadow, Alignment, MarginL, MarginR, MarginV, AlphaLevel, Encoding
+Style: Default,Arial,20,16777215,65535,65535,0,0,0,1,2,0,6,10,10,10,0,0
+Style: Middle,Arial,20,16777215,65535,65535,0,0,0,1,2,0,11,10,10,10,0,0
+
+[Events]
+Format: Marked, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text
+Dialogue: Marked=0,0:00:01.00,0:00:02.00,Default,,0000,0000,0000,,Top centre
+Dialogue: Marked=0,0:00:03.00,0:00:04.00,Middle,,0000,0000,0000,,Middle right
+Dialogue: Marked=0,0:00:05.00,0:00:06.00,Default,,0000,0000,0000,,{\\a1}Bottom left
+`;
+
+describe('parseSubtitles: SRT', () => {
+  const cues = parseSubtitles(SRT.replace(/\n/g, '\r\n'), 'srt');
+
+  it('reads timings and markup', () => {
+    expect(cues).toHaveLength(2);
+    expect(cues[0]).toMatchObject({ start: 1, end: 3.5, layout: DEFAULT_CUE_LAYOUT });
+    expect(cues[0].lines).toEqual([
+      [{ text: 'Hello ' }, { text: 'world', bold: true }],
+      [{ text: 'Tom & ' }, { text: 'Jerry', color: '#ff0000' }]
+    ]);
+  });
+
+  it('honours {\\anN} and strips it from the text', () => {
+    expect(cues[1].layout.alignment).toBe(8);
+    expect(cues[1].lines).toEqual([[{ text: 'Top' }]]);
+  });
+});
+
+describe('parseSubtitles: WebVTT', () => {
+  const cues = parseSubtitles(VTT, 'vtt');
+
+  it('skips NOTE blocks and reads cues with identifiers', () => {
+    expect(cues.map((cue) => cue.start)).toEqual([1, 3, 5]);
+    expect(cues[0].lines).toEqual([[{ text: 'Placed' }]]);
+    expect(cues[2].lines).toEqual([[{ text: 'Plain', italic: true }]]);
+  });
+
+  it('places a cue from line, position, align and size', () => {
+    expect(cues[0].layout).toEqual({
+      ...DEFAULT_CUE_LAYOUT,
+      alignment: 7,
+      position: { x: 0.25, y: 0.1 },
+      width: 0.5
+    });
+  });
+
+  it('counts negative line numbers from the bottom', () => {
+    expect(cues[1].layout).toMatchObject({ alignment: 2, position: { x: 0.5, y: 1 } });
+  });
+
+  it('leaves a cue without settings at the default place', () => {
+    expect(cues[2].layout).toEqual(DEFAULT_CUE_LAYOUT);
+  });
+});
+
+describe('parseSubtitles: ASS', () => {
+  const cues = parseSubtitles(ASS, 'ass');
+
+  it('applies [V4+ Styles] scaled to the script resolution', () => {
+    const [first] = cues;
+    expect(first).toMatchObject({ start: 1, end: 3.5, layer: 0 });
+    expect(first.style).toMatchObject({ fontFamily: 'Arial', color: 'rgb(255, 255, 255)', outlineColor: 'rgb(0, 0, 0)' });
+    expect(first.style.fontSize).toBeCloseTo(54 / 1080);
+    expect(first.style.boxColor).toBeUndefined();
+    expect(first.layout.alignment).toBe(2);
+    expect(first.layout.marginX).toBeCloseTo(96 / 1920);
+    expect(first.layout.marginY).toBeCloseTo(54 / 1080);
+    expect(first.layout.width).toBeCloseTo(1 - 192 / 1920);
+  });
+
+  it('splits runs on {\\b1}/{\\b0}, keeps commas in the text and breaks lines on \\N', () => {
+    expect(cues[0].lines).toEqual([
+      [{ text: 'Hello, ' }, { text: 'bold', bold: true }, { text: ' world' }],
+      [{ text: 'second line' }]
+    ]);
+  });
+
+  it('moves a cue with {\\an8} and colours a run with \\c', () => {
+    expect(cues[1]).toMatchObject({ layer: 1, layout: { alignment: 8 } });
+    expect(cues[1].lines).toEqual([[{ text: 'Top ' }, { text: 'red', color: 'rgb(255, 0, 0)' }]]);
+  });
+
+  it('places a cue with {\\pos}', () => {
+    expect(cues[2].layout).toMatchObject({ alignment: 5, position: { x: 0.5, y: 0.5 }, width: 1 });
+  });
+
+  it('reads bold, alignment and an opaque box from the style', () => {
+    const sign = cues[3];
+    expect(sign.lines).toEqual([[{ text: 'Boxed sign', bold: true }]]);
+    expect(sign.layout.alignment).toBe(8);
+    expect(sign.style).toMatchObject({ fontFamily: 'Georgia', color: 'rgb(255, 255, 0)', boxColor: 'rgba(0, 0, 0, 0.498)' });
+  });
+});
+
+describe('parseSubtitles: SSA', () => {
+  const cues = parseSubtitles(SSA, 'ass');
+
+  it('maps legacy alignment numbers onto the numpad', () => {
+    expect(cues.map((cue) => cue.layout.alignment)).toEqual([8, 6, 1]);
+  });
+
+  it('reads decimal colours and falls back to the default canvas', () => {
+    expect(cues[0].style.color).toBe('rgb(255, 255, 255)');
+    expect(cues[0].style.fontSize).toBeCloseTo(20 / 288);
+  });
+});
+
+describe('activeCues', () => {
+  const cues = parseSubtitles(SRT, 'srt');
+
+  it('shows a cue from its start until just before its end', () => {
+    expect(activeCues(cues, 1)).toEqual([cues[0]]);
+    expect(activeCues(cues, 3.5)).toEqual([]);
+  });
+
+  it('shows cues later with a positive delay and earlier with a negative one', () => {
+    expect(activeCues(cues, 1.5, 1)).toEqual([]);
+    expect(activeCues(cues, 4.2, 1)).toEqual([cues[0]]);
+    expect(activeCues(cues, 0.5, -1)).toEqual([cues[0]]);
+  });
+});
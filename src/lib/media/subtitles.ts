@@ -0,0 +1,559 @@
+/**
+ * Subtitle files parsed into cues the overlay can lay out: SRT, WebVTT with
+ * its cue settings, and ASS/SSA with styles, override tags and positioning.
+ * Sizes and positions are fractions of the video frame, so cues scale with
+ * the player.
+ */
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+/** A run of text sharing the same inline styling. */
+export interface CueSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strike?: boolean;
+  /** CSS colour */
+  color?: string;
+}
+
+/** Numpad-style anchor: 1 is bottom-left, 2 bottom-centre, 5 the middle, 9 top-right. */
+export type CueAlignment = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9;
+
+export interface CueLayout {
+  alignment: CueAlignment;
+  /** Where the alignment point sits, when the file places the cue itself. */
+  position?: { x: number; y: number };
+  /** Gap to the frame's edges when the cue isn't placed. */
+  marginX: number;
+  marginY: number;
+  /** Widest the cue may get. */
+  width: number;
+}
+
+export interface CueStyle {
+  fontFamily?: string;
+  /** Line height as a fraction of the frame height; the viewer's size setting multiplies it. */
+  fontSize?: number;
+  color?: string;
+  outlineColor?: string;
+  /** ASS opaque-box styles carry their own box colour. */
+  boxColor?: string;
+}
+
+export interface SubtitleCue {
+  start: number;
+  end: number;
+  /** Lines of styled runs. */
+  lines: CueSpan[][];
+  layout: CueLayout;
+  style: CueStyle;
+  /** Overlapping ASS events stack by layer, higher on top. */
+  layer: number;
+}
+
+export const DEFAULT_CUE_LAYOUT: CueLayout = { alignment: 2, marginX: 0.05, marginY: 0.06, width: 0.9 };
+
+/** Line height for cues whose file doesn't set one, as a fraction of the frame height. */
+export const DEFAULT_CUE_FONT_SIZE = 0.055;
+
+/** How each viewer likes their subtitles; kept per browser, never shared. */
+export interface SubtitleDisplaySettings {
+  /** Multiplies the file's own sizes. */
+  fontScale: number;
+  /** 'none' leaves an outline around the text; 'box' puts a box behind it. */
+  background: 'none' | 'box';
+  backgroundOpacity: number;
+}
+
+export const DEFAULT_SUBTITLE_DISPLAY: SubtitleDisplaySettings = {
+  fontScale: 1,
+  background: 'none',
+  backgroundOpacity: 0.75
+};
+
+export const SUBTITLE_FONT_SCALE_RANGE = { min: 0.5, max: 2 };
+/** Seconds subtitles can be moved either way. */
+export const SUBTITLE_DELAY_RANGE = { min: -10, max: 10 };
+
+const DISPLAY_STORAGE_KEY = 'ustuo_subtitle_display';
+
+export const loadSubtitleDisplay = (): SubtitleDisplaySettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DISPLAY_STORAGE_KEY) || 'null');
+    if (saved && typeof saved === 'object') return { ...DEFAULT_SUBTITLE_DISPLAY, ...saved };
+  } catch {
+    // Fall through to default
+  }
+  return DEFAULT_SUBTITLE_DISPLAY;
+};
+
+export const saveSubtitleDisplay = (settings: SubtitleDisplaySettings) => {
+  localStorage.setItem(DISPLAY_STORAGE_KEY, JSON.stringify(settings));
+};
+
+const SUBTITLE_EXTENSIONS: Record<string, SubtitleFormat> = { srt: 'srt', vtt: 'vtt', ass: 'ass', ssa: 'ass' };
+
+export const SUBTITLE_FILE_ACCEPT = '.srt,.vtt,.ass,.ssa';
+
+/** The format a file is in, by extension first and content second. */
+export const detectSubtitleFormat = (fileName: string, text = ''): SubtitleFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  if (SUBTITLE_EXTENSIONS[extension]) return SUBTITLE_EXTENSIONS[extension];
+  const head = text.replace(/^\uFEFF/, '').trimStart();
+  if (head.startsWith('WEBVTT')) return 'vtt';
+  if (/^\[Script Info\]/i.test(head)) return 'ass';
+  if (/^\d+\s*\r?\n[\d:,]+\s*-->/.test(head)) return 'srt';
+  return null;
+};
+
+/** A language tag from names like `movie.en.srt` or `movie.pt-BR.forced.ass`. */
+export const subtitleLanguage = (fileName: string): string | null => {
+  const parts = fileName.split('.').slice(1, -1).reverse();
+  const tag = parts.find((part) => /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(part));
+  return tag ?? null;
+};
+
+/** Cues showing at `time`, shifted by the viewer's delay (positive shows them later). */
+export const activeCues = (cues: SubtitleCue[], time: number, delay = 0): SubtitleCue[] => {
+  const t = time - delay;
+  return cues.filter((cue) => cue.start <= t && t < cue.end);
+};
+
+export const parseSubtitles = (text: string, format: SubtitleFormat): SubtitleCue[] => {
+  const normalized = text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+  const cues = format === 'ass' ? parseAss(normalized) : format === 'vtt' ? parseVtt(normalized) : parseSrt(normalized);
+  return cues.sort((a, b) => a.start - b.start || a.layer - b.layer);
+};
+
+// --- SRT and WebVTT -------------------------------------------------------
+
+const TIMESTAMP = /(?:(\d+):)?(\d{1,2}):(\d{2})[.,](\d{1,3})/;
+const TIMING_LINE = new RegExp(`^\\s*${TIMESTAMP.source}\\s*-->\\s*${TIMESTAMP.source}(.*)$`);
+
+const toSeconds = (hours: string | undefined, minutes: string, seconds: string, fraction: string) =>
+  Number(hours ?? 0) * 3600 + Number(minutes) * 60 + Number(seconds) + Number(fraction.padEnd(3, '0')) / 1000;
+
+const parseTiming = (line: string) => {
+  const match = line.match(TIMING_LINE);
+  if (!match) return null;
+  return {
+    start: toSeconds(match[1], match[2], match[3], match[4]),
+    end: toSeconds(match[5], match[6], match[7], match[8]),
+    settings: match[9].trim()
+  };
+};
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: '\u00A0', lrm: '\u200E', rlm: '\u200F' };
+
+const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code = name[1].toLowerCase() === 'x' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : entity;
+    }
+    return ENTITIES[name.toLowerCase()] ?? entity;
+  });
+
+/**
+ * Splits the HTML-ish markup SRT and VTT share into styled runs: <b>, <i>,
+ * <u>, <s> and SRT's <font color>. Voice, class and timestamp tags are
+ * dropped, keeping their text.
+ */
+const parseMarkup = (text: string): CueSpan[][] => {
+  const lines: CueSpan[][] = [];
+  const state = { bold: 0, italic: 0, underline: 0, strike: 0 };
+  const colors: string[] = [];
+  let line: CueSpan[] = [];
+
+  const push = (chunk: string) => {
+    if (!chunk) return;
+    const span: CueSpan = { text: decodeEntities(chunk) };
+    if (state.bold) span.bold = true;
+    if (state.italic) span.italic = true;
+    if (state.underline) span.underline = true;
+    if (state.strike) span.strike = true;
+    if (colors.length) span.color = colors[colors.length - 1];
+    line.push(span);
+  };
+
+  const tags = /<(\/)?([a-z]+)([^>]*)>|<[\d:.]+>|\n/gi;
+  let last = 0;
+  for (let match = tags.exec(text); match; match = tags.exec(text)) {
+    push(text.slice(last, match.index));
+    last = tags.lastIndex;
+    if (match[0] === '\n') {
+      lines.push(line);
+      line = [];
+      continue;
+    }
+    // Karaoke timestamps
+    if (!match[2]) continue;
+    const closing = !!match[1];
+    const tag = match[2].toLowerCase();
+    const step = closing ? -1 : 1;
+    if (tag === 'b') state.bold = Math.max(0, state.bold + step);
+    else if (tag === 'i') state.italic = Math.max(0, state.italic + step);
+    else if (tag === 'u') state.underline = Math.max(0, state.underline + step);
+    else if (tag === 's') state.strike = Math.max(0, state.strike + step);
+    else if (tag === 'font') {
+      if (closing) colors.pop();
+      else colors.push(match[3].match(/color\s*=\s*["']?([^"'\s>]+)/i)?.[1] ?? colors[colors.length - 1] ?? '');
+    }
+  }
+  push(text.slice(last));
+  lines.push(line);
+  return lines.map((spans) => spans.filter((span) => span.text)).filter((spans) => spans.length);
+};
+
+/** SRT files often carry an ASS-style {\anN} to move a cue to the top. */
+const srtAlignment = (text: string): { text: string; alignment: CueAlignment } => {
+  const match = text.match(/\{\\an([1-9])\}/);
+  return {
+    text: text.replace(/\{\\[^}]*\}/g, ''),
+    alignment: (match ? Number(match[1]) : 2) as CueAlignment
+  };
+};
+
+const parseSrt = (text: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  for (const block of text.split(/\n{2,}/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    const timing = timingIndex >= 0 ? parseTiming(lines[timingIndex]) : null;
+    if (!timing || timing.end <= timing.start) continue;
+
+    const { text: body, alignment } = srtAlignment(lines.slice(timingIndex + 1).join('\n'));
+    cues.push({
+      start: timing.start,
+      end: timing.end,
+      lines: parseMarkup(body),
+      layout: { ...DEFAULT_CUE_LAYOUT, alignment },
+      style: {},
+      layer: 0
+    });
+  }
+  return cues;
+};
+
+const percent = (value: string | undefined) => {
+  const match = value?.match(/^(-?\d+(?:\.\d+)?)%$/);
+  return match ? Number(match[1]) / 100 : null;
+};
+
+/** Rough height of one line, for WebVTT's line-number positions. */
+const VTT_LINE_HEIGHT = 0.0533;
+
+/**
+ * Lays a cue out from its WebVTT settings (line, position, size, align).
+ * Line numbers count lines from the top, or from the bottom when negative,
+ * and are approximated with a typical line height.
+ */
+export const vttCueLayout = (settings: string): CueLayout => {
+  const values: Record<string, string> = {};
+  for (const setting of settings.split(/\s+/)) {
+    const separator = setting.indexOf(':');
+    if (separator > 0) values[setting.slice(0, separator)] = setting.slice(separator + 1);
+  }
+
+  const align = values.align;
+  const column = align === 'start' || align === 'left' ? 0 : align === 'end' || align === 'right' ? 2 : 1;
+  const width = percent(values.size) ?? DEFAULT_CUE_LAYOUT.width;
+  const [positionValue, positionAlign] = (values.position ?? '').split(',');
+  const [lineValue, lineAlign] = (values.line ?? '').split(',');
+  const position = percent(positionValue);
+
+  // Rows of the numpad from the top: 0 top, 1 middle, 2 bottom
+  let line = percent(lineValue);
+  let row = lineAlign === 'center' ? 1 : lineAlign === 'end' ? 2 : 0;
+  if (line === null && /^-?\d+$/.test(lineValue ?? '')) {
+    const number = Number(lineValue);
+    line = number >= 0 ? number * VTT_LINE_HEIGHT : 1 + (number + 1) * VTT_LINE_HEIGHT;
+    if (number < 0) row = 2;
+  }
+  if (line === null) row = 2;
+
+  const anchor = positionAlign === 'line-left' ? 0 : positionAlign === 'center' ? 1 : positionAlign === 'line-right' ? 2 : column;
+  const alignment = ((2 - row) * 3 + anchor + 1) as CueAlignment;
+  if (line === null && position === null) return { ...DEFAULT_CUE_LAYOUT, alignment, width };
+
+  return {
+    ...DEFAULT_CUE_LAYOUT,
+    alignment,
+    // With no position the cue sits against the edge its alignment names
+    position: { x: position ?? [0, 0.5, 1][anchor], y: line ?? 1 - DEFAULT_CUE_LAYOUT.marginY },
+    width
+  };
+};
+
+const parseVtt = (text: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  const blocks = text.split(/\n{2,}/);
+  for (const block of blocks.slice(1)) {
+    const lines = block.split('\n');
+    // NOTE, STYLE and REGION blocks have no timing line
+    const timingIndex = lines.findIndex((line) => line.includes('-->'));
+    if (timingIndex < 0 || timingIndex > 1) continue;
+    const timing = parseTiming(lines[timingIndex]);
+    if (!timing || timing.end <= timing.start) continue;
+
+    cues.push({
+      start: timing.start,
+      end: timing.end,
+      lines: parseMarkup(lines.slice(timingIndex + 1).join('\n')),
+      layout: vttCueLayout(timing.settings),
+      style: {},
+      layer: 0
+    });
+  }
+  return cues;
+};
+
+// --- ASS / SSA ------------------------------------------------------------
+
+interface AssStyle {
+  style: CueStyle;
+  alignment: CueAlignment;
+  marginL: number;
+  marginR: number;
+  marginV: number;
+  bold: boolean;
+  italic: boolean;
+  underline: boolean;
+  strike: boolean;
+}
+
+/** &HAABBGGRR (alpha 00 is opaque) as a CSS colour. */
+export const assColor = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const trimmed = value.trim().replace(/&$/, '');
+  let number: number;
+  if (/^&H/i.test(trimmed)) number = parseInt(trimmed.slice(2), 16);
+  else if (/^-?\d+$/.test(trimmed)) number = Number(trimmed) >>> 0;
+  else return undefined;
+  if (!Number.isFinite(number)) return undefined;
+
+  const red = number & 0xff;
+  const green = (number >>> 8) & 0xff;
+  const blue = (number >>> 16) & 0xff;
+  const alpha = 1 - ((number >>> 24) & 0xff) / 255;
+  return alpha >= 1 ? `rgb(${red}, ${green}, ${blue})` : `rgba(${red}, ${green}, ${blue}, ${Number(alpha.toFixed(3))})`;
+};
+
+/** SSA numbers rows bottom 1-3, top 5-7, middle 9-11; ASS uses the numpad. */
+const legacyAlignment = (value: number): CueAlignment => {
+  const column = ((value - 1) & 3) + 1;
+  if (value >= 9) return (3 + column) as CueAlignment;
+  if (value >= 5) return (6 + column) as CueAlignment;
+  return column as CueAlignment;
+};
+
+const assTime = (value: string) => {
+  const match = value.trim().match(/^(\d+):(\d{1,2}):(\d{1,2})(?:[.:](\d{1,3}))?$/);
+  if (!match) return null;
+  // Centiseconds in practice, but take whatever precision is written
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3]) + Number(`0.${match[4] ?? '0'}`);
+};
+
+/** Splits `Key: a, b, c` into `count` fields, the last keeping any commas. */
+const splitFields = (value: string, count: number) => {
+  const fields: string[] = [];
+  let rest = value;
+  for (let i = 0; i < count - 1; i++) {
+    const comma = rest.indexOf(',');
+    if (comma < 0) break;
+    fields.push(rest.slice(0, comma).trim());
+    rest = rest.slice(comma + 1);
+  }
+  fields.push(count > 1 ? rest : rest.trim());
+  return fields;
+};
+
+const assFlag = (value: string | undefined) => value !== undefined && value.trim() !== '0' && value.trim() !== '';
+
+const parseAss = (text: string): SubtitleCue[] => {
+  let section = '';
+  let resX = 0;
+  let resY = 0;
+  let legacy = false;
+  let styleFormat: string[] = [];
+  let eventFormat: string[] = [];
+  const styleLines: string[] = [];
+  const dialogueLines: string[] = [];
+
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (!line || line.startsWith(';')) continue;
+    const header = line.match(/^\[(.+)\]$/);
+    if (header) {
+      section = header[1].toLowerCase();
+      if (section === 'v4 styles') legacy = true;
+      continue;
+    }
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (section === 'script info') {
+      if (key === 'playresx') resX = Number(value) || 0;
+      else if (key === 'playresy') resY = Number(value) || 0;
+      else if (key === 'scripttype' && /v4\.00$/i.test(value)) legacy = true;
+    } else if (section.endsWith('styles')) {
+      if (key === 'format') styleFormat = value.split(',').map((field) => field.trim().toLowerCase());
+      else if (key === 'style') styleLines.push(value);
+    } else if (section === 'events') {
+      if (key === 'format') eventFormat = value.split(',').map((field) => field.trim().toLowerCase());
+      else if (key === 'dialogue') dialogueLines.push(value);
+    }
+  }
+
+  // The renderer's defaults when a script leaves its canvas out
+  if (!resX && !resY) { resX = 384; resY = 288; }
+  else if (!resY) resY = resX === 1280 ? 1024 : Math.round(resX * 3 / 4);
+  else if (!resX) resX = resY === 1024 ? 1280 : Math.round(resY * 4 / 3);
+
+  const styles = new Map<string, AssStyle>();
+  for (const value of styleLines) {
+    const fields = splitFields(value, styleFormat.length);
+    const field = (name: string) => fields[styleFormat.indexOf(name)];
+    const alignment = Number(field('alignment')) || 2;
+    const boxed = field('borderstyle')?.trim() === '3';
+    const style: CueStyle = {
+      fontFamily: field('fontname') || undefined,
+      fontSize: Number(field('fontsize')) > 0 ? Number(field('fontsize')) / resY : undefined,
+      color: assColor(field('primarycolour')),
+      outlineColor: Number(field('outline') ?? 1) > 0 || boxed ? assColor(field('outlinecolour')) : undefined,
+      boxColor: boxed ? assColor(field('backcolour')) : undefined
+    };
+    styles.set(field('name')?.replace(/^\*/, '') ?? 'Default', {
+      style,
+      alignment: legacy ? legacyAlignment(alignment) : (Math.min(9, Math.max(1, alignment)) as CueAlignment),
+      marginL: Number(field('marginl')) || 0,
+      marginR: Number(field('marginr')) || 0,
+      marginV: Number(field('marginv')) || 0,
+      bold: assFlag(field('bold')),
+      italic: assFlag(field('italic')),
+      underline: assFlag(field('underline')),
+      strike: assFlag(field('strikeout'))
+    });
+  }
+
+  const fallback: AssStyle = {
+    style: {}, alignment: 2, marginL: 0, marginR: 0, marginV: 0,
+    bold: false, italic: false, underline: false, strike: false
+  };
+  const cues: SubtitleCue[] = [];
+
+  for (const value of dialogueLines) {
+    const fields = splitFields(value, eventFormat.length);
+    const field = (name: string) => fields[eventFormat.indexOf(name)];
+    const start = assTime(field('start') ?? '');
+    const end = assTime(field('end') ?? '');
+    if (start === null || end === null || end <= start) continue;
+
+    const base = styles.get(field('style')?.replace(/^\*/, '') ?? '') ?? styles.get('Default') ?? fallback;
+    const margin = (name: string, styleValue: number) => Number(field(name)) || styleValue;
+    const marginL = margin('marginl', base.marginL);
+    const marginR = margin('marginr', base.marginR);
+    const marginV = margin('marginv', base.marginV);
+
+    const parsed = parseAssText(field('text') ?? '', base, resX, resY);
+    if (!parsed.lines.length) continue;
+
+    cues.push({
+      start,
+      end,
+      lines: parsed.lines,
+      layout: {
+        alignment: parsed.alignment,
+        position: parsed.position,
+        marginX: Math.max(marginL, marginR) / resX,
+        marginY: marginV / resY,
+        width: parsed.position ? 1 : Math.max(0.1, 1 - (marginL + marginR) / resX)
+      },
+      style: { ...base.style, fontSize: parsed.fontSize ?? base.style.fontSize, fontFamily: parsed.fontFamily ?? base.style.fontFamily },
+      layer: Number(field('layer')) || 0
+    });
+  }
+  return cues;
+};
+
+/**
+ * Reads a dialogue line's override blocks: bold, italic, underline,
+ * strikeout and colour per run, and \an, \a, \pos, \fs and \fn for the
+ * whole cue. Drawings (\p1 onward) are skipped; animation and karaoke tags
+ * are ignored, so their text shows in its final state.
+ */
+const parseAssText = (text: string, base: AssStyle, resX: number, resY: number) => {
+  const initial = () => ({
+    bold: base.bold,
+    italic: base.italic,
+    underline: base.underline,
+    strike: base.strike,
+    color: base.style.color
+  });
+  let state = initial();
+  let alignment = base.alignment;
+  let position: { x: number; y: number } | undefined;
+  let fontSize: number | undefined;
+  let fontFamily: string | undefined;
+  let drawing = false;
+
+  const lines: CueSpan[][] = [];
+  let line: CueSpan[] = [];
+
+  const push = (chunk: string) => {
+    if (!chunk || drawing) return;
+    const parts = chunk.replace(/\\h/g, ' ').split(/\\[Nn]/);
+    parts.forEach((part, index) => {
+      if (index > 0) {
+        lines.push(line);
+        line = [];
+      }
+      if (!part) return;
+      const span: CueSpan = { text: part };
+      if (state.bold) span.bold = true;
+      if (state.italic) span.italic = true;
+      if (state.underline) span.underline = true;
+      if (state.strike) span.strike = true;
+      if (state.color && state.color !== base.style.color) span.color = state.color;
+      line.push(span);
+    });
+  };
+
+  const applyTag = (tag: string) => {
+    let match: RegExpMatchArray | null;
+    if ((match = tag.match(/^b(\d+)?$/))) state.bold = match[1] === undefined ? base.bold : match[1] !== '0';
+    else if ((match = tag.match(/^i([01])?$/))) state.italic = match[1] === undefined ? base.italic : match[1] === '1';
+    else if ((match = tag.match(/^u([01])?$/))) state.underline = match[1] === undefined ? base.underline : match[1] === '1';
+    else if ((match = tag.match(/^s([01])?$/))) state.strike = match[1] === undefined ? base.strike : match[1] === '1';
+    else if ((match = tag.match(/^1?c(&H[0-9a-f]+&?)?$/i))) state.color = match[1] ? assColor(match[1]) : base.style.color;
+    else if ((match = tag.match(/^an([1-9])$/))) alignment = Number(match[1]) as CueAlignment;
+    else if ((match = tag.match(/^a(\d+)$/))) alignment = legacyAlignment(Number(match[1]));
+    else if ((match = tag.match(/^pos\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)\s*\)$/))) position = { x: Number(match[1]) / resX, y: Number(match[2]) / resY };
+    // \move starts where \pos would put it
+    else if ((match = tag.match(/^move\(\s*(-?[\d.]+)\s*,\s*(-?[\d.]+)/))) position ??= { x: Number(match[1]) / resX, y: Number(match[2]) / resY };
+    else if ((match = tag.match(/^fs([\d.]+)$/))) fontSize = Number(match[1]) / resY;
+    else if ((match = tag.match(/^fn(.+)$/))) fontFamily = match[1].trim();
+    else if ((match = tag.match(/^p(\d+)$/))) drawing = match[1] !== '0';
+    // \r, or \r with a style name, goes back to the line's own style
+    else if (tag.startsWith('r')) state = initial();
+  };
+
+  const blocks = /\{([^}]*)\}/g;
+  let last = 0;
+  for (let match = blocks.exec(text); match; match = blocks.exec(text)) {
+    push(text.slice(last, match.index));
+    last = blocks.lastIndex;
+    // Tags inside \t(...) animate towards a state; skip them and keep the rest
+    const overrides = match[1].replace(/\\t\([^)]*\)/g, '');
+    for (const tag of overrides.split('\\').slice(1)) applyTag(tag.trim());
+  }
+  push(text.slice(last));
+  lines.push(line);
+
+  const hasText = lines.some((spans) => spans.some((span) => span.text.trim()));
+  return { lines: hasText ? lines : [], alignment, position, fontSize, fontFamily };
+};
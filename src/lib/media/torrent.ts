@@ -0,0 +1,56 @@
+/**
+ * Torrent bookkeeping shared by the WebTorrent client and the player: which
+ * trackers to announce to, which file in a torrent is the video, and the
+ * numbers we show while it streams.
+ */
+
+export interface TorrentStats {
+  /** 0 to 1 */
+  progress: number;
+  downloaded: number;
+  length: number;
+  /** Bytes per second */
+  downloadSpeed: number;
+  uploadSpeed: number;
+  peers: number;
+  done: boolean;
+}
+
+// Browsers can only reach peers over WebRTC, which needs WebSocket trackers
+const PUBLIC_TRACKERS = [
+  'wss://tracker.openwebtorrent.com',
+  'wss://tracker.webtorrent.dev',
+  'wss://tracker.btorrent.xyz'
+];
+
+/**
+ * VITE_TORRENT_TRACKERS (comma separated) replaces the public trackers,
+ * e.g. ws://localhost:8000 from `npm run tracker` for testing offline.
+ */
+export const torrentTrackers = (): string[] => {
+  const configured = (import.meta.env.VITE_TORRENT_TRACKERS as string | undefined)
+    ?.split(',')
+    .map((tracker) => tracker.trim())
+    .filter(Boolean);
+  return configured?.length ? configured : PUBLIC_TRACKERS;
+};
+
+export const isMagnetURI = (value: string) => /^magnet:\?/i.test(value.trim());
+
+/** The btih info hash, lowercased, or null if `magnet` doesn't carry one. */
+export const infoHashFromMagnet = (magnet: string): string | null => {
+  const match = magnet.match(/xt=urn:btih:([a-z0-9]+)/i);
+  return match ? match[1].toLowerCase() : null;
+};
+
+const VIDEO_FILE = /\.(mp4|m4v|webm|mkv|mov|ogv)$/i;
+
+/** The biggest video file, which skips samples and extras. */
+export const pickVideoFile = <T extends { name: string; length: number }>(files: T[]): T | null =>
+  files.filter((file) => VIDEO_FILE.test(file.name)).sort((a, b) => b.length - a.length)[0] ?? null;
+
+export const formatBytes = (bytes: number) => {
+  if (bytes >= 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  if (bytes >= 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${Math.round(bytes / 1024)} KB`;
+};
@@ -0,0 +1,84 @@
+/**
+ * Web Push for calls. The browser's subscription is stored per user in
+ * push_subscriptions; the call-push edge function uses it when a call to
+ * that user starts ringing or is missed, and public/sw.js shows the
+ * notification. Clicking it opens the room with `?answer=<callId>`.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { getAppWorker, isServiceWorkerSupported, registerAppWorker } from '@/lib/serviceWorker';
+
+/** Query parameter the worker opens the room with. */
+export const ANSWER_CALL_PARAM = 'answer';
+
+/** Posted by the worker to a room tab that's already open. */
+export type PushWorkerMessage =
+  | { type: 'answer_call'; callId: string }
+  | { type: 'decline_call'; callId: string };
+
+const VAPID_PUBLIC_KEY = import.meta.env.VITE_VAPID_PUBLIC_KEY as string | undefined;
+
+/** The deployment has a VAPID key, i.e. the call-push function can reach us. */
+export const isPushConfigured = () => !!VAPID_PUBLIC_KEY;
+
+export const isPushSupported = () =>
+  isPushConfigured() &&
+  isServiceWorkerSupported() &&
+  'PushManager' in window &&
+  'Notification' in window;
+
+export const parsePushWorkerMessage = (data: unknown): PushWorkerMessage | null => {
+  if (!data || typeof data !== 'object') return null;
+  const message = data as Partial<PushWorkerMessage>;
+  if (message.type !== 'answer_call' && message.type !== 'decline_call') return null;
+  return typeof message.callId === 'string' ? message as PushWorkerMessage : null;
+};
+
+// pushManager.subscribe wants the key as raw bytes, not base64url
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(padded);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+};
+
+export const getPushSubscription = async () => {
+  if (!isPushSupported()) return null;
+  const registration = await getAppWorker();
+  return (await registration?.pushManager.getSubscription()) ?? null;
+};
+
+/** Asks for permission if needed and stores this browser's subscription for `userId`. */
+export const subscribeToPush = async (userId: string) => {
+  if (!isPushSupported() || !VAPID_PUBLIC_KEY) throw new Error('Push notifications are not supported here');
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') throw new Error('Notifications were not allowed');
+
+  const registration = await registerAppWorker();
+  const subscription = (await registration.pushManager.getSubscription()) ??
+    await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: urlBase64ToUint8Array(VAPID_PUBLIC_KEY)
+    });
+
+  const { endpoint, keys } = subscription.toJSON();
+  if (!endpoint || !keys?.p256dh || !keys.auth) throw new Error('The browser returned an incomplete subscription');
+
+  const { error } = await supabase.from('push_subscriptions').upsert({
+    user_id: userId,
+    endpoint,
+    p256dh: keys.p256dh,
+    auth: keys.auth,
+    user_agent: navigator.userAgent
+  }, { onConflict: 'endpoint' });
+  if (error) throw error;
+  return subscription;
+};
+
+export const unsubscribeFromPush = async () => {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+  const { error } = await supabase.from('push_subscriptions').delete().eq('endpoint', subscription.endpoint);
+  if (error) throw error;
+  await subscription.unsubscribe();
+};
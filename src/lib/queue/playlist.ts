@@ -0,0 +1,68 @@
+/**
+ * Room playlist rules: what plays after the current item, and reordering.
+ * Positions are dense (0..n-1) after every reorder.
+ */
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export const REPEAT_MODES: RepeatMode[] = ['off', 'all', 'one'];
+
+/** How long the "up next" countdown runs before the next item starts. */
+export const AUTO_ADVANCE_COUNTDOWN_MS = 5000;
+
+export interface PlaylistItem {
+  id: string;
+  position: number;
+}
+
+export interface PlaylistOptions {
+  shuffle: boolean;
+  repeat: RepeatMode;
+  /** Items already played this round; shuffle won't pick them again until the round ends. */
+  playedIds?: string[];
+}
+
+export const isRepeatMode = (value: unknown): value is RepeatMode =>
+  typeof value === 'string' && (REPEAT_MODES as string[]).includes(value);
+
+export const nextRepeatMode = (mode: RepeatMode): RepeatMode =>
+  REPEAT_MODES[(REPEAT_MODES.indexOf(mode) + 1) % REPEAT_MODES.length];
+
+/** Returns null when the playlist has run out. */
+export const pickNextItem = <T extends PlaylistItem>(
+  items: T[],
+  currentId: string | null,
+  { shuffle, repeat, playedIds = [] }: PlaylistOptions,
+  random: () => number = Math.random
+): T | null => {
+  if (items.length === 0) return null;
+
+  const current = items.find((item) => item.id === currentId) ?? null;
+  if (repeat === 'one' && current) return current;
+
+  if (shuffle) {
+    const played = new Set([...playedIds, ...(currentId ? [currentId] : [])]);
+    let candidates = items.filter((item) => !played.has(item.id));
+    if (candidates.length === 0) {
+      if (repeat !== 'all') return null;
+      // New round: anything but what just played, unless it's the only item
+      candidates = items.length > 1 ? items.filter((item) => item.id !== currentId) : items;
+    }
+    return candidates[Math.floor(random() * candidates.length)];
+  }
+
+  const sorted = [...items].sort((a, b) => a.position - b.position);
+  if (!current) return sorted[0];
+  const next = sorted.find((item) => item.position > current.position);
+  if (next) return next;
+  return repeat === 'all' ? sorted[0] : null;
+};
+
+/** Moves one item and renumbers positions to match the new order. */
+export const moveItem = <T extends PlaylistItem>(items: T[], fromIndex: number, toIndex: number): T[] => {
+  const next = [...items];
+  const [moved] = next.splice(fromIndex, 1);
+  if (!moved) return items;
+  next.splice(Math.max(0, Math.min(toIndex, next.length)), 0, moved);
+  return next.map((item, position) => ({ ...item, position }));
+};
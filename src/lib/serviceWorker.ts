@@ -0,0 +1,22 @@
+import webTorrentWorkerUrl from 'webtorrent/dist/sw.min.js?url';
+
+/**
+ * public/sw.js does two jobs: it shows call notifications and it serves
+ * WebTorrent streams to media elements. Both need it to control the page.
+ */
+const SERVICE_WORKER_URL = `/sw.js?webtorrent=${encodeURIComponent(webTorrentWorkerUrl)}`;
+
+export const isServiceWorkerSupported = () => typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+export const getAppWorker = () => navigator.serviceWorker.getRegistration('/');
+
+/** Registers the worker if needed and resolves once it's active and controls this page. */
+export const registerAppWorker = async () => {
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: '/' });
+  const registration = await navigator.serviceWorker.ready;
+  if (!navigator.serviceWorker.controller) {
+    // The worker claims open pages when it activates
+    await new Promise((resolve) => navigator.serviceWorker.addEventListener('controllerchange', resolve, { once: true }));
+  }
+  return registration;
+};
@@ -0,0 +1,88 @@
+/**
+ * Common control surface the sync engine drives.
+ * Every player type (native <video>, HLS, DASH, YouTube, Vimeo) is wrapped in one of these.
+ */
+export interface PlayerAdapter {
+  getCurrentTime: () => Promise<number>;
+  isPaused: () => Promise<boolean>;
+  play: () => Promise<void>;
+  pause: () => void;
+  seekTo: (seconds: number) => void;
+  /** Undefined when the underlying player can't change speed. */
+  setPlaybackRate?: (rate: number) => void;
+  /** Whether small (±5%) rate nudges take effect, so drift can be closed without seeking. */
+  supportsRateCorrection: boolean;
+  /** 0 to 1. */
+  setVolume?: (volume: number) => void;
+}
+
+/** Controls exposed by RobustYouTubePlayer / YouTubePlayer via onReadyControls. */
+export interface YouTubeControls {
+  play: () => void;
+  pause: () => void;
+  seekTo: (s: number) => void;
+  getCurrentTime: () => number;
+  getPlayerState: () => number;
+  setPlaybackRate?: (rate: number) => void;
+  getPlaybackRate?: () => number;
+  setVolume?: (volume: number) => void;
+}
+
+/** Controls exposed by VimeoPlayer via onReadyControls. */
+export interface VimeoControls {
+  play: () => void;
+  pause: () => void;
+  seekTo: (s: number) => void;
+  getCurrentTime: () => Promise<number>;
+  getPaused: () => Promise<boolean>;
+  setPlaybackRate?: (rate: number) => void;
+  setVolume?: (volume: number) => void;
+}
+
+// YT.PlayerState.PLAYING / BUFFERING
+const YT_PLAYING = 1;
+const YT_BUFFERING = 3;
+
+export const createMediaElementAdapter = (video: HTMLVideoElement): PlayerAdapter => ({
+  getCurrentTime: async () => video.currentTime,
+  isPaused: async () => video.paused,
+  play: () => video.play(),
+  pause: () => video.pause(),
+  seekTo: (seconds) => { video.currentTime = seconds; },
+  setPlaybackRate: (rate) => { video.playbackRate = rate; },
+  supportsRateCorrection: true,
+  setVolume: (volume) => { video.volume = volume; }
+});
+
+/** hls.js only feeds segments into the element, so HLS is driven like native video. */
+export const createHlsAdapter = (video: HTMLVideoElement): PlayerAdapter => createMediaElementAdapter(video);
+
+/** dash.js works the same way, through Media Source Extensions. */
+export const createDashAdapter = (video: HTMLVideoElement): PlayerAdapter => createMediaElementAdapter(video);
+
+export const createYouTubeAdapter = (controls: YouTubeControls): PlayerAdapter => ({
+  getCurrentTime: async () => controls.getCurrentTime(),
+  isPaused: async () => {
+    const state = controls.getPlayerState();
+    return state !== YT_PLAYING && state !== YT_BUFFERING;
+  },
+  play: async () => controls.play(),
+  pause: () => controls.pause(),
+  seekTo: (seconds) => controls.seekTo(seconds),
+  setPlaybackRate: controls.setPlaybackRate,
+  // YouTube snaps to its preset speeds (0.75, 1, 1.25…), so a 1.03 nudge is a no-op
+  supportsRateCorrection: false,
+  setVolume: controls.setVolume
+});
+
+export const createVimeoAdapter = (controls: VimeoControls): PlayerAdapter => ({
+  getCurrentTime: () => controls.getCurrentTime(),
+  isPaused: () => controls.getPaused(),
+  play: async () => controls.play(),
+  pause: () => controls.pause(),
+  seekTo: (seconds) => controls.seekTo(seconds),
+  setPlaybackRate: controls.setPlaybackRate,
+  // VimeoPlayer only exposes setPlaybackRate when the embed allows speed changes
+  supportsRateCorrection: !!controls.setPlaybackRate,
+  setVolume: controls.setVolume
+});
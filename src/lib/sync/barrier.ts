@@ -0,0 +1,42 @@
+/**
+ * "Wait for everyone" buffering barrier.
+ * While any participant is buffering the room is held; a participant who
+ * stays stalled longer than the max wait is skipped so the others can go on.
+ */
+
+export const BUFFER_MAX_WAIT_MS = 15000;
+
+/** userId -> local time (ms) the participant started buffering */
+export type BufferingPeers = Record<string, number>;
+
+export interface BarrierState {
+  held: boolean;
+  waitingOn: string[];
+  skipped: string[];
+  /** When the next waiting participant will be skipped, if anyone is waited on. */
+  nextExpiryAt: number | null;
+}
+
+export const OPEN_BARRIER: BarrierState = { held: false, waitingOn: [], skipped: [], nextExpiryAt: null };
+
+export const evaluateBarrier = (
+  peers: BufferingPeers,
+  maxWaitMs: number,
+  now: number = Date.now()
+): BarrierState => {
+  const waitingOn: string[] = [];
+  const skipped: string[] = [];
+  let nextExpiryAt: number | null = null;
+
+  for (const [userId, since] of Object.entries(peers)) {
+    const expiresAt = since + maxWaitMs;
+    if (expiresAt <= now) {
+      skipped.push(userId);
+    } else {
+      waitingOn.push(userId);
+      nextExpiryAt = nextExpiryAt === null ? expiresAt : Math.min(nextExpiryAt, expiresAt);
+    }
+  }
+
+  return { held: waitingOn.length > 0, waitingOn, skipped, nextExpiryAt };
+};
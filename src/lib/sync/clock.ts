@@ -0,0 +1,50 @@
+import type { SyncState } from './protocol';
+
+/**
+ * NTP-style clock estimation between two peers.
+ * A ping carries the sender's send time (t0); the pong echoes it with the
+ * peer's receive (t1) and reply (t2) times; t3 is when the pong arrives.
+ * Offset is "peer clock minus local clock".
+ */
+
+export const CLOCK_PING_INTERVAL_MS = 3000;
+export const CLOCK_SAMPLE_WINDOW = 8;
+
+export interface ClockSample {
+  offsetMs: number;
+  rttMs: number;
+}
+
+export interface ClockEstimate {
+  offsetMs: number;
+  rttMs: number;
+  jitterMs: number;
+  samples: number;
+}
+
+export const computeClockSample = (t0: number, t1: number, t2: number, t3: number): ClockSample => ({
+  offsetMs: ((t1 - t0) + (t2 - t3)) / 2,
+  rttMs: Math.max(0, (t3 - t0) - (t2 - t1))
+});
+
+export const addClockSample = (samples: ClockSample[], sample: ClockSample): ClockSample[] =>
+  [...samples, sample].slice(-CLOCK_SAMPLE_WINDOW);
+
+/** Trusts the lowest-RTT sample: it had the least room for asymmetric delay. */
+export const estimateClock = (samples: ClockSample[]): ClockEstimate | null => {
+  if (samples.length === 0) return null;
+  const best = samples.reduce((a, b) => (b.rttMs < a.rttMs ? b : a));
+  const rtts = samples.map((s) => s.rttMs);
+  return {
+    offsetMs: best.offsetMs,
+    rttMs: best.rttMs,
+    jitterMs: Math.max(...rtts) - Math.min(...rtts),
+    samples: samples.length
+  };
+};
+
+/** Re-stamps a remote state so updatedAt is expressed in the local clock. */
+export const toLocalClock = (state: SyncState, offsetMs: number): SyncState => ({
+  ...state,
+  updatedAt: state.updatedAt - offsetMs
+});
@@ -0,0 +1,47 @@
+/**
+ * Who drives playback in a room.
+ * - host_only: only the host's player is broadcast; control moves only on auto-transfer
+ * - shared: either partner drives; acting on the player takes control
+ * - handoff: a follower asks for control and the host accepts or declines
+ *
+ * Every transfer bumps the control term so concurrent claims settle on one host.
+ */
+
+export type ControlMode = 'host_only' | 'shared' | 'handoff';
+
+export const CONTROL_MODES: ControlMode[] = ['host_only', 'shared', 'handoff'];
+
+export const CONTROL_MODE_LABELS: Record<ControlMode, string> = {
+  host_only: 'Host only',
+  shared: 'Shared',
+  handoff: 'Ask for control'
+};
+
+export const isControlMode = (value: unknown): value is ControlMode =>
+  typeof value === 'string' && (CONTROL_MODES as string[]).includes(value);
+
+/** How often the host checks in with the server while it holds control. */
+export const HOST_CHECK_IN_MS = 15000;
+/** Silence after which set_room_control lets a follower take over; keep in step with the migration. */
+export const HOST_GONE_AFTER_MS = 45000;
+
+export interface ControlState {
+  hostId: string | null;
+  mode: ControlMode;
+  term: number;
+}
+
+/**
+ * Whether an incoming control claim replaces the current one.
+ * Newer terms win; two claims on the same term settle on the larger host id.
+ */
+export const isNewerControl = (current: ControlState, incoming: ControlState): boolean => {
+  if (incoming.term !== current.term) return incoming.term > current.term;
+  return (incoming.hostId ?? '') > (current.hostId ?? '');
+};
+
+/** A follower can take control without asking only in shared mode. */
+export const canClaimControl = (mode: ControlMode): boolean => mode === 'shared';
+
+/** A follower can ask the host for control only in handoff mode. */
+export const canRequestControl = (mode: ControlMode): boolean => mode === 'handoff';
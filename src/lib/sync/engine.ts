@@ -0,0 +1,94 @@
+import type { PlayerAdapter } from './adapters';
+import type { SyncState } from './protocol';
+
+// One set of sync parameters for every player type
+export const SYNC_HEARTBEAT_MS = 1000; // host re-broadcasts while playing
+export const DRIFT_THRESHOLD = 0.8; // seconds of drift tolerated before seeking (players without rate control, or paused)
+export const SEEK_THRESHOLD = 3.0; // seconds of drift too large to close by nudging the rate
+export const RATE_DEADBAND = 0.1; // seconds of drift left alone
+export const RATE_GAIN = 0.1; // rate change per second of drift
+export const MAX_RATE_CORRECTION = 0.05; // nudged rate stays within ±5% of the host's
+
+/**
+ * Projects a remote state forward to `now`: a playing host has moved on
+ * by (elapsed × playbackRate) since it stamped the state.
+ */
+export const projectSyncState = (state: SyncState, now: number = Date.now()): SyncState => {
+  if (state.status !== 'play') return state;
+  const elapsed = Math.max(0, (now - state.updatedAt) / 1000);
+  return {
+    ...state,
+    currentTime: state.currentTime + elapsed * (state.playbackRate || 1),
+    updatedAt: now
+  };
+};
+
+export const shouldSeek = (localTime: number, remoteTime: number): boolean =>
+  Math.abs(localTime - remoteTime) > DRIFT_THRESHOLD;
+
+export interface DriftCorrection {
+  seek: boolean;
+  /** Multiplier applied on top of the host's playback rate. */
+  rateFactor: number;
+}
+
+/**
+ * Proportional controller for a playing follower.
+ * `drift` is local minus target: positive means we're ahead and should slow down.
+ */
+export const computeDriftCorrection = (drift: number, canNudgeRate: boolean): DriftCorrection => {
+  const magnitude = Math.abs(drift);
+
+  if (!canNudgeRate) {
+    return { seek: magnitude > DRIFT_THRESHOLD, rateFactor: 1 };
+  }
+  if (magnitude > SEEK_THRESHOLD) {
+    return { seek: true, rateFactor: 1 };
+  }
+  if (magnitude <= RATE_DEADBAND) {
+    return { seek: false, rateFactor: 1 };
+  }
+
+  const correction = Math.min(MAX_RATE_CORRECTION, magnitude * RATE_GAIN);
+  return { seek: false, rateFactor: drift > 0 ? 1 - correction : 1 + correction };
+};
+
+export interface ApplyResult {
+  drift: number;
+  seeked: boolean;
+  /** Rate the player was set to, including any drift nudge. */
+  playbackRate: number;
+}
+
+/**
+ * Drives a player to match a remote state.
+ * Rejects if the player refuses to start (autoplay policy) so callers can prompt the user.
+ */
+export const applySyncState = async (
+  adapter: PlayerAdapter,
+  state: SyncState,
+  now: number = Date.now()
+): Promise<ApplyResult> => {
+  const target = projectSyncState(state, now);
+  const localTime = await adapter.getCurrentTime();
+  const drift = localTime - target.currentTime;
+  const baseRate = target.playbackRate || 1;
+
+  // A paused player has nothing to nudge, so it snaps to the exact position
+  const correction = target.status === 'play'
+    ? computeDriftCorrection(drift, adapter.supportsRateCorrection)
+    : { seek: shouldSeek(localTime, target.currentTime), rateFactor: 1 };
+
+  if (correction.seek) adapter.seekTo(target.currentTime);
+  const playbackRate = baseRate * correction.rateFactor;
+  adapter.setPlaybackRate?.(playbackRate);
+
+  const paused = await adapter.isPaused();
+  if (target.status === 'play' && paused) {
+    await adapter.play();
+  } else if (target.status !== 'play' && !paused) {
+    adapter.pause();
+  }
+
+  return { drift, seeked: correction.seek, playbackRate };
+};
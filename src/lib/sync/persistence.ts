@@ -0,0 +1,41 @@
+import { DRIFT_THRESHOLD, projectSyncState } from './engine';
+import type { SyncState } from './protocol';
+
+/**
+ * Playback state persistence.
+ * The channel carries every heartbeat; the database only has to seat a late
+ * joiner, so the host writes on transitions and at periodic checkpoints.
+ * write_playback_state rejects anything not newer by (epoch, seq).
+ */
+
+export const PLAYBACK_CHECKPOINT_MS = 10000;
+
+type StateOrder = Pick<SyncState, 'epoch' | 'seq'>;
+
+export const compareStateOrder = (a: StateOrder, b: StateOrder): number =>
+  a.epoch - b.epoch || a.seq - b.seq;
+
+export const isStaleState = (incoming: StateOrder, last: StateOrder | null): boolean =>
+  !!last && compareStateOrder(incoming, last) <= 0;
+
+/** Wall-clock based so a writer that reloads mid-epoch keeps climbing past its old writes. */
+export const nextSeq = (lastSeq: number, now: number = Date.now()): number => Math.max(lastSeq + 1, now);
+
+/** Play/pause, a source or rate change, or a seek away from where the previous state was heading. */
+export const isTransition = (prev: SyncState | null, next: SyncState): boolean => {
+  if (!prev) return true;
+  if (
+    prev.status !== next.status ||
+    prev.sourceType !== next.sourceType ||
+    prev.sourceUrl !== next.sourceUrl ||
+    prev.playbackRate !== next.playbackRate
+  ) {
+    return true;
+  }
+  const expected = projectSyncState(prev, next.updatedAt).currentTime;
+  return Math.abs(expected - next.currentTime) > DRIFT_THRESHOLD;
+};
+
+export const shouldPersist = (lastPersisted: SyncState | null, next: SyncState): boolean =>
+  isTransition(lastPersisted, next) ||
+  next.updatedAt - (lastPersisted?.updatedAt ?? 0) >= PLAYBACK_CHECKPOINT_MS;
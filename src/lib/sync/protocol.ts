@@ -0,0 +1,79 @@
+/**
+ * Wire protocol for room playback sync.
+ * Every message on the sync channel is an envelope tagged with the protocol
+ * version, so older clients can ignore messages they don't understand.
+ */
+
+import type { ControlMode } from './control';
+
+export const SYNC_PROTOCOL_VERSION = 1;
+
+/** Single broadcast event name used for all sync messages. */
+export const SYNC_EVENT = 'sync';
+
+export type SyncSourceType = 'youtube' | 'local' | 'url' | 'vimeo' | 'hls' | 'dash' | 'stream' | 'torrent';
+
+export type SyncStatus = 'play' | 'pause' | 'buffering';
+
+export interface SyncState {
+  status: SyncStatus;
+  currentTime: number;
+  playbackRate: number;
+  sourceType: SyncSourceType;
+  sourceUrl: string;
+  updatedAt: number;
+  hostId: string;
+  /** Control term the state was written under; bumps on every host change. */
+  epoch: number;
+  /** Monotonic within an epoch. */
+  seq: number;
+}
+
+/** State as produced by a player, before the engine stamps it. */
+export type LocalSyncState = Omit<SyncState, 'hostId' | 'updatedAt' | 'epoch' | 'seq'>;
+
+/**
+ * A stream rendition both partners hold to. Described by size rather than by
+ * level index, since each player may be offered a different ladder.
+ */
+export interface RenditionLock {
+  height: number;
+  bitrate: number;
+  /** Language of the audio track to play, or null to leave each player's own. */
+  audioLang: string | null;
+}
+
+export type SyncMessage =
+  | { v: typeof SYNC_PROTOCOL_VERSION; type: 'state'; senderId: string; state: SyncState }
+  // Control: the host re-states control on join; host_change moves it to someone else
+  | { v: typeof SYNC_PROTOCOL_VERSION; type: 'host_announce'; senderId: string; hostId: string; mode: ControlMode; term: number }
+  | { v: typeof SYNC_PROTOCOL_VERSION; type: 'host_change'; senderId: string; hostId: string; mode: ControlMode; term: number }
+  | { v: typeof SYNC_PROTOCOL_VERSION; type: 'control_request'; senderId: string }
+  | { v: typeof SYNC_PROTOCOL_VERSION; type: 'control_response'; senderId: string; to: string; accepted: boolean }
+  | { v: typeof SYNC_PROTOCOL_VERSION; type: 'buffering'; senderId: string; buffering: boolean }
+  // A rendition lock for both players; null releases it
+  | { v: typeof SYNC_PROTOCOL_VERSION; type: 'rendition'; senderId: string; lock: RenditionLock | null }
+  // Clock sync: t0 = ping sent, t1 = ping received, t2 = pong sent (each in its sender's clock)
+  | { v: typeof SYNC_PROTOCOL_VERSION; type: 'clock_ping'; senderId: string; t0: number }
+  | { v: typeof SYNC_PROTOCOL_VERSION; type: 'clock_pong'; senderId: string; to: string; t0: number; t1: number; t2: number };
+
+export type SyncMessageType = SyncMessage['type'];
+
+type SyncMessageBody<T extends SyncMessageType> = Omit<Extract<SyncMessage, { type: T }>, 'v' | 'type' | 'senderId'>;
+
+export const syncChannelName = (roomId: string) => `playback_sync_${roomId}`;
+
+export const createSyncMessage = <T extends SyncMessageType>(
+  type: T,
+  senderId: string,
+  body: SyncMessageBody<T>
+) => ({ v: SYNC_PROTOCOL_VERSION, type, senderId, ...body }) as unknown as Extract<SyncMessage, { type: T }>;
+
+/** Returns null for malformed payloads or messages from another protocol version. */
+export const parseSyncMessage = (payload: unknown): SyncMessage | null => {
+  if (!payload || typeof payload !== 'object') return null;
+  const message = payload as Partial<SyncMessage>;
+  if (message.v !== SYNC_PROTOCOL_VERSION) return null;
+  if (typeof message.type !== 'string' || typeof message.senderId !== 'string') return null;
+  return message as SyncMessage;
+};
@@ -0,0 +1,88 @@
+/**
+ * Steps the outgoing call video between the `VIDEO_QUALITY_PRESETS` levels.
+ * Down is quick, up is slow: a level is dropped after a couple of congested
+ * polls, and only raised once the link has been clean for a while. Only
+ * the send-side figures count: how the partner receives us, not how we
+ * receive them.
+ */
+
+import { VIDEO_QUALITY_PRESETS, type VideoQuality } from '@/utils/videoQuality';
+import type { CallStatsSample } from './callStats';
+
+export type AdaptiveVideoQuality = Exclude<VideoQuality, 'auto'>;
+
+export const ADAPTIVE_VIDEO_LEVELS: AdaptiveVideoQuality[] = ['360p', '480p', '720p', '1080p'];
+
+export const INITIAL_CALL_VIDEO_QUALITY: AdaptiveVideoQuality = '720p';
+
+const DOWNGRADE_SAMPLES = 2;
+const UPGRADE_SAMPLES = 5;
+/** Headroom the bandwidth estimate needs over the next level's bitrate. */
+const UPGRADE_HEADROOM = 1.2;
+
+const bandwidthKbps = (quality: AdaptiveVideoQuality) => VIDEO_QUALITY_PRESETS[quality].bandwidth;
+
+const isCongested = (sample: CallStatsSample, quality: AdaptiveVideoQuality) =>
+  sample.sendPacketLoss > 5
+  || sample.sendRttMs > 400
+  || sample.sendJitterMs > 100
+  || (sample.availableOutgoingKbps > 0 && sample.availableOutgoingKbps < bandwidthKbps(quality) * 0.8);
+
+const hasHeadroom = (sample: CallStatsSample, next: AdaptiveVideoQuality) =>
+  sample.sendPacketLoss < 1
+  && sample.sendRttMs < 250
+  && sample.sendJitterMs < 30
+  // Without an estimate (Firefox) a clean link is all we have to go on
+  && (sample.availableOutgoingKbps === 0 || sample.availableOutgoingKbps >= bandwidthKbps(next) * UPGRADE_HEADROOM);
+
+/**
+ * The level to send at next. `recent` holds the samples taken since the last
+ * change, oldest first; `ceiling` is the highest level the camera can fill.
+ */
+export const nextVideoQuality = (
+  current: AdaptiveVideoQuality,
+  recent: CallStatsSample[],
+  ceiling: AdaptiveVideoQuality = '1080p'
+): AdaptiveVideoQuality => {
+  const index = ADAPTIVE_VIDEO_LEVELS.indexOf(current);
+  const maxIndex = ADAPTIVE_VIDEO_LEVELS.indexOf(ceiling);
+  if (index > maxIndex) return ceiling;
+
+  const lastDown = recent.slice(-DOWNGRADE_SAMPLES);
+  if (index > 0 && lastDown.length === DOWNGRADE_SAMPLES && lastDown.every((sample) => isCongested(sample, current))) {
+    return ADAPTIVE_VIDEO_LEVELS[index - 1];
+  }
+
+  const next = ADAPTIVE_VIDEO_LEVELS[index + 1];
+  const lastUp = recent.slice(-UPGRADE_SAMPLES);
+  if (next && index < maxIndex && lastUp.length === UPGRADE_SAMPLES && lastUp.every((sample) => hasHeadroom(sample, next))) {
+    return next;
+  }
+  return current;
+};
+
+/** Highest level at or below the camera's capture height. */
+export const videoQualityCeiling = (captureHeight: number | undefined): AdaptiveVideoQuality => {
+  if (!captureHeight) return '1080p';
+  const fitting = ADAPTIVE_VIDEO_LEVELS.filter((quality) => VIDEO_QUALITY_PRESETS[quality].height <= captureHeight);
+  return fitting[fitting.length - 1] ?? '360p';
+};
+
+/**
+ * Caps the sender's bitrate and resolution at `quality` without renegotiating.
+ * Returns false when there is no video sender to adjust.
+ */
+export const applyVideoQuality = async (pc: RTCPeerConnection, quality: AdaptiveVideoQuality): Promise<boolean> => {
+  const sender = pc.getSenders().find((candidate) => candidate.track?.kind === 'video');
+  if (!sender?.track) return false;
+
+  const preset = VIDEO_QUALITY_PRESETS[quality];
+  const captureHeight = sender.track.getSettings().height || preset.height;
+  const parameters = sender.getParameters();
+  // Firefox reports no encodings until one is set
+  if (!parameters.encodings?.length) parameters.encodings = [{}];
+  parameters.encodings[0].maxBitrate = preset.bandwidth * 1000;
+  parameters.encodings[0].scaleResolutionDownBy = Math.max(1, captureHeight / preset.height);
+  await sender.setParameters(parameters);
+  return true;
+};
@@ -0,0 +1,121 @@
+/**
+ * The calls table as call history. The caller's side owns the row: it
+ * creates it when dialling and records how an unanswered call ended.
+ * Either side can close an answered call, so whoever hangs up first (or
+ * notices the drop) writes the duration.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { CallType } from './callMachine';
+
+export type CallRow = Tables<'calls'>;
+
+export type CallOutcome = 'completed' | 'missed' | 'declined' | 'cancelled' | 'ongoing';
+
+export interface WeeklyTalkTime {
+  /** Monday 00:00 local time. */
+  weekStart: Date;
+  seconds: number;
+  calls: number;
+}
+
+export type UnansweredStatus = 'missed' | 'rejected' | 'cancelled';
+
+export const CALL_HISTORY_LIMIT = 50;
+
+// The table predates 'voice' and calls it 'audio'
+const toColumnType = (type: CallType) => (type === 'voice' ? 'audio' : 'video');
+
+export const callTypeOf = (row: Pick<CallRow, 'call_type'>): CallType =>
+  row.call_type === 'audio' ? 'voice' : 'video';
+
+export const callOutcome = (row: Pick<CallRow, 'status'>): CallOutcome => {
+  switch (row.status) {
+    case 'ended':
+      return 'completed';
+    case 'rejected':
+      return 'declined';
+    case 'accepted':
+      return 'ongoing';
+    case 'cancelled':
+      return 'cancelled';
+    default:
+      return 'missed';
+  }
+};
+
+/** Monday-based, in local time, like the calendar the user sees. */
+export const startOfWeek = (date: Date) => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  return start;
+};
+
+/** Talk time per week, oldest first, including weeks without calls. */
+export const weeklyTalkTime = (rows: CallRow[], weeks: number, now = new Date()): WeeklyTalkTime[] => {
+  const current = startOfWeek(now);
+  const buckets = Array.from({ length: weeks }, (_, index) => {
+    const weekStart = new Date(current);
+    weekStart.setDate(weekStart.getDate() - (weeks - 1 - index) * 7);
+    return { weekStart, seconds: 0, calls: 0 };
+  });
+
+  for (const row of rows) {
+    if (row.status !== 'ended' || !row.duration_seconds) continue;
+    const week = startOfWeek(new Date(row.started_at ?? row.created_at)).getTime();
+    const bucket = buckets.find((entry) => entry.weekStart.getTime() === week);
+    if (!bucket) continue;
+    bucket.seconds += row.duration_seconds;
+    bucket.calls++;
+  }
+  return buckets;
+};
+
+export const formatCallDuration = (seconds: number) => {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  if (hours) return `${hours}h ${minutes}m`;
+  if (minutes) return `${minutes}m ${seconds % 60}s`;
+  return `${seconds}s`;
+};
+
+const logError = (action: string) => ({ error }: { error: unknown }) => {
+  if (error) console.warn(`[CallLog] Could not ${action}:`, error);
+};
+
+export const logCallDialed = (callId: string, roomId: string, callerId: string, receiverId: string, type: CallType) =>
+  supabase
+    .from('calls')
+    .insert({ id: callId, room_id: roomId, caller_id: callerId, receiver_id: receiverId, call_type: toColumnType(type), status: 'ringing' })
+    .then(logError('record the call'));
+
+export const logCallAnswered = (callId: string, startedAt: number) =>
+  supabase
+    .from('calls')
+    .update({ status: 'accepted', started_at: new Date(startedAt).toISOString() })
+    .eq('id', callId)
+    .then(logError('record the answer'));
+
+/** Only the first side to get here writes, so the two durations can't fight. */
+export const logCallEnded = (callId: string, startedAt: number, endedAt = Date.now()) =>
+  supabase
+    .from('calls')
+    .update({
+      status: 'ended',
+      ended_at: new Date(endedAt).toISOString(),
+      duration_seconds: Math.max(0, Math.round((endedAt - startedAt) / 1000))
+    })
+    .eq('id', callId)
+    .eq('status', 'accepted')
+    .then(logError('record the end of the call'));
+
+/** 'missed' is for the ring timing out; a caller who gives up first records 'cancelled'. */
+export const logCallUnanswered = (callId: string, status: UnansweredStatus) =>
+  supabase
+    .from('calls')
+    .update({ status, ended_at: new Date().toISOString() })
+    .eq('id', callId)
+    .eq('status', 'ringing')
+    .then(logError(`mark the call ${status}`));
@@ -0,0 +1,182 @@
+import { describe, expect, it, vi } from 'vitest';
+import { isCallActive, isInCall, transitionCall, type CallEvent, type CallState } from './callMachine';
+import { createLoopbackTransports, type CallSignal, type SignalingTransport } from './signaling';
+
+// signaling.ts pulls in the Supabase client, which needs browser storage; the loopback never touches it
+vi.mock('@/integrations/supabase/client', () => ({ supabase: {} }));
+
+/** Loopback delivery is queued as microtasks, so a macrotask runs after all of it. */
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+/** One side of a call: maps incoming signals onto machine events the way the call manager does. */
+const createParty = (userId: string, transport: SignalingTransport) => {
+  const party = {
+    state: 'idle' as CallState,
+    callId: null as string | null,
+    dispatch: (event: CallEvent) => {
+      const next = transitionCall(party.state, event);
+      if (next) party.state = next;
+      return next;
+    },
+    send: (signal: CallSignal) => transport.send(signal)
+  };
+
+  transport.subscribe((signal) => {
+    if (signal.type === 'invite') {
+      if (signal.to !== userId || party.state !== 'idle') return;
+      party.callId = signal.callId;
+      party.dispatch('incoming');
+      return;
+    }
+    if (signal.callId !== party.callId) return;
+    switch (signal.type) {
+      case 'accept':
+        if (party.state === 'calling') party.dispatch('accepted');
+        break;
+      case 'decline':
+        if (party.state === 'calling') party.dispatch('remote_hang_up');
+        break;
+      case 'cancel':
+        if (party.state === 'ringing') party.dispatch('remote_hang_up');
+        break;
+      case 'hang_up':
+        party.dispatch('remote_hang_up');
+        break;
+      case 'ice_restart':
+        party.dispatch('ice_restart');
+        break;
+    }
+  });
+  return party;
+};
+
+const setUp = () => {
+  const [callerEnd, calleeEnd] = createLoopbackTransports();
+  const caller = createParty('alice', callerEnd);
+  const callee = createParty('bob', calleeEnd);
+  return { caller, callee, callerEnd, calleeEnd };
+};
+
+const invite = async (caller: ReturnType<typeof createParty>, callId = 'call-1') => {
+  caller.callId = callId;
+  caller.dispatch('dial');
+  await caller.send({ type: 'invite', callId, from: 'alice', to: 'bob', callType: 'video', sentAt: Date.now() });
+  await flush();
+};
+
+const connect = async ({ caller, callee }: ReturnType<typeof setUp>) => {
+  await invite(caller);
+  callee.dispatch('accept');
+  await callee.send({ type: 'accept', callId: 'call-1', from: 'bob' });
+  await flush();
+  for (const party of [caller, callee]) {
+    party.dispatch('media_ready');
+    party.dispatch('peer_connected');
+  }
+};
+
+describe('call machine over the loopback transports', () => {
+  it('rings the callee on invite and connects both sides on accept', async () => {
+    const call = setUp();
+    await invite(call.caller);
+    expect(call.caller.state).toBe('calling');
+    expect(call.callee.state).toBe('ringing');
+
+    call.callee.dispatch('accept');
+    expect(call.callee.state).toBe('requesting');
+    await call.callee.send({ type: 'accept', callId: 'call-1', from: 'bob' });
+    await flush();
+    expect(call.caller.state).toBe('requesting');
+
+    for (const party of [call.caller, call.callee]) {
+      expect(party.dispatch('media_ready')).toBe('connecting');
+      expect(party.dispatch('peer_connected')).toBe('connected');
+    }
+  });
+
+  it('ends the caller when the callee declines', async () => {
+    const call = setUp();
+    await invite(call.caller);
+    call.callee.dispatch('hang_up');
+    await call.callee.send({ type: 'decline', callId: 'call-1', from: 'bob' });
+    await flush();
+    expect(call.callee.state).toBe('ended');
+    expect(call.caller.state).toBe('ended');
+  });
+
+  it('stops the ring when the caller cancels, but not once the callee has answered', async () => {
+    const call = setUp();
+    await invite(call.caller);
+    call.caller.dispatch('hang_up');
+    await call.caller.send({ type: 'cancel', callId: 'call-1', from: 'alice' });
+    await flush();
+    expect(call.callee.state).toBe('ended');
+
+    const late = setUp();
+    await invite(late.caller);
+    late.callee.dispatch('accept');
+    await late.caller.send({ type: 'cancel', callId: 'call-1', from: 'alice' });
+    await flush();
+    expect(late.callee.state).toBe('requesting');
+  });
+
+  it('ends both sides on hang up', async () => {
+    const call = setUp();
+    await connect(call);
+    call.callee.dispatch('hang_up');
+    await call.callee.send({ type: 'hang_up', callId: 'call-1', from: 'bob' });
+    await flush();
+    expect(call.callee.state).toBe('ended');
+    expect(call.caller.state).toBe('ended');
+    expect(call.caller.dispatch('reset')).toBe('idle');
+  });
+
+  it('moves the initiator to reconnecting on an ICE restart request and back on reconnect', async () => {
+    const call = setUp();
+    await connect(call);
+    await call.callee.send({ type: 'ice_restart', callId: 'call-1', from: 'bob', attempt: 0 });
+    await flush();
+    expect(call.caller.state).toBe('reconnecting');
+    expect(call.caller.dispatch('peer_connected')).toBe('connected');
+  });
+
+  it('ignores signals for another call and a second invite while busy', async () => {
+    const call = setUp();
+    await connect(call);
+    await call.callee.send({ type: 'hang_up', callId: 'call-0', from: 'bob' });
+    await invite(call.caller, 'call-2');
+    expect(call.caller.state).toBe('connected');
+    expect(call.callee.state).toBe('connected');
+  });
+
+  it('delivers nothing to a closed end', async () => {
+    const call = setUp();
+    call.calleeEnd.close();
+    await invite(call.caller);
+    expect(call.callee.state).toBe('idle');
+  });
+});
+
+describe('transitionCall', () => {
+  it('rejects events that do not apply in the current state', () => {
+    expect(transitionCall('idle', 'accept')).toBeNull();
+    expect(transitionCall('calling', 'accept')).toBeNull();
+    expect(transitionCall('requesting', 'peer_connected')).toBeNull();
+    expect(transitionCall('connecting', 'ice_restart')).toBeNull();
+    expect(transitionCall('ended', 'hang_up')).toBeNull();
+  });
+
+  it('lets any live state hang up or fail', () => {
+    for (const state of ['calling', 'ringing', 'requesting', 'connecting', 'connected', 'reconnecting'] as const) {
+      expect(transitionCall(state, 'hang_up')).toBe('ended');
+      expect(transitionCall(state, 'fail')).toBe('failed');
+    }
+  });
+
+  it('counts only states with media live as in a call', () => {
+    expect(isInCall('ringing')).toBe(false);
+    expect(isCallActive('ringing')).toBe(true);
+    expect(isInCall('reconnecting')).toBe(true);
+    expect(isCallActive('ended')).toBe(false);
+  });
+});
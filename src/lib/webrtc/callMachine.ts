@@ -0,0 +1,62 @@
+/**
+ * Call lifecycle as an explicit state machine. Every change of call state goes
+ * through `transitionCall`; events that don't apply in the current state are
+ * rejected rather than half-applied.
+ */
+
+export type CallType = 'video' | 'voice';
+
+export type CallState =
+  | 'idle'
+  | 'calling' // we invited the partner, waiting for an answer
+  | 'ringing' // the partner is inviting us
+  | 'requesting' // call accepted, asking for camera/mic
+  | 'connecting' // media ready, peer connection negotiating
+  | 'connected'
+  | 'reconnecting' // connection dropped mid-call, restarting ICE or rebuilding the peer
+  | 'ended'
+  | 'failed';
+
+export type CallEvent =
+  | 'dial'
+  | 'incoming'
+  | 'accept' // we answered
+  | 'accepted' // the partner answered us
+  | 'media_ready'
+  | 'peer_connected'
+  | 'peer_lost'
+  | 'ice_restart' // network changed; same connection, new ICE candidates
+  | 'hang_up' // we ended, cancelled or declined
+  | 'remote_hang_up' // the partner ended, cancelled or declined
+  | 'timeout'
+  | 'fail'
+  | 'reset';
+
+const HANG_UPS: Partial<Record<CallEvent, CallState>> = {
+  hang_up: 'ended',
+  remote_hang_up: 'ended',
+  fail: 'failed'
+};
+
+const TRANSITIONS: Record<CallState, Partial<Record<CallEvent, CallState>>> = {
+  idle: { dial: 'calling', incoming: 'ringing' },
+  calling: { ...HANG_UPS, accepted: 'requesting', timeout: 'ended' },
+  ringing: { ...HANG_UPS, accept: 'requesting', timeout: 'ended' },
+  requesting: { ...HANG_UPS, media_ready: 'connecting' },
+  connecting: { ...HANG_UPS, peer_connected: 'connected', peer_lost: 'reconnecting' },
+  connected: { ...HANG_UPS, peer_lost: 'reconnecting', ice_restart: 'reconnecting' },
+  reconnecting: { ...HANG_UPS, peer_connected: 'connected', peer_lost: 'reconnecting', ice_restart: 'reconnecting' },
+  ended: { reset: 'idle' },
+  failed: { reset: 'idle' }
+};
+
+/** Returns null when `event` isn't valid in `state`. */
+export const transitionCall = (state: CallState, event: CallEvent): CallState | null =>
+  TRANSITIONS[state][event] ?? null;
+
+/** States with our camera/mic live. */
+export const isInCall = (state: CallState): boolean =>
+  state === 'requesting' || state === 'connecting' || state === 'connected' || state === 'reconnecting';
+
+export const isCallActive = (state: CallState): boolean =>
+  state === 'calling' || state === 'ringing' || isInCall(state);
@@ -0,0 +1,127 @@
+/**
+ * Records a call into one WebM: both audio tracks mixed, and on video calls
+ * the partner and us side by side on a canvas. Everything stays in memory
+ * until `stop()` hands back the file.
+ */
+
+const TILE_WIDTH = 640;
+const TILE_HEIGHT = 360;
+const FRAME_RATE = 30;
+const CHUNK_MS = 1000;
+
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm'];
+
+export interface CallRecorder {
+  /** Follows the partner's stream across reconnects. */
+  setRemoteStream: (stream: MediaStream | null) => void;
+  stop: () => Promise<Blob>;
+}
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && typeof AudioContext !== 'undefined';
+
+const pickMimeType = (withVideo: boolean) =>
+  (withVideo ? VIDEO_MIME_TYPES : AUDIO_MIME_TYPES).find((type) => MediaRecorder.isTypeSupported(type)) ?? '';
+
+const createHiddenVideo = () => {
+  const video = document.createElement('video');
+  video.muted = true;
+  video.playsInline = true;
+  return video;
+};
+
+const attach = (video: HTMLVideoElement, stream: MediaStream | null) => {
+  video.srcObject = stream;
+  if (stream) video.play().catch(() => {});
+};
+
+/** Fits `video` into its tile, letterboxed, without cropping. */
+const drawTile = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement, x: number) => {
+  if (video.readyState < HTMLMediaElement.HAVE_CURRENT_DATA || !video.videoWidth) return;
+  const scale = Math.min(TILE_WIDTH / video.videoWidth, TILE_HEIGHT / video.videoHeight);
+  const width = video.videoWidth * scale;
+  const height = video.videoHeight * scale;
+  ctx.drawImage(video, x + (TILE_WIDTH - width) / 2, (TILE_HEIGHT - height) / 2, width, height);
+};
+
+export const createCallRecorder = (
+  localStream: MediaStream,
+  remoteStream: MediaStream | null,
+  withVideo: boolean
+): CallRecorder => {
+  const audioCtx = new AudioContext();
+  const mix = audioCtx.createMediaStreamDestination();
+  const audioSources = new Map<'local' | 'remote', MediaStreamAudioSourceNode>();
+
+  const connectAudio = (key: 'local' | 'remote', stream: MediaStream | null) => {
+    audioSources.get(key)?.disconnect();
+    audioSources.delete(key);
+    const track = stream?.getAudioTracks()[0];
+    if (!track) return;
+    const source = audioCtx.createMediaStreamSource(new MediaStream([track]));
+    source.connect(mix);
+    audioSources.set(key, source);
+  };
+  connectAudio('local', localStream);
+  connectAudio('remote', remoteStream);
+
+  const tracks: MediaStreamTrack[] = [...mix.stream.getAudioTracks()];
+  const localVideo = createHiddenVideo();
+  const remoteVideo = createHiddenVideo();
+  let drawTimer: number | null = null;
+
+  if (withVideo) {
+    const canvas = document.createElement('canvas');
+    canvas.width = TILE_WIDTH * 2;
+    canvas.height = TILE_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    attach(localVideo, localStream);
+    attach(remoteVideo, remoteStream);
+
+    // A timer rather than requestAnimationFrame, which stops in background tabs
+    drawTimer = window.setInterval(() => {
+      if (!ctx) return;
+      ctx.fillStyle = '#000';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      drawTile(ctx, remoteVideo, 0);
+      drawTile(ctx, localVideo, TILE_WIDTH);
+    }, 1000 / FRAME_RATE);
+    tracks.push(...canvas.captureStream(FRAME_RATE).getVideoTracks());
+  }
+
+  const mimeType = pickMimeType(withVideo);
+  const recorder = new MediaRecorder(new MediaStream(tracks), mimeType ? { mimeType } : undefined);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (event) => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  recorder.start(CHUNK_MS);
+
+  const cleanup = () => {
+    if (drawTimer) clearInterval(drawTimer);
+    tracks.forEach((track) => track.stop());
+    attach(localVideo, null);
+    attach(remoteVideo, null);
+    audioCtx.close().catch(() => {});
+  };
+
+  return {
+    setRemoteStream: (stream) => {
+      connectAudio('remote', stream);
+      if (withVideo) attach(remoteVideo, stream);
+    },
+    stop: () => new Promise<Blob>((resolve) => {
+      const finish = () => {
+        cleanup();
+        resolve(new Blob(chunks, { type: recorder.mimeType || mimeType || 'video/webm' }));
+      };
+      if (recorder.state === 'inactive') {
+        finish();
+        return;
+      }
+      recorder.addEventListener('stop', finish, { once: true });
+      recorder.stop();
+    })
+  };
+};
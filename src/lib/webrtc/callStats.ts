@@ -0,0 +1,185 @@
+/**
+ * Call telemetry from `RTCPeerConnection.getStats()`. Cumulative counters are
+ * turned into per-interval rates, so loss and bitrate describe the last few
+ * seconds rather than the whole call.
+ *
+ * Loss and jitter come in two directions: `inbound-rtp` says how the
+ * partner's media reaches us (what the quality indicator shows), while
+ * `remote-inbound-rtp`, the partner's RTCP receiver reports, says how ours
+ * reaches them (what our send bitrate should follow).
+ */
+
+export interface CallStatsSample {
+  timestamp: number;
+  rttMs: number;
+  /** Jitter of the partner's media as it reaches us. */
+  jitterMs: number;
+  /** Inbound packets lost during the interval, in percent. */
+  packetLoss: number;
+  /** Round trip of our media as the partner's reports measure it; the transport RTT when they carry none. */
+  sendRttMs: number;
+  /** Jitter the partner sees on our media. */
+  sendJitterMs: number;
+  /** Our packets the partner lost, in percent. */
+  sendPacketLoss: number;
+  /** Sender-side bandwidth estimate; 0 when the browser doesn't report one. */
+  availableOutgoingKbps: number;
+  outgoingKbps: number;
+  incomingKbps: number;
+  /** Decoded frame rate of the partner's video. */
+  frameRate: number;
+  sendFrameRate: number;
+}
+
+/** Running totals from the previous poll. */
+export interface StatsCounters {
+  timestamp: number;
+  packetsLost: number;
+  packetsReceived: number;
+  /** What the partner's reports count as lost, against what we sent. */
+  remotePacketsLost: number;
+  packetsSent: number;
+  bytesSent: number;
+  bytesReceived: number;
+}
+
+export type QualityLevel = 0 | 1 | 2 | 3 | 4;
+
+const round = (value: number, digits = 0) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const kbps = (bytes: number, ms: number) => (ms > 0 && bytes > 0 ? round((bytes * 8) / ms) : 0);
+
+/**
+ * Reads one `getStats()` report. Pass the counters returned by the previous
+ * call; without them (first poll, or a rebuilt connection whose totals went
+ * backwards) rates come out as 0.
+ */
+export const readCallStats = (
+  report: RTCStatsReport,
+  previous: StatsCounters | null
+): { sample: CallStatsSample; counters: StatsCounters } => {
+  let rttMs = 0;
+  let availableOutgoingKbps = 0;
+  let jitterMs = 0;
+  let sendRttMs = 0;
+  let sendJitterMs = 0;
+  // Loss over the partner's last report interval; null when no report carries it (Firefox)
+  let fractionLost: number | null = null;
+  let frameRate = 0;
+  let sendFrameRate = 0;
+  const counters: StatsCounters = {
+    timestamp: Date.now(),
+    packetsLost: 0,
+    packetsReceived: 0,
+    remotePacketsLost: 0,
+    packetsSent: 0,
+    bytesSent: 0,
+    bytesReceived: 0
+  };
+
+  report.forEach((stat) => {
+    if (stat.type === 'candidate-pair' && stat.state === 'succeeded' && (stat.nominated ?? true)) {
+      rttMs = round((stat.currentRoundTripTime || 0) * 1000);
+      availableOutgoingKbps = round((stat.availableOutgoingBitrate || 0) / 1000);
+    }
+    if (stat.type === 'inbound-rtp') {
+      counters.packetsLost += stat.packetsLost || 0;
+      counters.packetsReceived += stat.packetsReceived || 0;
+      counters.bytesReceived += stat.bytesReceived || 0;
+      jitterMs = Math.max(jitterMs, round((stat.jitter || 0) * 1000));
+      if (stat.kind === 'video') frameRate = round(stat.framesPerSecond || 0);
+    }
+    if (stat.type === 'remote-inbound-rtp') {
+      counters.remotePacketsLost += stat.packetsLost || 0;
+      sendJitterMs = Math.max(sendJitterMs, round((stat.jitter || 0) * 1000));
+      sendRttMs = Math.max(sendRttMs, round((stat.roundTripTime || 0) * 1000));
+      if (typeof stat.fractionLost === 'number') fractionLost = Math.max(fractionLost ?? 0, stat.fractionLost);
+    }
+    if (stat.type === 'outbound-rtp') {
+      counters.packetsSent += stat.packetsSent || 0;
+      counters.bytesSent += stat.bytesSent || 0;
+      if (stat.kind === 'video') sendFrameRate = round(stat.framesPerSecond || 0);
+    }
+  });
+
+  const usable = previous
+    && counters.packetsReceived >= previous.packetsReceived
+    && counters.packetsSent >= previous.packetsSent
+    && counters.bytesSent >= previous.bytesSent
+    && counters.bytesReceived >= previous.bytesReceived;
+  const elapsed = usable ? counters.timestamp - previous.timestamp : 0;
+  const lost = usable ? Math.max(0, counters.packetsLost - previous.packetsLost) : 0;
+  const received = usable ? counters.packetsReceived - previous.packetsReceived : 0;
+  const remoteLost = usable ? Math.max(0, counters.remotePacketsLost - previous.remotePacketsLost) : 0;
+  const sent = usable ? counters.packetsSent - previous.packetsSent : 0;
+  const sendPacketLoss = fractionLost !== null
+    ? round(fractionLost * 100, 1)
+    : sent > 0 ? round(Math.min(1, remoteLost / sent) * 100, 1) : 0;
+
+  return {
+    sample: {
+      timestamp: counters.timestamp,
+      rttMs,
+      jitterMs,
+      packetLoss: lost + received > 0 ? round((lost / (lost + received)) * 100, 1) : 0,
+      sendRttMs: sendRttMs || rttMs,
+      sendJitterMs,
+      sendPacketLoss,
+      availableOutgoingKbps,
+      outgoingKbps: usable ? kbps(counters.bytesSent - previous.bytesSent, elapsed) : 0,
+      incomingKbps: usable ? kbps(counters.bytesReceived - previous.bytesReceived, elapsed) : 0,
+      frameRate,
+      sendFrameRate
+    },
+    counters
+  };
+};
+
+/** How well the partner's media reaches us: 4 is excellent, 1 is barely usable; 0 means no data yet. */
+export const qualityLevelFor = (sample: CallStatsSample): QualityLevel => {
+  const { rttMs, packetLoss, jitterMs } = sample;
+  if (rttMs > 500 || packetLoss > 10 || jitterMs > 100) return 1;
+  if (rttMs > 200 || packetLoss > 5 || jitterMs > 50) return 2;
+  if (rttMs > 100 || packetLoss > 2 || jitterMs > 30) return 3;
+  return 4;
+};
+
+export interface QualityChange {
+  at: number;
+  from: string;
+  to: string;
+}
+
+export interface CallDiagnostics {
+  callId: string | null;
+  callType: string;
+  role: 'caller' | 'callee';
+  videoQuality: string | null;
+  qualityChanges: QualityChange[];
+  samples: CallStatsSample[];
+}
+
+/** Self-contained JSON for attaching to a bug report. */
+export const buildDiagnosticReport = (diagnostics: CallDiagnostics) => {
+  const { samples } = diagnostics;
+  const average = (pick: (sample: CallStatsSample) => number) =>
+    samples.length ? round(samples.reduce((sum, sample) => sum + pick(sample), 0) / samples.length, 1) : 0;
+
+  return {
+    generatedAt: new Date().toISOString(),
+    userAgent: typeof navigator === 'undefined' ? null : navigator.userAgent,
+    ...diagnostics,
+    summary: {
+      sampleCount: samples.length,
+      averageRttMs: average((sample) => sample.rttMs),
+      averageJitterMs: average((sample) => sample.jitterMs),
+      averagePacketLoss: average((sample) => sample.packetLoss),
+      averageSendPacketLoss: average((sample) => sample.sendPacketLoss),
+      averageOutgoingKbps: average((sample) => sample.outgoingKbps),
+      averageFrameRate: average((sample) => sample.frameRate)
+    }
+  };
+};
@@ -0,0 +1,85 @@
+/**
+ * Camera, microphone and speaker choices for calls. A saved choice is only
+ * used while that device is plugged in; otherwise the browser default wins.
+ */
+
+import type { CallType } from './callMachine';
+
+export type CallDeviceKind = 'audioinput' | 'videoinput' | 'audiooutput';
+
+/** Device ids per kind; null means the browser default. */
+export type CallDevicePreferences = Record<CallDeviceKind, string | null>;
+
+export const DEFAULT_DEVICE_PREFERENCES: CallDevicePreferences = {
+  audioinput: null,
+  videoinput: null,
+  audiooutput: null
+};
+
+const storageKey = (userId: string) => `ustuo_call_devices_${userId}`;
+
+export const loadDevicePreferences = (userId: string | undefined): CallDevicePreferences => {
+  if (!userId) return DEFAULT_DEVICE_PREFERENCES;
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(userId)) || 'null');
+    if (saved && typeof saved === 'object') return { ...DEFAULT_DEVICE_PREFERENCES, ...saved };
+  } catch {
+    // Fall through to default
+  }
+  return DEFAULT_DEVICE_PREFERENCES;
+};
+
+export const saveDevicePreferences = (userId: string, preferences: CallDevicePreferences) => {
+  try {
+    localStorage.setItem(storageKey(userId), JSON.stringify(preferences));
+  } catch {
+    console.log('[Devices] Could not save device preferences');
+  }
+};
+
+/** The preferred device if it's still connected, else null for the default. */
+export const resolveDevice = (
+  preferred: string | null,
+  devices: MediaDeviceInfo[],
+  kind: CallDeviceKind
+): string | null =>
+  preferred && devices.some((device) => device.kind === kind && device.deviceId === preferred) ? preferred : null;
+
+export const audioConstraints = (deviceId: string | null): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId: { exact: deviceId } } : {}),
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true
+});
+
+export const videoConstraints = (deviceId: string | null): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: 'user' }),
+  width: { ideal: 1280, max: 1920 },
+  height: { ideal: 720, max: 1080 },
+  frameRate: { ideal: 30, max: 60 }
+});
+
+export const callMediaConstraints = (
+  type: CallType,
+  preferences: CallDevicePreferences,
+  devices: MediaDeviceInfo[]
+): MediaStreamConstraints => ({
+  audio: audioConstraints(resolveDevice(preferences.audioinput, devices, 'audioinput')),
+  video: type === 'voice' ? false : videoConstraints(resolveDevice(preferences.videoinput, devices, 'videoinput'))
+});
+
+/** Chrome and Edge only; elsewhere audio follows the system output. */
+export const supportsOutputSelection = () =>
+  typeof HTMLMediaElement !== 'undefined' && 'setSinkId' in HTMLMediaElement.prototype;
+
+type SinkElement = HTMLMediaElement & { setSinkId?: (sinkId: string) => Promise<void> };
+
+export const applyOutputDevice = async (element: HTMLMediaElement | null, deviceId: string | null) => {
+  const sinkElement = element as SinkElement | null;
+  if (!sinkElement?.setSinkId) return;
+  try {
+    await sinkElement.setSinkId(deviceId ?? '');
+  } catch (error) {
+    console.warn('[Devices] Could not switch audio output:', error);
+  }
+};
@@ -0,0 +1,133 @@
+/**
+ * Sharing a local file as a live stream: the host captures its <video> with
+ * captureStream() and sends it on a peer connection of its own, tuned for
+ * film rather than faces. The partner never has the file, so their play,
+ * pause and seek travel back over the data channel and drive the host's
+ * element, which reports its position the other way.
+ */
+
+/** Film needs far more than a call's 720p preset; the encoder still backs off when the link can't carry it. */
+export const FILM_VIDEO_MAX_BITRATE = 8_000_000;
+/** Stereo Opus at near-transparent quality. */
+export const FILM_AUDIO_MAX_BITRATE = 256_000;
+
+/** How often the host reports its position while playing. */
+export const POSITION_INTERVAL_MS = 500;
+
+export type StreamMessage =
+  | { type: 'control'; action: 'play' | 'pause' }
+  | { type: 'control'; action: 'seek'; time: number }
+  | { type: 'position'; currentTime: number; duration: number; paused: boolean };
+
+export type StreamControl = Extract<StreamMessage, { type: 'control' }>;
+
+/** Where the host's element is, as last reported. */
+export type RemotePlayback = Omit<Extract<StreamMessage, { type: 'position' }>, 'type'>;
+
+export const parseStreamMessage = (data: unknown): StreamMessage | null => {
+  let message: Record<string, unknown> | null;
+  try {
+    // simple-peer hands data channel messages over as bytes
+    message = JSON.parse(typeof data === 'string' ? data : new TextDecoder().decode(data as Uint8Array));
+  } catch {
+    return null;
+  }
+  if (!message || typeof message !== 'object') return null;
+
+  if (message.type === 'control') {
+    if (message.action === 'play' || message.action === 'pause') return { type: 'control', action: message.action };
+    if (message.action === 'seek' && typeof message.time === 'number' && Number.isFinite(message.time)) {
+      return { type: 'control', action: 'seek', time: message.time };
+    }
+    return null;
+  }
+  if (message.type === 'position') {
+    const { currentTime, duration, paused } = message;
+    if (typeof currentTime !== 'number' || typeof duration !== 'number' || typeof paused !== 'boolean') return null;
+    return { type: 'position', currentTime, duration, paused };
+  }
+  return null;
+};
+
+/**
+ * Asks for stereo Opus at FILM_AUDIO_MAX_BITRATE. Browsers default to mono
+ * voice settings, and only SDP can change that; both sides apply it so the
+ * answer agrees to what the offer asks for.
+ */
+export const tuneFilmSdp = (sdp: string): string => {
+  const opus = sdp.match(/a=rtpmap:(\d+) opus\/48000/i);
+  if (!opus) return sdp;
+  const fmtp = new RegExp(`^(a=fmtp:${opus[1]} .*)$`, 'm');
+  return sdp.replace(fmtp, (line) => {
+    const params = line.split(' ').slice(1).join(' ').split(';').filter((param) => !/^(stereo|sprop-stereo|maxaveragebitrate)=/.test(param));
+    params.push('stereo=1', 'sprop-stereo=1', `maxaveragebitrate=${FILM_AUDIO_MAX_BITRATE}`);
+    return `a=fmtp:${opus[1]} ${params.join(';')}`;
+  });
+};
+
+/**
+ * Marks the captured tracks as film so the encoder favours smooth motion and
+ * full-band audio over the speech processing it would apply to a call.
+ */
+export const markFilmTracks = (stream: MediaStream) => {
+  stream.getVideoTracks().forEach((track) => { track.contentHint = 'motion'; });
+  stream.getAudioTracks().forEach((track) => { track.contentHint = 'music'; });
+};
+
+/** Raises the senders' caps once connected; keeps resolution and drops frames when the link is short. */
+export const applyFilmEncoding = async (pc: RTCPeerConnection) => {
+  await Promise.all(pc.getSenders().map(async (sender) => {
+    if (!sender.track) return;
+    const parameters = sender.getParameters();
+    if (!parameters.encodings?.length) parameters.encodings = [{}];
+    if (sender.track.kind === 'video') {
+      parameters.encodings[0].maxBitrate = FILM_VIDEO_MAX_BITRATE;
+      parameters.degradationPreference = 'maintain-resolution';
+    } else {
+      parameters.encodings[0].maxBitrate = FILM_AUDIO_MAX_BITRATE;
+    }
+    parameters.encodings[0].networkPriority = 'high';
+    await sender.setParameters(parameters);
+  }));
+};
+
+export type CaptureFailure = 'unsupported' | 'not_ready' | 'codec' | 'drm' | 'cross_origin';
+
+export const CAPTURE_FAILURE_MESSAGES: Record<CaptureFailure, string> = {
+  unsupported: "This browser can't capture video playback (Safari doesn't). Use Share via P2P instead, or Chrome, Edge or Firefox.",
+  not_ready: "The video hasn't loaded yet. Wait for it to appear, then try again.",
+  codec: "Your browser can't decode this file, so there are no frames to send. Convert it to MP4 (H.264 + AAC), or use Share via P2P so your partner's browser tries it.",
+  drm: "This video is copy-protected (DRM), and browsers won't capture protected playback.",
+  cross_origin: "The video comes from another site that doesn't allow capturing it. Load a local file instead."
+};
+
+type CapturableVideo = HTMLVideoElement & {
+  captureStream?: () => MediaStream;
+  mozCaptureStream?: () => MediaStream;
+};
+
+/** Captures what `video` plays, or says why the browser won't. */
+export const captureVideoStream = (video: HTMLVideoElement): { stream: MediaStream } | { failure: CaptureFailure } => {
+  const element = video as CapturableVideo;
+  const capture = element.captureStream?.bind(element) ?? element.mozCaptureStream?.bind(element);
+  if (!capture) return { failure: 'unsupported' };
+  if (video.mediaKeys) return { failure: 'drm' };
+  if (video.error) return { failure: 'codec' };
+  if (video.readyState < HTMLMediaElement.HAVE_METADATA) return { failure: 'not_ready' };
+
+  let stream: MediaStream;
+  try {
+    stream = capture();
+  } catch (error) {
+    const name = error instanceof DOMException ? error.name : '';
+    if (name === 'SecurityError') return { failure: 'cross_origin' };
+    return { failure: name === 'NotSupportedError' ? 'drm' : 'unsupported' };
+  }
+
+  // A file whose video codec the browser lacks still loads, but plays sound only
+  if (video.videoWidth === 0) {
+    stream.getTracks().forEach((track) => track.stop());
+    return { failure: 'codec' };
+  }
+  return { stream };
+};
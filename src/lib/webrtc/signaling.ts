@@ -0,0 +1,165 @@
+/**
+ * Call signaling messages and the transports that carry them. The call
+ * manager only talks to a `SignalingTransport`, so the same call logic runs
+ * over Supabase broadcast, the rtc_signaling table, or an in-memory loopback.
+ */
+
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import type { CallType } from './callMachine';
+
+/** SDP or ICE candidate as produced by simple-peer. */
+export type PeerSignal = { type?: string } & Record<string, unknown>;
+
+export type CallSignal =
+  | { type: 'invite'; callId: string; from: string; to: string; callType: CallType; sentAt: number }
+  | { type: 'accept'; callId: string; from: string }
+  | { type: 'decline'; callId: string; from: string }
+  | { type: 'cancel'; callId: string; from: string }
+  | { type: 'hang_up'; callId: string; from: string }
+  // Only the initiator can offer, so the callee asks it to restart ICE
+  | { type: 'ice_restart'; callId: string; from: string; attempt: number }
+  | { type: 'screen_share'; callId: string; from: string; active: boolean }
+  // Recording needs the partner's consent; either side can stop it
+  | { type: 'record_request'; callId: string; from: string }
+  | { type: 'record_response'; callId: string; from: string; granted: boolean }
+  | { type: 'record_stop'; callId: string; from: string }
+  // `attempt` counts peer rebuilds, so signals from a torn-down connection are dropped
+  | { type: 'rtc'; callId: string; from: string; attempt: number; signal: PeerSignal };
+
+export type CallSignalType = CallSignal['type'];
+
+export interface SignalingTransport {
+  send: (signal: CallSignal) => Promise<void>;
+  /** Delivers signals from other users; returns an unsubscribe function. */
+  subscribe: (handler: (signal: CallSignal) => void) => () => void;
+  /** Signals sent shortly before we started listening, oldest first. */
+  fetchRecent?: (sinceMs: number) => Promise<CallSignal[]>;
+  /** Drops anything stored for earlier calls. */
+  reset?: () => Promise<void>;
+  close: () => void;
+}
+
+export type TransportFactory = (roomId: string, userId: string) => SignalingTransport;
+
+const CALL_SIGNAL_TYPES: CallSignalType[] = [
+  'invite', 'accept', 'decline', 'cancel', 'hang_up', 'ice_restart', 'screen_share',
+  'record_request', 'record_response', 'record_stop', 'rtc'
+];
+
+/** Returns null for anything that isn't a well-formed call signal. */
+export const parseCallSignal = (payload: unknown): CallSignal | null => {
+  if (!payload || typeof payload !== 'object') return null;
+  const signal = payload as Partial<CallSignal>;
+  if (!CALL_SIGNAL_TYPES.includes(signal.type as CallSignalType)) return null;
+  if (typeof signal.callId !== 'string' || typeof signal.from !== 'string') return null;
+  return signal as CallSignal;
+};
+
+const CALL_SIGNAL_EVENT = 'call_signal';
+
+/** Low latency, but a partner who isn't subscribed yet misses the message. */
+export const createBroadcastTransport: TransportFactory = (roomId, userId) => {
+  const handlers = new Set<(signal: CallSignal) => void>();
+  const channel: RealtimeChannel = supabase
+    .channel(`call_signaling_${roomId}`, { config: { broadcast: { self: false } } })
+    .on('broadcast', { event: CALL_SIGNAL_EVENT }, ({ payload }) => {
+      const signal = parseCallSignal(payload);
+      if (signal && signal.from !== userId) handlers.forEach((handler) => handler(signal));
+    })
+    .subscribe();
+
+  return {
+    send: async (signal) => {
+      await channel.send({ type: 'broadcast', event: CALL_SIGNAL_EVENT, payload: signal });
+    },
+    subscribe: (handler) => {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+    close: () => {
+      handlers.clear();
+      supabase.removeChannel(channel);
+    }
+  };
+};
+
+/** Durable: rows outlive a missed realtime event, so a late joiner still sees a pending invite. */
+export const createTableTransport: TransportFactory = (roomId, userId) => {
+  const handlers = new Set<(signal: CallSignal) => void>();
+  const channel: RealtimeChannel = supabase
+    .channel(`call_signaling_db_${roomId}`)
+    .on('postgres_changes', {
+      event: 'INSERT',
+      schema: 'public',
+      table: 'rtc_signaling',
+      filter: `room_id=eq.${roomId}`
+    }, ({ new: row }) => {
+      if (row.type !== CALL_SIGNAL_EVENT || row.sender === userId) return;
+      const signal = parseCallSignal(row.payload);
+      if (signal) handlers.forEach((handler) => handler(signal));
+    })
+    .subscribe();
+
+  return {
+    send: async (signal) => {
+      const { error } = await supabase.from('rtc_signaling').insert({
+        room_id: roomId,
+        room_code: roomId.substring(0, 6),
+        sender: userId,
+        type: CALL_SIGNAL_EVENT,
+        payload: signal as unknown as Json
+      });
+      if (error) throw error;
+    },
+    subscribe: (handler) => {
+      handlers.add(handler);
+      return () => handlers.delete(handler);
+    },
+    fetchRecent: async (sinceMs) => {
+      const { data, error } = await supabase
+        .from('rtc_signaling')
+        .select('payload')
+        .eq('room_id', roomId)
+        .eq('type', CALL_SIGNAL_EVENT)
+        .neq('sender', userId)
+        .gte('created_at', new Date(Date.now() - sinceMs).toISOString())
+        .order('created_at', { ascending: true });
+      if (error || !data) return [];
+      return data.map((row) => parseCallSignal(row.payload)).filter((signal): signal is CallSignal => !!signal);
+    },
+    reset: async () => {
+      await supabase.from('rtc_signaling').delete()
+        .eq('room_id', roomId)
+        .eq('sender', userId)
+        .eq('type', CALL_SIGNAL_EVENT);
+    },
+    close: () => {
+      handlers.clear();
+      supabase.removeChannel(channel);
+    }
+  };
+};
+
+/**
+ * Two transports wired to each other in memory, for exercising the call
+ * flow without a network. Delivery is async, like the real transports.
+ */
+export const createLoopbackTransports = (): [SignalingTransport, SignalingTransport] => {
+  const ends = [new Set<(signal: CallSignal) => void>(), new Set<(signal: CallSignal) => void>()];
+
+  const createEnd = (self: number): SignalingTransport => ({
+    send: async (signal) => {
+      const peer = ends[1 - self];
+      queueMicrotask(() => peer.forEach((handler) => handler(signal)));
+    },
+    subscribe: (handler) => {
+      ends[self].add(handler);
+      return () => ends[self].delete(handler);
+    },
+    close: () => ends[self].clear()
+  });
+
+  return [createEnd(0), createEnd(1)];
+};
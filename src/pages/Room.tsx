@@ -7,6 +7,7 @@ import { useVisibilityHandler } from '@/hooks/useVisibilityHandler';
 import { useRoomStateManager } from '@/hooks/useRoomStateManager';
 import { RoomSidebar } from '@/components/RoomSidebar';
 import { VideoTab } from '@/components/tabs/VideoTab';
+import type { PeerLeft } from '@/components/ProductionVideoPlayer';
 import { NotesTab } from '@/components/tabs/NotesTab';
 import { CalendarTab } from '@/components/tabs/CalendarTab';
 import { WatchlistTab } from '@/components/tabs/WatchlistTab';
@@ -15,6 +16,7 @@ import { LoveMeterTab } from '@/components/tabs/LoveMeterTab';
 import { ThemesTab } from '@/components/tabs/ThemesTab';
 import { SettingsTab } from '@/components/tabs/SettingsTab';
 import { GamesTab } from '@/components/tabs/GamesTab';
+import { CallTab } from '@/components/tabs/CallTab';
 import { FloatingHearts } from '@/components/FloatingHearts';
 import { ChatWidget } from '@/components/ChatWidget';
 import { WatchPartyEffects } from '@/components/WatchPartyEffects';
@@ -23,8 +25,10 @@ import { ProductionCallOverlay } from '@/components/ProductionCallOverlay';
 import { Button } from '@/components/ui/button';
 import { Heart, ArrowLeft, Loader2 } from 'lucide-react';
 import { useRoomPresence } from '@/hooks/useRoomPresence';
+import { useCallManager } from '@/hooks/useCallManager';
+import { useNotificationAnswer } from '@/hooks/useNotificationAnswer';
 
-type TabType = 'video' | 'games' | 'notes' | 'calendar' | 'watchlist' | 'ai-movies' | 'love-meter' | 'themes' | 'settings';
+type TabType = 'video' | 'calls' | 'games' | 'notes' | 'calendar' | 'watchlist' | 'ai-movies' | 'love-meter' | 'themes' | 'settings';
 
 const Room: React.FC = () => {
   const { roomId } = useParams<{ roomId: string }>();
@@ -35,13 +39,24 @@ const Room: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabType>('video');
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [heartTrigger, setHeartTrigger] = useState(false);
-  const [playbackState, setPlaybackState] = useState({ isPlaying: false, currentTime: 0 });
+  const [playbackState, setPlaybackState] = useState<{ isPlaying: boolean; currentTime: number; mediaId: string | null }>({
+    isPlaying: false, currentTime: 0, mediaId: null
+  });
   const [chatMinimized, setChatMinimized] = useState(true);
-  const { partnerJoined } = useRoomPresence(roomId || '');
+  const [peerLeft, setPeerLeft] = useState<PeerLeft | null>(null);
+  // The room's only presence subscription; the player hears about leaves through peerLeft
+  const { presenceUsers, partnerJoined } = useRoomPresence(roomId || '', {
+    onLeave: (left) => setPeerLeft({ userId: left.user_id, key: Date.now() })
+  });
   const hasFetchedRef = useRef(false);
   
   const { saveState, updatePlayback } = useRoomStateManager(roomId || '');
-  useVisibilityHandler(roomId || '');
+
+  const isRoomCreator = currentRoom?.creator_id === user?.id;
+  const partnerId = isRoomCreator ? currentRoom?.partner_id : currentRoom?.creator_id;
+  const call = useCallManager({ roomId: roomId || '', partnerId });
+  useVisibilityHandler(roomId || '', { onOnline: call.restartIce });
+  useNotificationAnswer(call);
 
   // Fetch room ONCE, not on every re-render
   useEffect(() => {
@@ -59,6 +74,11 @@ const Room: React.FC = () => {
     if (room && !currentRoom) setCurrentRoom(room);
   }, [room]);
 
+  // A leave that's been undone shouldn't move control when the video tab opens later
+  useEffect(() => {
+    if (peerLeft && presenceUsers.some((presence) => presence.user_id === peerLeft.userId)) setPeerLeft(null);
+  }, [peerLeft, presenceUsers]);
+
   if (authLoading || loading) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
@@ -92,9 +112,6 @@ const Room: React.FC = () => {
     );
   }
 
-  const isRoomCreator = currentRoom?.creator_id === user?.id;
-  const partnerId = isRoomCreator ? currentRoom?.partner_id : currentRoom?.creator_id;
-
   const renderTabContent = () => {
     if (!roomId || !currentRoom) return null;
 
@@ -104,13 +121,20 @@ const Room: React.FC = () => {
           roomId={roomId} roomCode={currentRoom.room_code}
           isRoomCreator={isRoomCreator} partnerId={partnerId}
           partnerName="Partner"
+          callAudio={{ local: call.localStream, remote: call.remoteStream }}
+          peerLeft={peerLeft}
           onPlaybackStateChange={(state) => {
-            const newState = { isPlaying: state.is_playing || false, currentTime: state.current_time_seconds || 0 };
+            const newState = {
+              isPlaying: state.is_playing || false,
+              currentTime: state.current_time_seconds || 0,
+              mediaId: state.media_id ?? null
+            };
             setPlaybackState(newState);
             updatePlayback(newState.currentTime, newState.isPlaying);
           }}
         />
       ),
+      calls: <CallTab call={call} roomId={roomId} partnerName="Partner" />,
       games: <GamesTab roomId={roomId} partnerId={partnerId} />,
       notes: <NotesTab />,
       calendar: <CalendarTab roomId={roomId} partnerId={partnerId} />,
@@ -142,7 +166,7 @@ const Room: React.FC = () => {
           {/* Compact top bar with room info */}
           {roomId && (
             <div className="flex items-center justify-between mb-4">
-              <PartnerPresence roomId={roomId} />
+              <PartnerPresence onlineCount={presenceUsers.length} partnerJoined={partnerJoined} />
             </div>
           )}
           <AnimatePresence mode="wait">
@@ -157,6 +181,7 @@ const Room: React.FC = () => {
       
       {roomId && (
         <ChatWidget roomId={roomId} isMinimized={chatMinimized}
+          videoAnchor={playbackState}
           onToggleMinimize={() => setChatMinimized(!chatMinimized)} />
       )}
       
@@ -168,7 +193,7 @@ const Room: React.FC = () => {
       )}
       
       {roomId && (
-        <ProductionCallOverlay roomId={roomId} partnerId={partnerId} partnerName="Partner" />
+        <ProductionCallOverlay call={call} roomId={roomId} partnerId={partnerId} partnerName="Partner" />
       )}
       
       <FloatingHearts trigger={heartTrigger} />
@@ -0,0 +1,62 @@
+// The prebuilt browser bundle ships no typings; this covers what the app uses.
+declare module 'webtorrent/dist/webtorrent.min.js' {
+  export interface TorrentFile {
+    name: string;
+    path: string;
+    length: number;
+    progress: number;
+    streamURL: string;
+    streamTo: (element: HTMLMediaElement) => HTMLMediaElement;
+    blob: () => Promise<Blob>;
+  }
+
+  export interface Torrent {
+    infoHash: string;
+    magnetURI: string;
+    name: string;
+    files: TorrentFile[];
+    length: number;
+    downloaded: number;
+    progress: number;
+    downloadSpeed: number;
+    uploadSpeed: number;
+    numPeers: number;
+    done: boolean;
+    ready: boolean;
+    on: (event: 'ready' | 'done' | 'download' | 'upload' | 'wire' | 'noPeers', listener: () => void) => void;
+    once: {
+      (event: 'ready' | 'done', listener: () => void): void;
+      (event: 'error', listener: (error: Error | string) => void): void;
+    };
+    destroy: () => void;
+  }
+
+  export interface TorrentOptions {
+    announce?: string[];
+    name?: string;
+  }
+
+  export interface WebTorrentOptions {
+    tracker?: { announce?: string[]; rtcConfig?: RTCConfiguration };
+    dht?: boolean;
+    lsd?: boolean;
+    utp?: boolean;
+  }
+
+  export interface WebTorrentInstance {
+    torrents: Torrent[];
+    add: (torrentId: string, opts: TorrentOptions, ontorrent?: (torrent: Torrent) => void) => Torrent;
+    seed: (input: File | Blob, opts: TorrentOptions, onseed?: (torrent: Torrent) => void) => Torrent;
+    get: (torrentId: string) => Promise<Torrent | null>;
+    remove: (torrentId: string | Torrent) => Promise<void>;
+    createServer: (opts: { controller: ServiceWorkerRegistration }) => unknown;
+    on: (event: 'error', listener: (error: Error | string) => void) => void;
+    destroy: () => void;
+  }
+
+  const WebTorrent: {
+    new (opts?: WebTorrentOptions): WebTorrentInstance;
+    WEBRTC_SUPPORT: boolean;
+  };
+  export default WebTorrent;
+}
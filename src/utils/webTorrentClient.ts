@@ -1,16 +1,47 @@
-import { toast } from '@/hooks/use-toast';
+import type { Torrent, WebTorrentInstance } from 'webtorrent/dist/webtorrent.min.js';
+import { getIceConfig } from '@/lib/webrtc/iceConfig';
+import { isServiceWorkerSupported, registerAppWorker } from '@/lib/serviceWorker';
+import { pickVideoFile, torrentTrackers, type TorrentStats } from '@/lib/media/torrent';
+
+const STATS_INTERVAL_MS = 1000;
+// How long a magnet gets to find a peer with the metadata before we give up on it
+const METADATA_TIMEOUT_MS = 45000;
+
+export interface TorrentSession {
+  magnetURI: string;
+  infoHash: string;
+  fileName: string;
+  /** Stops reporting stats and drops the torrent; the seeder stops seeding. */
+  stop: () => void;
+}
+
+const readStats = (torrent: Torrent): TorrentStats => ({
+  progress: torrent.progress,
+  downloaded: torrent.downloaded,
+  length: torrent.length,
+  downloadSpeed: torrent.downloadSpeed,
+  uploadSpeed: torrent.uploadSpeed,
+  peers: torrent.numPeers,
+  done: torrent.done
+});
 
 // WebTorrent client utility for P2P file sharing
 class WebTorrentClientWrapper {
-  private client: any = null;
+  private client: WebTorrentInstance | null = null;
+  private initializing: Promise<WebTorrentInstance | null> | null = null;
+  private hasServer = false;
   private isSupported = false;
 
   constructor() {
     // Check if we're in a browser environment that supports WebTorrent
-    this.isSupported = typeof window !== 'undefined' && 
+    this.isSupported = typeof window !== 'undefined' &&
                       typeof RTCPeerConnection !== 'undefined';
   }
 
+  get supported() {
+    return this.isSupported;
+  }
+
   async initialize() {
     if (!this.isSupported) {
       console.warn('WebTorrent not supported in this environment');
@@ -18,55 +49,132 @@ class WebTorrentClientWrapper {
     }
 
     if (this.client) return this.client;
+    this.initializing ??= (async () => {
+      try {
+        // The prebuilt browser bundle, so Vite doesn't have to shim Node for the sources
+        const { default: WebTorrent } = await import('webtorrent/dist/webtorrent.min.js');
+        // Peers connect over WebRTC, so they get the same TURN servers as calls
+        const rtcConfig = await getIceConfig();
+        this.client = new WebTorrent({ tracker: { announce: torrentTrackers(), rtcConfig } });
+        this.client.on('error', (error) => console.error('[WebTorrent] Client error:', error));
+        return this.client;
+      } catch (error) {
+        console.error('Failed to initialize WebTorrent:', error);
+        this.isSupported = false;
+        return null;
+      } finally {
+        this.initializing = null;
+      }
+    })();
+    return this.initializing;
+  }
 
-    try {
-      // WebTorrent has been removed to fix build issues
-      // This is a placeholder for future P2P implementation
-      console.warn('WebTorrent temporarily disabled due to browser compatibility issues');
-      return null;
-    } catch (error) {
-      console.error('Failed to initialize WebTorrent:', error);
-      this.isSupported = false;
-      return null;
-    }
+  // Streaming goes through the service worker, which answers <video> range requests from the torrent
+  private async ensureServer(client: WebTorrentInstance) {
+    if (this.hasServer) return;
+    if (!isServiceWorkerSupported()) throw new Error('Streaming needs service workers');
+    client.createServer({ controller: await registerAppWorker() });
+    this.hasServer = true;
   }
 
-  async seedFile(file: File): Promise<string | null> {
-    if (!this.isSupported) {
-      console.warn('P2P sharing not supported, using regular file upload instead');
+  private track(torrent: Torrent, fileName: string, onStats?: (stats: TorrentStats) => void): TorrentSession {
+    const interval = onStats ? window.setInterval(() => onStats(readStats(torrent)), STATS_INTERVAL_MS) : null;
+    return {
+      magnetURI: torrent.magnetURI,
+      infoHash: torrent.infoHash,
+      fileName,
+      stop: () => {
+        if (interval) clearInterval(interval);
+        this.client?.remove(torrent).catch(() => {});
+      }
+    };
+  }
+
+  // Resolves once the torrent is ready; a torrent that errors or never gets its metadata is dropped
+  private async addTorrent(client: WebTorrentInstance, magnetURI: string): Promise<Torrent> {
+    const existing = await client.get(magnetURI);
+    if (existing) return existing;
+
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const fail = (error: Error) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        client.remove(torrent).catch(() => {});
+        reject(error);
+      };
+      const timeout = window.setTimeout(
+        () => fail(new Error('No one is sharing this file right now')),
+        METADATA_TIMEOUT_MS
+      );
+      const torrent = client.add(magnetURI, { announce: torrentTrackers() }, (ready) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timeout);
+        resolve(ready);
+      });
+      torrent.once('error', (error) => fail(error instanceof Error ? error : new Error(error)));
+    });
+  }
+
+  /** Starts seeding `file`; the session's magnet is what the partner adds. */
+  async seedFile(file: File, onStats?: (stats: TorrentStats) => void): Promise<TorrentSession | null> {
+    const client = await this.initialize();
+    if (!client) {
+      console.warn('P2P client not available, using regular file upload');
       return null;
     }
 
-    try {
-      const client = await this.initialize();
-      if (!client) {
-        console.warn('P2P client not available, using regular file upload');
-        return null;
-      }
+    const existing = client.torrents.find((torrent) => torrent.name === file.name && torrent.length === file.size);
+    if (existing) return this.track(existing, file.name, onStats);
 
-      // Placeholder for actual WebTorrent implementation
-      return null;
-    } catch (error) {
-      console.error('Failed to seed file:', error);
-      return null;
+    return new Promise((resolve) => {
+      client.seed(file, { announce: torrentTrackers(), name: file.name }, (torrent) => {
+        resolve(this.track(torrent, file.name, onStats));
+      });
+    });
+  }
+
+  /**
+   * Adds `magnetURI` and plays its video file in `video` as pieces arrive,
+   * fetching whatever the element asks for (including seeks) first.
+   */
+  async streamTo(magnetURI: string, video: HTMLVideoElement, onStats?: (stats: TorrentStats) => void): Promise<TorrentSession | null> {
+    const client = await this.initialize();
+    if (!client) return null;
+    await this.ensureServer(client);
+
+    const torrent = await this.addTorrent(client, magnetURI);
+
+    const file = pickVideoFile(torrent.files);
+    if (!file) {
+      client.remove(torrent).catch(() => {});
+      throw new Error('The shared torrent has no video file');
     }
+    file.streamTo(video);
+    return this.track(torrent, file.name, onStats);
   }
 
   async downloadFromMagnet(magnetURI: string, onProgress?: (progress: number) => void): Promise<File | null> {
-    if (!this.isSupported) {
-      console.warn('P2P download not supported');
+    const client = await this.initialize();
+    if (!client) {
+      console.warn('P2P client not available');
       return null;
     }
 
     try {
-      const client = await this.initialize();
-      if (!client) {
-        console.warn('P2P client not available');
-        return null;
-      }
+      const torrent = await this.addTorrent(client, magnetURI);
+      const file = pickVideoFile(torrent.files) ?? torrent.files[0];
+      if (!file) return null;
 
-      // Placeholder for actual WebTorrent implementation
-      return null;
+      if (!torrent.done) {
+        const report = () => onProgress?.(Math.round(torrent.progress * 100));
+        torrent.on('download', report);
+        await new Promise<void>((resolve) => torrent.once('done', resolve));
+      }
+      const blob = await file.blob();
+      return new File([blob], file.name, { type: blob.type });
     } catch (error) {
       console.error('Failed to download from magnet:', error);
       return null;
@@ -81,6 +189,7 @@ class WebTorrentClientWrapper {
         console.warn('Error destroying WebTorrent client:', error);
       }
       this.client = null;
+      this.hasServer = false;
       console.log('WebTorrent client destroyed');
     }
   }
@@ -0,0 +1,89 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import webpush from "npm:web-push@3.6.7";
+
+// Called by the calls table triggers (see the push_subscriptions migration), never by browsers.
+// Needs VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY, VAPID_SUBJECT and CALL_PUSH_SECRET.
+
+interface CallRecord {
+  id: string;
+  room_id: string;
+  caller_id: string;
+  receiver_id: string;
+  call_type: string;
+  status: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+serve(async (req) => {
+  if (req.method !== "POST") {
+    return json({ error: "Method not allowed" }, 405);
+  }
+
+  const secret = Deno.env.get("CALL_PUSH_SECRET");
+  if (!secret || req.headers.get("x-call-push-secret") !== secret) {
+    return json({ error: "Unauthorized" }, 401);
+  }
+
+  const publicKey = Deno.env.get("VAPID_PUBLIC_KEY");
+  const privateKey = Deno.env.get("VAPID_PRIVATE_KEY");
+  if (!publicKey || !privateKey) {
+    console.error("VAPID keys not configured");
+    return json({ error: "Push not configured" }, 500);
+  }
+  webpush.setVapidDetails(Deno.env.get("VAPID_SUBJECT") || "mailto:support@ustuo.app", publicKey, privateKey);
+
+  const { record } = await req.json() as { record?: CallRecord };
+  if (!record || !["ringing", "missed", "cancelled"].includes(record.status)) {
+    return json({ sent: 0 });
+  }
+  // Whether the ring timed out or the caller gave up, the receiver missed it
+  const ringing = record.status === "ringing";
+
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const [{ data: subscriptions, error }, { data: caller }] = await Promise.all([
+    supabase.from("push_subscriptions").select("id, endpoint, p256dh, auth").eq("user_id", record.receiver_id),
+    supabase.from("users").select("display_name").eq("user_id", record.caller_id).maybeSingle(),
+  ]);
+  if (error) {
+    console.error("Failed to load push subscriptions:", error);
+    return json({ error: "Could not load subscriptions" }, 500);
+  }
+
+  const callerName = caller?.display_name || "Your partner";
+  const callLabel = record.call_type === "audio" ? "voice call" : "video call";
+  const payload = JSON.stringify({
+    kind: ringing ? "incoming_call" : "missed_call",
+    callId: record.id,
+    roomId: record.room_id,
+    title: ringing ? `${callerName} is calling` : `Missed ${callLabel}`,
+    body: ringing ? `Incoming ${callLabel}` : `${callerName} tried to call you`,
+  });
+
+  let sent = 0;
+  const expired: string[] = [];
+  await Promise.all((subscriptions ?? []).map(async (subscription) => {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: { p256dh: subscription.p256dh, auth: subscription.auth } },
+        payload,
+        // A ring is useless once the caller gives up
+        { TTL: ringing ? 30 : 24 * 60 * 60, urgency: "high" },
+      );
+      sent++;
+    } catch (err) {
+      const statusCode = (err as { statusCode?: number }).statusCode;
+      if (statusCode === 404 || statusCode === 410) expired.push(subscription.id);
+      else console.error("Push failed:", statusCode, err);
+    }
+  }));
+
+  if (expired.length) {
+    await supabase.from("push_subscriptions").delete().in("id", expired);
+  }
+
+  return json({ sent, expired: expired.length });
+});
@@ -0,0 +1,52 @@
+-- Playback control modes: who may drive the room's player
+ALTER TABLE public.rooms
+  ADD COLUMN IF NOT EXISTS control_mode text NOT NULL DEFAULT 'host_only',
+  ADD COLUMN IF NOT EXISTS host_id uuid;
+
+ALTER TABLE public.rooms DROP CONSTRAINT IF EXISTS rooms_control_mode_check;
+ALTER TABLE public.rooms
+  ADD CONSTRAINT rooms_control_mode_check CHECK (control_mode IN ('host_only', 'shared', 'handoff'));
+
+-- Existing rooms keep the creator as host
+UPDATE public.rooms SET host_id = creator_id WHERE host_id IS NULL;
+
+-- Hand control to a room member and/or change the control mode
+CREATE OR REPLACE FUNCTION public.set_room_control(p_room_id uuid, p_host_id uuid, p_control_mode text)
+RETURNS public.rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.rooms%ROWTYPE;
+  u uuid;
+BEGIN
+  u := auth.uid();
+  IF u IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO r
+  FROM public.rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR (r.creator_id <> u AND r.partner_id IS DISTINCT FROM u) THEN
+    RAISE EXCEPTION 'room_not_found';
+  END IF;
+
+  -- Control can only go to someone in the room
+  IF p_host_id <> r.creator_id AND p_host_id IS DISTINCT FROM r.partner_id THEN
+    RAISE EXCEPTION 'host_not_member';
+  END IF;
+
+  UPDATE public.rooms
+  SET host_id = p_host_id,
+      control_mode = COALESCE(p_control_mode, r.control_mode),
+      updated_at = now()
+  WHERE id = r.id
+  RETURNING * INTO r;
+
+  RETURN r;
+END;
+$$;
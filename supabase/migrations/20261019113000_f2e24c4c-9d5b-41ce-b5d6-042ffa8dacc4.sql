@@ -0,0 +1,129 @@
+-- Server-authoritative playback state: every write carries (epoch, seq) and stale writes are rejected
+ALTER TABLE public.playback_state
+  ADD COLUMN IF NOT EXISTS epoch integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS seq bigint NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS playback_rate double precision NOT NULL DEFAULT 1;
+
+-- The control term, so a reload keeps counting from where the room left off
+ALTER TABLE public.rooms
+  ADD COLUMN IF NOT EXISTS control_epoch integer NOT NULL DEFAULT 0;
+
+-- Members can still read and create the row; updates go through write_playback_state
+DROP POLICY IF EXISTS "Room members can manage playback state" ON public.playback_state;
+
+CREATE POLICY "Room members can create playback state"
+  ON public.playback_state FOR INSERT
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM rooms WHERE rooms.id = playback_state.room_id AND (rooms.creator_id = auth.uid() OR rooms.partner_id = auth.uid())
+  ));
+
+-- set_room_control now records the control term the client moved to
+DROP FUNCTION IF EXISTS public.set_room_control(uuid, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.set_room_control(p_room_id uuid, p_host_id uuid, p_control_mode text, p_epoch integer)
+RETURNS public.rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.rooms%ROWTYPE;
+  u uuid;
+BEGIN
+  u := auth.uid();
+  IF u IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO r
+  FROM public.rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR (r.creator_id <> u AND r.partner_id IS DISTINCT FROM u) THEN
+    RAISE EXCEPTION 'room_not_found';
+  END IF;
+
+  -- Control can only go to someone in the room
+  IF p_host_id <> r.creator_id AND p_host_id IS DISTINCT FROM r.partner_id THEN
+    RAISE EXCEPTION 'host_not_member';
+  END IF;
+
+  -- A transfer that lost a race to a newer one is dropped
+  IF p_epoch < r.control_epoch THEN
+    RAISE EXCEPTION 'stale_control';
+  END IF;
+
+  UPDATE public.rooms
+  SET host_id = p_host_id,
+      control_mode = COALESCE(p_control_mode, r.control_mode),
+      control_epoch = p_epoch,
+      updated_at = now()
+  WHERE id = r.id
+  RETURNING * INTO r;
+
+  RETURN r;
+END;
+$$;
+
+-- Write playback state if the caller may drive and the write is newer than what's stored
+CREATE OR REPLACE FUNCTION public.write_playback_state(
+  p_room_id uuid,
+  p_epoch integer,
+  p_seq bigint,
+  p_current_time double precision,
+  p_is_playing boolean,
+  p_playback_rate double precision,
+  p_updated_at timestamptz
+)
+RETURNS public.playback_state
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.rooms%ROWTYPE;
+  p public.playback_state%ROWTYPE;
+  u uuid;
+BEGIN
+  u := auth.uid();
+  IF u IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO r FROM public.rooms WHERE id = p_room_id;
+
+  IF NOT FOUND OR (r.creator_id <> u AND r.partner_id IS DISTINCT FROM u) THEN
+    RAISE EXCEPTION 'room_not_found';
+  END IF;
+
+  -- Outside shared mode only the host drives
+  IF r.control_mode <> 'shared' AND COALESCE(r.host_id, r.creator_id) <> u THEN
+    RAISE EXCEPTION 'not_host';
+  END IF;
+
+  SELECT * INTO p FROM public.playback_state WHERE room_id = p_room_id FOR UPDATE;
+
+  IF FOUND AND (p_epoch, p_seq) <= (p.epoch, p.seq) THEN
+    RAISE EXCEPTION 'stale_playback_state';
+  END IF;
+
+  INSERT INTO public.playback_state (
+    room_id, epoch, seq, current_time_seconds, is_playing, playback_rate, last_updated_by, updated_at
+  )
+  VALUES (
+    p_room_id, p_epoch, p_seq, p_current_time, p_is_playing, p_playback_rate, u, COALESCE(p_updated_at, now())
+  )
+  ON CONFLICT (room_id) DO UPDATE
+  SET epoch = EXCLUDED.epoch,
+      seq = EXCLUDED.seq,
+      current_time_seconds = EXCLUDED.current_time_seconds,
+      is_playing = EXCLUDED.is_playing,
+      playback_rate = EXCLUDED.playback_rate,
+      last_updated_by = EXCLUDED.last_updated_by,
+      updated_at = EXCLUDED.updated_at
+  RETURNING * INTO p;
+
+  RETURN p;
+END;
+$$;
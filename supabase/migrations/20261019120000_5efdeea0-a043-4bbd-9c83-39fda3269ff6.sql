@@ -0,0 +1,40 @@
+-- The queue is the room's playlist: what's playing, and how the next item is picked
+ALTER TABLE public.rooms
+  ADD COLUMN IF NOT EXISTS current_queue_item_id uuid REFERENCES public.video_queue(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS queue_shuffle boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS queue_repeat text NOT NULL DEFAULT 'off';
+
+ALTER TABLE public.rooms DROP CONSTRAINT IF EXISTS rooms_queue_repeat_check;
+ALTER TABLE public.rooms
+  ADD CONSTRAINT rooms_queue_repeat_check CHECK (queue_repeat IN ('off', 'all', 'one'));
+
+-- Rewrite every position in one statement so a reorder is never seen half-applied
+CREATE OR REPLACE FUNCTION public.reorder_video_queue(p_room_id uuid, p_item_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  u uuid;
+BEGIN
+  u := auth.uid();
+  IF u IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rooms r
+    WHERE r.id = p_room_id
+    AND (r.creator_id = u OR r.partner_id = u)
+  ) THEN
+    RAISE EXCEPTION 'room_not_found';
+  END IF;
+
+  UPDATE public.video_queue q
+  SET position = o.ord - 1
+  FROM unnest(p_item_ids) WITH ORDINALITY AS o(id, ord)
+  WHERE q.id = o.id
+  AND q.room_id = p_room_id;
+END;
+$$;
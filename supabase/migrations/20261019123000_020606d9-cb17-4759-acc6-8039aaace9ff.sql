@@ -0,0 +1,6 @@
+-- Notes belong to the video they were written on, e.g. 'youtube:<id>' or 'url:<address>'
+ALTER TABLE public.timestamped_notes
+  ADD COLUMN IF NOT EXISTS media_id text;
+
+CREATE INDEX IF NOT EXISTS idx_timestamped_notes_room_media
+  ON public.timestamped_notes(room_id, media_id, timestamp);
@@ -0,0 +1,126 @@
+-- Chat history: messages persist per room, with delivered/read receipts and a per-member read marker
+
+-- Creators never went through join_room_by_code, so make sure every room's people are members
+INSERT INTO public.room_members (room_id, user_id)
+SELECT r.id, r.creator_id FROM public.rooms r
+ON CONFLICT (room_id, user_id) DO NOTHING;
+
+INSERT INTO public.room_members (room_id, user_id)
+SELECT r.id, r.partner_id FROM public.rooms r WHERE r.partner_id IS NOT NULL
+ON CONFLICT (room_id, user_id) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION public.add_room_creator_member()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.room_members (room_id, user_id)
+  VALUES (NEW.id, NEW.creator_id)
+  ON CONFLICT (room_id, user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rooms_add_creator_member ON public.rooms;
+CREATE TRIGGER rooms_add_creator_member
+AFTER INSERT ON public.rooms
+FOR EACH ROW EXECUTE FUNCTION public.add_room_creator_member();
+
+-- Unread counts are messages from others newer than this
+ALTER TABLE public.room_members
+  ADD COLUMN IF NOT EXISTS last_read_at timestamptz NOT NULL DEFAULT now();
+
+-- Checked outside RLS so policies on other tables don't recurse into room_members
+CREATE OR REPLACE FUNCTION public.is_room_member(p_room_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.room_members m
+    WHERE m.room_id = p_room_id AND m.user_id = auth.uid()
+  );
+$$;
+
+CREATE TABLE IF NOT EXISTS public.chat_messages (
+  -- Generated by the sender so a retried insert can't duplicate the message
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  room_id uuid NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+  sender_id uuid NOT NULL,
+  sender_email text,
+  content text NOT NULL CHECK (char_length(content) BETWEEN 1 AND 2000),
+  type text NOT NULL DEFAULT 'message' CHECK (type IN ('message', 'emoji', 'reaction')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  delivered_at timestamptz,
+  read_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS chat_messages_room_created_idx ON public.chat_messages (room_id, created_at DESC);
+
+ALTER TABLE public.chat_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Room members can view chat messages"
+  ON public.chat_messages FOR SELECT
+  USING (public.is_room_member(room_id));
+
+CREATE POLICY "Room members can send chat messages"
+  ON public.chat_messages FOR INSERT
+  WITH CHECK (sender_id = auth.uid() AND public.is_room_member(room_id));
+
+-- Receipts are written only through mark_chat_messages
+
+-- Stamps receipts on everything others sent; p_read also moves the caller's read marker
+CREATE OR REPLACE FUNCTION public.mark_chat_messages(p_room_id uuid, p_read boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  u uuid;
+BEGIN
+  u := auth.uid();
+  IF u IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  IF NOT public.is_room_member(p_room_id) THEN
+    RAISE EXCEPTION 'room_not_found';
+  END IF;
+
+  UPDATE public.chat_messages
+  SET delivered_at = coalesce(delivered_at, now()),
+      read_at = CASE WHEN p_read THEN coalesce(read_at, now()) ELSE read_at END
+  WHERE room_id = p_room_id
+  AND sender_id <> u
+  AND (delivered_at IS NULL OR (p_read AND read_at IS NULL));
+
+  IF p_read THEN
+    UPDATE public.room_members
+    SET last_read_at = now()
+    WHERE room_id = p_room_id AND user_id = u;
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_chat_unread_count(p_room_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT count(*)::integer
+  FROM public.chat_messages c
+  JOIN public.room_members m ON m.room_id = c.room_id AND m.user_id = auth.uid()
+  WHERE c.room_id = p_room_id
+  AND c.sender_id <> auth.uid()
+  AND c.created_at > m.last_read_at;
+$$;
+
+ALTER TABLE public.chat_messages REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.chat_messages;
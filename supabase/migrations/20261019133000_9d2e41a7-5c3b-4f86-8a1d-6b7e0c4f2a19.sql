@@ -0,0 +1,8 @@
+-- Anchor chat messages to where the video was, so a rewatch can replay the conversation
+ALTER TABLE public.chat_messages
+  ADD COLUMN IF NOT EXISTS media_id text,
+  ADD COLUMN IF NOT EXISTS video_timestamp double precision;
+
+CREATE INDEX IF NOT EXISTS chat_messages_room_media_idx
+  ON public.chat_messages (room_id, media_id, video_timestamp)
+  WHERE media_id IS NOT NULL;
@@ -0,0 +1,18 @@
+-- rtc_signaling carries more than SDP now: each feature tags its rows with its own type
+-- (call_signal, media_stream, ...), which the original offer/answer/candidate check rejected
+ALTER TABLE public.rtc_signaling DROP CONSTRAINT IF EXISTS rtc_signaling_type_check;
+
+CREATE INDEX IF NOT EXISTS rtc_signaling_room_type_created_idx
+  ON public.rtc_signaling (room_id, type, created_at);
+
+-- The call manager listens for signals as they're inserted
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND tablename = 'rtc_signaling'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.rtc_signaling;
+  END IF;
+END $$;
@@ -0,0 +1,28 @@
+-- Call history: each call row remembers what the room was watching when it was placed
+ALTER TABLE public.calls
+  ADD COLUMN IF NOT EXISTS media_title text,
+  ADD COLUMN IF NOT EXISTS media_url text;
+
+CREATE OR REPLACE FUNCTION public.stamp_call_media()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT r.current_media_url, q.title
+  INTO NEW.media_url, NEW.media_title
+  FROM public.rooms r
+  LEFT JOIN public.video_queue q ON q.id = r.current_queue_item_id
+  WHERE r.id = NEW.room_id;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS calls_stamp_media ON public.calls;
+CREATE TRIGGER calls_stamp_media
+BEFORE INSERT ON public.calls
+FOR EACH ROW EXECUTE FUNCTION public.stamp_call_media();
+
+CREATE INDEX IF NOT EXISTS idx_calls_room_created
+  ON public.calls (room_id, created_at DESC);
@@ -0,0 +1,79 @@
+-- Web Push: one row per browser a user turned call notifications on in
+CREATE TABLE IF NOT EXISTS public.push_subscriptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  endpoint text NOT NULL UNIQUE,
+  p256dh text NOT NULL,
+  auth text NOT NULL,
+  user_agent text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON public.push_subscriptions(user_id);
+
+ALTER TABLE public.push_subscriptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their push subscriptions"
+ON public.push_subscriptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add their push subscriptions"
+ON public.push_subscriptions FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their push subscriptions"
+ON public.push_subscriptions FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can remove their push subscriptions"
+ON public.push_subscriptions FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_push_subscriptions_updated_at
+BEFORE UPDATE ON public.push_subscriptions
+FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Ringing and missed calls are handed to the call-push edge function.
+-- The shared secret lives in Vault as 'call_push_secret' and in the function's env.
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+CREATE OR REPLACE FUNCTION public.send_call_push()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_secret text;
+BEGIN
+  SELECT decrypted_secret INTO v_secret
+  FROM vault.decrypted_secrets
+  WHERE name = 'call_push_secret';
+
+  IF v_secret IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM net.http_post(
+    url := 'https://mxatgocmnasozbkbjiuq.supabase.co/functions/v1/call-push',
+    headers := jsonb_build_object('Content-Type', 'application/json', 'x-call-push-secret', v_secret),
+    body := jsonb_build_object('record', to_jsonb(NEW))
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS calls_push_ringing ON public.calls;
+CREATE TRIGGER calls_push_ringing
+AFTER INSERT ON public.calls
+FOR EACH ROW
+WHEN (NEW.status = 'ringing')
+EXECUTE FUNCTION public.send_call_push();
+
+DROP TRIGGER IF EXISTS calls_push_missed ON public.calls;
+CREATE TRIGGER calls_push_missed
+AFTER UPDATE OF status ON public.calls
+FOR EACH ROW
+WHEN (OLD.status = 'ringing' AND NEW.status = 'missed')
+EXECUTE FUNCTION public.send_call_push();
@@ -0,0 +1,5 @@
+-- DASH manifests now play through dash.js. Live streams were never allowed either,
+-- so switching the room to one failed silently.
+ALTER TABLE public.rooms DROP CONSTRAINT IF EXISTS rooms_current_media_type_check;
+ALTER TABLE public.rooms ADD CONSTRAINT rooms_current_media_type_check
+  CHECK (current_media_type IN ('local', 'url', 'youtube', 'vimeo', 'hls', 'dash', 'stream', 'torrent'));
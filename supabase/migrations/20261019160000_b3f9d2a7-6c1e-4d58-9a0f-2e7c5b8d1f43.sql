@@ -0,0 +1,7 @@
+-- write_playback_state is the only way to write playback_state: it creates the row
+-- on first write and enforces the host and (epoch, seq) checks that direct writes skip
+DROP POLICY IF EXISTS "Authenticated users can insert playback state" ON public.playback_state;
+DROP POLICY IF EXISTS "Authenticated users can update playback state" ON public.playback_state;
+DROP POLICY IF EXISTS "Room members can create playback state" ON public.playback_state;
+DROP POLICY IF EXISTS "Room members can update playback state" ON public.playback_state;
+DROP POLICY IF EXISTS "Room members can manage playback state" ON public.playback_state;
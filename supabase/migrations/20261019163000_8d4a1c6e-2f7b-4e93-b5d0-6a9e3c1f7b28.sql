@@ -0,0 +1,86 @@
+-- set_room_control follows control_mode: the host moves control and changes the mode.
+-- Anyone else may only claim control for themselves, in shared mode or once the host has left.
+DROP FUNCTION IF EXISTS public.set_room_control(uuid, uuid, text, integer);
+
+CREATE OR REPLACE FUNCTION public.set_room_control(
+  p_room_id uuid,
+  p_host_id uuid,
+  p_control_mode text,
+  p_epoch integer,
+  p_host_left boolean DEFAULT false
+)
+RETURNS public.rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.rooms%ROWTYPE;
+  u uuid;
+BEGIN
+  u := auth.uid();
+  IF u IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO r
+  FROM public.rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR (r.creator_id <> u AND r.partner_id IS DISTINCT FROM u) THEN
+    RAISE EXCEPTION 'room_not_found';
+  END IF;
+
+  -- Control can only go to someone in the room
+  IF p_host_id <> r.creator_id AND p_host_id IS DISTINCT FROM r.partner_id THEN
+    RAISE EXCEPTION 'host_not_member';
+  END IF;
+
+  IF COALESCE(r.host_id, r.creator_id) <> u THEN
+    IF r.control_mode <> 'shared' AND NOT p_host_left THEN
+      RAISE EXCEPTION 'not_host';
+    END IF;
+    IF p_host_id <> u OR COALESCE(p_control_mode, r.control_mode) <> r.control_mode THEN
+      RAISE EXCEPTION 'not_host';
+    END IF;
+  END IF;
+
+  -- A transfer that lost a race to a newer one is dropped
+  IF p_epoch < r.control_epoch THEN
+    RAISE EXCEPTION 'stale_control';
+  END IF;
+
+  UPDATE public.rooms
+  SET host_id = p_host_id,
+      control_mode = COALESCE(p_control_mode, r.control_mode),
+      control_epoch = p_epoch,
+      updated_at = now()
+  WHERE id = r.id
+  RETURNING * INTO r;
+
+  RETURN r;
+END;
+$$;
+
+-- Members may still update their room directly, but not who controls it
+CREATE OR REPLACE FUNCTION public.guard_room_control()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- set_room_control runs as its owner, so only client roles are held back
+  IF current_user IN ('authenticated', 'anon')
+    AND (NEW.host_id IS DISTINCT FROM OLD.host_id
+      OR NEW.control_mode IS DISTINCT FROM OLD.control_mode
+      OR NEW.control_epoch IS DISTINCT FROM OLD.control_epoch) THEN
+    RAISE EXCEPTION 'room_control_via_set_room_control';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rooms_guard_control ON public.rooms;
+CREATE TRIGGER rooms_guard_control
+BEFORE UPDATE ON public.rooms
+FOR EACH ROW EXECUTE FUNCTION public.guard_room_control();
@@ -0,0 +1,6 @@
+-- A caller who hangs up before an answer cancels the call; 'missed' stays for
+-- calls nobody picked up in time.
+ALTER TABLE public.calls DROP CONSTRAINT IF EXISTS calls_status_check;
+ALTER TABLE public.calls
+  ADD CONSTRAINT calls_status_check
+  CHECK (status IN ('calling', 'ringing', 'accepted', 'rejected', 'ended', 'missed', 'cancelled'));
@@ -0,0 +1,101 @@
+-- The host checks in while it holds control, so a claim that the host left can be verified here
+ALTER TABLE public.rooms
+  ADD COLUMN IF NOT EXISTS host_seen_at timestamptz;
+
+CREATE OR REPLACE FUNCTION public.touch_room_host(p_room_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.rooms
+  SET host_seen_at = now()
+  WHERE id = p_room_id
+    AND COALESCE(host_id, creator_id) = auth.uid();
+END;
+$$;
+
+-- The term is numbered here rather than by the caller, and the host-left path
+-- only opens once the host has stopped checking in
+DROP FUNCTION IF EXISTS public.set_room_control(uuid, uuid, text, integer, boolean);
+
+CREATE OR REPLACE FUNCTION public.set_room_control(
+  p_room_id uuid,
+  p_host_id uuid,
+  p_control_mode text,
+  p_host_left boolean DEFAULT false
+)
+RETURNS public.rooms
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  r public.rooms%ROWTYPE;
+  u uuid;
+BEGIN
+  u := auth.uid();
+  IF u IS NULL THEN
+    RAISE EXCEPTION 'not_authenticated';
+  END IF;
+
+  SELECT * INTO r
+  FROM public.rooms
+  WHERE id = p_room_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR (r.creator_id <> u AND r.partner_id IS DISTINCT FROM u) THEN
+    RAISE EXCEPTION 'room_not_found';
+  END IF;
+
+  -- Control can only go to someone in the room
+  IF p_host_id <> r.creator_id AND p_host_id IS DISTINCT FROM r.partner_id THEN
+    RAISE EXCEPTION 'host_not_member';
+  END IF;
+
+  IF COALESCE(r.host_id, r.creator_id) <> u THEN
+    IF p_host_id <> u OR COALESCE(p_control_mode, r.control_mode) <> r.control_mode THEN
+      RAISE EXCEPTION 'not_host';
+    END IF;
+    IF r.control_mode <> 'shared' THEN
+      IF NOT p_host_left THEN
+        RAISE EXCEPTION 'not_host';
+      END IF;
+      -- The host checks in every 15 seconds; three missed check-ins mean it's gone
+      IF COALESCE(r.host_seen_at, '-infinity'::timestamptz) > now() - interval '45 seconds' THEN
+        RAISE EXCEPTION 'host_present';
+      END IF;
+    END IF;
+  END IF;
+
+  UPDATE public.rooms
+  SET host_id = p_host_id,
+      control_mode = COALESCE(p_control_mode, r.control_mode),
+      control_epoch = r.control_epoch + 1,
+      host_seen_at = now(),
+      updated_at = now()
+  WHERE id = r.id
+  RETURNING * INTO r;
+
+  RETURN r;
+END;
+$$;
+
+-- host_seen_at is only written by the functions above
+CREATE OR REPLACE FUNCTION public.guard_room_control()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  -- set_room_control and touch_room_host run as their owner, so only client roles are held back
+  IF current_user IN ('authenticated', 'anon')
+    AND (NEW.host_id IS DISTINCT FROM OLD.host_id
+      OR NEW.control_mode IS DISTINCT FROM OLD.control_mode
+      OR NEW.control_epoch IS DISTINCT FROM OLD.control_epoch
+      OR NEW.host_seen_at IS DISTINCT FROM OLD.host_seen_at) THEN
+    RAISE EXCEPTION 'room_control_via_set_room_control';
+  END IF;
+  RETURN NEW;
+END;
+$$;
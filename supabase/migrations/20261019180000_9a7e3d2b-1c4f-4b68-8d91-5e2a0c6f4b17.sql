@@ -0,0 +1,8 @@
+-- A call the caller gave up on rang unanswered too: push it as missed, which
+-- also replaces the receiver's ringing notification
+DROP TRIGGER IF EXISTS calls_push_missed ON public.calls;
+CREATE TRIGGER calls_push_missed
+AFTER UPDATE OF status ON public.calls
+FOR EACH ROW
+WHEN (OLD.status = 'ringing' AND NEW.status IN ('missed', 'cancelled'))
+EXECUTE FUNCTION public.send_call_push();
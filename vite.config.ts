@@ -31,6 +31,10 @@ export default defineConfig(({ mode }) => ({
   define: {
     global: 'globalThis',
   },
+  build: {
+    // public/sw.js pulls in WebTorrent's worker with importScripts, which needs a real file rather than a data URL
+    assetsInlineLimit: (file: string) => (file.endsWith('webtorrent/dist/sw.min.js') ? false : undefined),
+  },
   optimizeDeps: {
     include: ['simple-peer'],
     exclude: ['webtorrent']